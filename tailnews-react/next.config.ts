@@ -2,6 +2,9 @@ import type { NextConfig } from "next";
 // @ts-ignore
 import withPWA from 'next-pwa';
 
+// Content images from WordPress uploads are served through the image optimizer
+const wordpressUrl = new URL(process.env.NEXT_PUBLIC_WORDPRESS_API_URL || 'http://localhost:8000/wp-json/wp/v2');
+
 const nextConfig: NextConfig = {
   // Turbopack configuration  
   turbopack: {
@@ -76,6 +79,12 @@ const nextConfig: NextConfig = {
         hostname: 'localhost',
         port: '8000',
       },
+      {
+        protocol: wordpressUrl.protocol === 'http:' ? 'http' : 'https',
+        hostname: wordpressUrl.hostname,
+        port: wordpressUrl.port,
+        pathname: '/wp-content/uploads/**',
+      },
     ],
     formats: ['image/avif', 'image/webp'],
     minimumCacheTTL: 60,
@@ -164,6 +173,12 @@ const nextConfig: NextConfig = {
         destination: '/',
         permanent: true,
       },
+      {
+        // Sitemaps are split, the index lists them all
+        source: '/sitemap.xml',
+        destination: '/sitemap_index.xml',
+        permanent: true,
+      },
     ];
   },
 
@@ -191,6 +206,11 @@ export default withPWA({
   skipWaiting: true,
   disable: process.env.NODE_ENV === 'development',
   runtimeCaching: [
+    {
+      // Draft previews and API routes must never be stored in or served from the offline cache
+      urlPattern: /\/api\/|[?&]preview=true/,
+      handler: 'NetworkOnly',
+    },
     {
       urlPattern: /^https?.*/,
       handler: 'NetworkFirst',
@@ -0,0 +1,148 @@
+import { Metadata } from 'next';
+import { notFound, permanentRedirect } from 'next/navigation';
+import { serverPagesAPI, serverPostsAPI, serverRedirectsAPI, getAllPagePaths } from '@/lib/server-api';
+import { getPermalinkPostSlug } from '@/lib/content';
+import { followRedirect } from '@/lib/redirects';
+import { seoMetadata } from '@/lib/seo';
+import { wpUtils } from '@/lib/wordpress-api';
+import Image from 'next/image';
+import Link from 'next/link';
+
+interface WordPressPageProps {
+  params: Promise<{
+    path: string[];
+  }>;
+}
+
+// Generate static params for known pages
+export async function generateStaticParams() {
+  try {
+    const paths = await getAllPagePaths();
+    return paths.map((path) => ({ path }));
+  } catch (error) {
+    console.error('Error generating static params:', error);
+    return [];
+  }
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: WordPressPageProps): Promise<Metadata> {
+  const resolvedParams = await params;
+  const page = await serverPagesAPI.getPageByPath(resolvedParams.path);
+
+  if (!page) {
+    return {
+      title: 'Page Not Found',
+      description: 'The requested page could not be found.',
+    };
+  }
+
+  const description = page.excerpt || wpUtils.createExcerpt(page.content || '', 160);
+
+  return seoMetadata(page.seo, {
+    title: `${page.title} | Tailnews React`,
+    description,
+    openGraph: {
+      title: page.title,
+      description,
+      type: 'website',
+      images: page.featuredImage ? [
+        {
+          url: page.featuredImage.url,
+          width: 1200,
+          height: 630,
+          alt: page.featuredImage.alt,
+        }
+      ] : [],
+    },
+    twitter: {
+      card: page.featuredImage ? 'summary_large_image' : 'summary',
+      title: page.title,
+      description,
+    },
+    alternates: {
+      canonical: `/${page.path}`,
+    },
+  });
+}
+
+export default async function WordPressPage({ params }: WordPressPageProps) {
+  const resolvedParams = await params;
+
+  // Also catches old WordPress permalinks that no route matches
+  followRedirect(await serverRedirectsAPI.findRedirect(`/${resolvedParams.path.join('/')}`));
+
+  const page = await serverPagesAPI.getPageByPath(resolvedParams.path);
+
+  if (!page) {
+    // Post-name permalinks (/my-post/) share this URL space with pages
+    const postSlug = getPermalinkPostSlug(resolvedParams.path);
+    const post = postSlug ? await serverPostsAPI.getPostBySlug(postSlug) : null;
+    if (post) permanentRedirect(`/posts/${post.slug}`);
+
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Breadcrumb Navigation */}
+      <div className="bg-gray-50 border-b">
+        <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-3">
+          <nav className="flex text-sm text-gray-600" aria-label="Breadcrumb">
+            <Link href="/" className="hover:text-red-600">
+              Home
+            </Link>
+            <span className="mx-2">/</span>
+            {page.ancestors.map((ancestor) => (
+              <span key={ancestor.id} className="flex">
+                <Link href={`/${ancestor.path}`} className="hover:text-red-600">
+                  {ancestor.title}
+                </Link>
+                <span className="mx-2">/</span>
+              </span>
+            ))}
+            <span className="text-gray-800 truncate">{page.title}</span>
+          </nav>
+        </div>
+      </div>
+
+      <article className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-8">
+        <div className="max-w-4xl mx-auto">
+          {/* Page Header */}
+          <header className="mb-8">
+            <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold text-gray-900 leading-tight mb-6">
+              {page.title}
+            </h1>
+
+            {/* Featured Image */}
+            {page.featuredImage && (
+              <div className="mb-8">
+                <Image
+                  src={page.featuredImage.url}
+                  alt={page.featuredImage.alt}
+                  width={1200}
+                  height={630}
+                  className="w-full h-auto rounded-lg"
+                  priority
+                />
+              </div>
+            )}
+          </header>
+
+          {/* Page Content */}
+          <div
+            dangerouslySetInnerHTML={{ __html: page.content || '' }}
+            className="prose prose-lg prose-red max-w-none
+              prose-headings:text-gray-900 prose-headings:font-bold
+              prose-p:text-gray-700 prose-p:leading-relaxed prose-p:text-lg
+              prose-a:text-red-600 prose-a:no-underline hover:prose-a:underline
+              prose-strong:text-gray-900 prose-strong:font-semibold
+              prose-ul:text-gray-700 prose-ol:text-gray-700
+              prose-li:text-gray-700 prose-li:leading-relaxed
+              prose-blockquote:border-l-red-600 prose-blockquote:text-gray-600"
+          />
+        </div>
+      </article>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { authAPI } from '@/lib/auth-api';
+import { authErrorResponse, crossOriginResponse, isSameOrigin, NO_STORE_HEADERS, setSessionCookies, toSessionResponse } from '@/lib/auth-session';
+
+// Sign in with WordPress and keep the tokens in httpOnly cookies; only the user is returned
+export async function POST(request: NextRequest) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.username !== 'string' || typeof body?.password !== 'string' || !body.username || !body.password) {
+    return NextResponse.json({ code: 'BAD_REQUEST', message: 'Username and password are required' }, { status: 400, headers: NO_STORE_HEADERS });
+  }
+
+  try {
+    const auth = await authAPI.login({ username: body.username, password: body.password });
+    setSessionCookies(await cookies(), auth);
+
+    return NextResponse.json(toSessionResponse(auth.user, auth.token), { headers: NO_STORE_HEADERS });
+  } catch (error) {
+    return authErrorResponse(error);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { AUTH_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '@/lib/auth-session';
+import { PREVIEW_TOKEN_COOKIE } from '@/lib/preview';
+import { POST } from '../route';
+
+// jsdom has no Request for next/server, and cookies() and draftMode() need a request scope
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn((body, init) => ({ body, init })) } }));
+
+const mockCookies = new Map<string, string>();
+const mockDraftMode = { disable: jest.fn() };
+
+jest.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (mockCookies.has(name) ? { value: mockCookies.get(name) } : undefined),
+    delete: (name: string) => mockCookies.delete(name),
+  }),
+  draftMode: async () => mockDraftMode,
+}));
+
+const request = (headers: Record<string, string>) => ({ headers: new Headers(headers) }) as unknown as NextRequest;
+
+describe('POST /api/auth/logout', () => {
+  beforeEach(() => {
+    mockCookies.clear();
+    mockDraftMode.disable.mockClear();
+  });
+
+  it('clears the session and the preview token and leaves draft mode', async () => {
+    mockCookies.set(AUTH_TOKEN_COOKIE, 'token');
+    mockCookies.set(REFRESH_TOKEN_COOKIE, 'refresh');
+    mockCookies.set(PREVIEW_TOKEN_COOKIE, 'token');
+
+    const response = await POST(request({ 'Sec-Fetch-Site': 'same-origin' }));
+
+    expect(response).toMatchObject({ body: { success: true } });
+    expect(mockCookies.size).toBe(0);
+    expect(mockDraftMode.disable).toHaveBeenCalled();
+  });
+
+  it('ignores cross-site requests', async () => {
+    mockCookies.set(PREVIEW_TOKEN_COOKIE, 'token');
+
+    await POST(request({ 'Sec-Fetch-Site': 'cross-site' }));
+
+    expect(mockCookies.has(PREVIEW_TOKEN_COOKIE)).toBe(true);
+    expect(mockDraftMode.disable).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies, draftMode } from 'next/headers';
+import { AUTH_TOKEN_COOKIE, clearSessionCookies, crossOriginResponse, forgetSessionUser, isSameOrigin, NO_STORE_HEADERS } from '@/lib/auth-session';
+import { PREVIEW_TOKEN_COOKIE } from '@/lib/preview';
+
+// End the session; JWTs can't be revoked, so forgetting the cookies is all there is to do
+export async function POST(request: NextRequest) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const cookieStore = await cookies();
+  forgetSessionUser(cookieStore.get(AUTH_TOKEN_COOKIE)?.value);
+  clearSessionCookies(cookieStore);
+
+  // The preview cookie holds the editor's JWT as well, and draft mode would keep showing unpublished posts
+  cookieStore.delete(PREVIEW_TOKEN_COOKIE);
+  (await draftMode()).disable();
+
+  return NextResponse.json({ success: true }, { headers: NO_STORE_HEADERS });
+}
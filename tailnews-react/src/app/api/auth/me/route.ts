@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { authAPI } from '@/lib/auth-api';
+import {
+  authErrorResponse,
+  clearSessionCookies,
+  crossOriginResponse,
+  forgetSessionUser,
+  getSessionUser,
+  isSameOrigin,
+  NO_STORE_HEADERS,
+  setSessionCookies,
+  toSessionResponse,
+} from '@/lib/auth-session';
+
+const notSignedIn = () => NextResponse.json({ code: 'UNAUTHORIZED', message: 'Not signed in' }, { status: 401, headers: NO_STORE_HEADERS });
+
+// The signed-in user, refreshing the tokens when the access token has expired
+export async function GET() {
+  const cookieStore = await cookies();
+  const session = await getSessionUser(cookieStore);
+
+  if (!session?.user) {
+    clearSessionCookies(cookieStore);
+    return notSignedIn();
+  }
+
+  if (session.refreshed) setSessionCookies(cookieStore, session.refreshed);
+  return NextResponse.json(toSessionResponse(session.user, session.token), { headers: NO_STORE_HEADERS });
+}
+
+// Update the signed-in user's profile
+export async function PATCH(request: NextRequest) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const cookieStore = await cookies();
+  const session = await getSessionUser(cookieStore);
+  if (!session?.user) return notSignedIn();
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ code: 'BAD_REQUEST', message: 'Invalid profile data' }, { status: 400, headers: NO_STORE_HEADERS });
+  }
+
+  try {
+    if (session.refreshed) setSessionCookies(cookieStore, session.refreshed);
+    const user = await authAPI.updateUser(session.token, session.user.id, body);
+    forgetSessionUser(session.token);
+
+    return NextResponse.json(toSessionResponse(user, session.token), { headers: NO_STORE_HEADERS });
+  } catch (error) {
+    return authErrorResponse(error);
+  }
+}
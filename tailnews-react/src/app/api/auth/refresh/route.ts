@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { authAPI } from '@/lib/auth-api';
+import {
+  authErrorResponse,
+  clearSessionCookies,
+  crossOriginResponse,
+  isSameOrigin,
+  NO_STORE_HEADERS,
+  REFRESH_TOKEN_COOKIE,
+  setSessionCookies,
+  toSessionResponse,
+} from '@/lib/auth-session';
+
+// Swap the refresh token cookie for new tokens before the access token expires
+export async function POST(request: NextRequest) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get(REFRESH_TOKEN_COOKIE)?.value;
+  if (!refreshToken) {
+    return NextResponse.json({ code: 'UNAUTHORIZED', message: 'Not signed in' }, { status: 401, headers: NO_STORE_HEADERS });
+  }
+
+  try {
+    const auth = await authAPI.refreshToken(refreshToken);
+    setSessionCookies(cookieStore, auth);
+
+    return NextResponse.json(toSessionResponse(auth.user, auth.token), { headers: NO_STORE_HEADERS });
+  } catch (error) {
+    clearSessionCookies(cookieStore);
+    return authErrorResponse(error);
+  }
+}
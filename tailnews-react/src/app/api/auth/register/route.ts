@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { authAPI } from '@/lib/auth-api';
+import { authErrorResponse, crossOriginResponse, getSessionToken, isSameOrigin, NO_STORE_HEADERS, setSessionCookies, toSessionResponse } from '@/lib/auth-session';
+
+// Create an account and sign in as it; an administrator's session is passed on to WordPress
+export async function POST(request: NextRequest) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.username !== 'string' || typeof body?.email !== 'string' || typeof body?.password !== 'string') {
+    return NextResponse.json({ code: 'BAD_REQUEST', message: 'Username, email and password are required' }, { status: 400, headers: NO_STORE_HEADERS });
+  }
+
+  try {
+    const cookieStore = await cookies();
+    const session = await getSessionToken(cookieStore);
+    const auth = await authAPI.register(body, session?.token);
+    setSessionCookies(cookieStore, auth);
+
+    return NextResponse.json(toSessionResponse(auth.user, auth.token), { headers: NO_STORE_HEADERS });
+  } catch (error) {
+    return authErrorResponse(error);
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { crossOriginResponse, getSessionToken, isSameOrigin, NO_STORE_HEADERS, setSessionCookies } from '@/lib/auth-session';
+import { createFormToken, getClientKey, guardCommentSubmission, recordClientSubmission } from '@/lib/comment-guard';
+import { validateCommentInput } from '@/lib/comments';
+import { createFetchTransport, createWordPressClient } from '@/lib/wordpress-client';
+import { CommentInput } from '@/types/api';
+
+// WordPress only takes anonymous comments carrying the shared secret (see README)
+const client = createWordPressClient(createFetchTransport({
+  staleIfError: false,
+  headers: process.env.COMMENTS_SECRET ? { 'X-Comments-Secret': process.env.COMMENTS_SECRET } : {},
+}));
+
+// Same shape as WordPress errors, so the browser maps them like any other
+function errorResponse(code: string, message: string, status: number) {
+  return NextResponse.json({ code, message, data: { status } }, { status, headers: NO_STORE_HEADERS });
+}
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+// Form token, requested when the comment form is shown
+export async function GET() {
+  return NextResponse.json({ token: createFormToken() }, { headers: NO_STORE_HEADERS });
+}
+
+// Submit a comment after the spam guard, as the signed-in user when there is a session
+export async function POST(request: NextRequest) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.post !== 'number' || typeof body.content !== 'string') {
+    return errorResponse('rest_invalid_param', 'Invalid comment.', 400);
+  }
+
+  const input: CommentInput = {
+    post: body.post,
+    parent: typeof body.parent === 'number' ? body.parent : 0,
+    content: body.content,
+    authorName: optionalString(body.authorName),
+    authorEmail: optionalString(body.authorEmail),
+    authorUrl: optionalString(body.authorUrl),
+  };
+
+  const cookieStore = await cookies();
+  const session = await getSessionToken(cookieStore);
+  if (session?.refreshed) setSessionCookies(cookieStore, session.refreshed);
+
+  const invalid = validateCommentInput(input, !session);
+  if (invalid) return errorResponse('rest_invalid_param', invalid, 400);
+
+  const clientKey = getClientKey(request.headers);
+  const check = guardCommentSubmission(clientKey, body);
+  if (!check.allowed) {
+    return check.reason === 'rate_limited'
+      ? errorResponse('comment_rate_limited', check.message, 429)
+      : errorResponse('comment_rejected', check.message, 400);
+  }
+
+  const response = await client.comments.createComment(input, session?.token);
+  if (!response.data) {
+    const error = response.error;
+    return errorResponse(error?.wpCode || 'comment_failed', error?.message || 'Your comment could not be submitted.', error?.status || 502);
+  }
+
+  recordClientSubmission(clientKey);
+  return NextResponse.json(response.data, { status: 201, headers: NO_STORE_HEADERS });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies, draftMode } from 'next/headers';
+import { crossOriginResponse, getSessionToken, isSameOrigin } from '@/lib/auth-session';
+import { PREVIEW_MAX_AGE, PREVIEW_TOKEN_COOKIE, validatePreviewToken } from '@/lib/preview';
+
+const noStore = { 'Cache-Control': 'private, no-store' };
+
+// Enable draft mode for an editor, keeping their JWT in an httpOnly cookie for server-side fetches
+// Signed-in editors are taken from the session cookie; other callers can pass a bearer token
+export async function POST(request: NextRequest) {
+  const cookieStore = await cookies();
+  let token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    if (!isSameOrigin(request)) return crossOriginResponse();
+    token = (await getSessionToken(cookieStore))?.token;
+  }
+  if (!token) {
+    return NextResponse.json({ message: 'Authentication required' }, { status: 401, headers: noStore });
+  }
+
+  const user = await validatePreviewToken(token);
+  if (!user) {
+    return NextResponse.json({ message: 'You are not allowed to preview unpublished content' }, { status: 403, headers: noStore });
+  }
+
+  (await draftMode()).enable();
+  cookieStore.set(PREVIEW_TOKEN_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: PREVIEW_MAX_AGE,
+  });
+
+  return NextResponse.json({ enabled: true }, { headers: noStore });
+}
+
+// Leave draft mode and forget the preview token
+export async function DELETE() {
+  (await draftMode()).disable();
+  (await cookies()).delete(PREVIEW_TOKEN_COOKIE);
+
+  return NextResponse.json({ enabled: false }, { headers: noStore });
+}
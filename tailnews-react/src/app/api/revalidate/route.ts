@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath, revalidateTag } from 'next/cache';
+import {
+  REVALIDATE_SIGNATURE_HEADER,
+  getRevalidationTags,
+  getRevalidationTargets,
+  parseRevalidationPayload,
+  verifySignature,
+} from '@/lib/revalidation';
+
+const noStore = { 'Cache-Control': 'private, no-store' };
+
+// Webhook sent by WordPress on post save/trash/delete and term changes
+export async function POST(request: NextRequest) {
+  const secret = process.env.REVALIDATE_SECRET;
+  if (!secret) {
+    console.error('REVALIDATE_SECRET is not configured');
+    return NextResponse.json({ message: 'Revalidation is not configured' }, { status: 500, headers: noStore });
+  }
+
+  // The signature covers the raw body, so read it before parsing
+  const body = await request.text();
+  if (!verifySignature(body, request.headers.get(REVALIDATE_SIGNATURE_HEADER), secret)) {
+    return NextResponse.json({ message: 'Invalid signature' }, { status: 401, headers: noStore });
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ message: 'Invalid JSON body' }, { status: 400, headers: noStore });
+  }
+
+  const { payload, error } = parseRevalidationPayload(json);
+  if (!payload) {
+    return NextResponse.json({ message: `Invalid payload: ${error}` }, { status: 400, headers: noStore });
+  }
+
+  // Tags purge the data cache, paths purge the rendered routes built from it
+  const tags = getRevalidationTags(payload);
+  tags.forEach(tag => revalidateTag(tag));
+
+  const targets = getRevalidationTargets(payload);
+  targets.forEach(({ path, type }) => revalidatePath(path, type));
+
+  return NextResponse.json({
+    revalidated: true,
+    tags,
+    paths: targets.map(target => target.path),
+    now: Date.now(),
+  }, { headers: noStore });
+}
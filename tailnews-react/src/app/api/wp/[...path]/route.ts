@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { crossOriginResponse, getSessionToken, isSameOrigin, NO_STORE_HEADERS, setSessionCookies } from '@/lib/auth-session';
+import { WORDPRESS_API_URL } from '@/lib/wordpress-client';
+
+// Response headers passed back to the browser
+const FORWARDED_HEADERS = ['Content-Type', 'X-WP-Total', 'X-WP-TotalPages', 'Retry-After'];
+
+// Global REST parameters that would let a GET override the method or wrap the response
+const BLOCKED_PARAMS = ['_method', '_envelope', '_jsonp'];
+
+interface ProxyContext {
+  params: Promise<{
+    path: string[];
+  }>;
+}
+
+// WordPress REST requests made as the signed-in user, with the bearer token attached here
+async function proxy(request: NextRequest, { params }: ProxyContext) {
+  if (!isSameOrigin(request)) return crossOriginResponse();
+
+  const cookieStore = await cookies();
+  const session = await getSessionToken(cookieStore);
+  if (!session) {
+    return NextResponse.json({ code: 'rest_not_logged_in', message: 'You are not currently logged in.', data: { status: 401 } }, { status: 401, headers: NO_STORE_HEADERS });
+  }
+  if (session.refreshed) setSessionCookies(cookieStore, session.refreshed);
+
+  // Stay inside wp/v2
+  const { path } = await params;
+  if (path.some(segment => segment === '.' || segment === '..')) {
+    return NextResponse.json({ code: 'rest_no_route', message: 'No route was found matching the URL and request method.', data: { status: 404 } }, { status: 404, headers: NO_STORE_HEADERS });
+  }
+
+  const search = new URLSearchParams(request.nextUrl.searchParams);
+  BLOCKED_PARAMS.forEach(name => search.delete(name));
+  const query = search.toString();
+
+  const url = `${WORDPRESS_API_URL}/${path.map(encodeURIComponent).join('/')}${query ? `?${query}` : ''}`;
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+
+  try {
+    const response = await fetch(url, {
+      method: request.method,
+      headers: {
+        Authorization: `Bearer ${session.token}`,
+        'Content-Type': request.headers.get('Content-Type') || 'application/json',
+      },
+      body: hasBody ? await request.text() : undefined,
+      cache: 'no-store',
+    });
+
+    const headers = new Headers(NO_STORE_HEADERS);
+    FORWARDED_HEADERS.forEach(name => {
+      const value = response.headers.get(name);
+      if (value) headers.set(name, value);
+    });
+
+    return new NextResponse(response.body, { status: response.status, headers });
+  } catch (error) {
+    console.error('WordPress proxy request failed:', error);
+    return NextResponse.json({ code: 'rest_proxy_failed', message: 'WordPress could not be reached.', data: { status: 502 } }, { status: 502, headers: NO_STORE_HEADERS });
+  }
+}
+
+export const GET = proxy;
+export const POST = proxy;
+export const PUT = proxy;
+export const PATCH = proxy;
+export const DELETE = proxy;
@@ -0,0 +1,90 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { serverArchiveAPI } from '@/lib/server-api';
+import { formatArchiveLabel, getArchivePath, parseArchiveParams } from '@/lib/archive';
+import DateArchive from '@/components/sections/DateArchive';
+
+interface MonthArchivePageProps {
+  params: Promise<{
+    year: string;
+    month: string;
+  }>;
+  searchParams: Promise<{
+    page?: string;
+  }>;
+}
+
+// Generate static params for recent months, older months render on demand
+export async function generateStaticParams() {
+  try {
+    const months = await serverArchiveAPI.getArchiveMonths(12);
+    return months.map(({ year, month }) => ({
+      year: year.toString(),
+      month: month.toString().padStart(2, '0'),
+    }));
+  } catch (error) {
+    console.error('Error generating static params:', error);
+    return [];
+  }
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: MonthArchivePageProps): Promise<Metadata> {
+  const resolvedParams = await params;
+  const archive = parseArchiveParams(resolvedParams.year, resolvedParams.month);
+
+  if (!archive) {
+    return {
+      title: 'Archive Not Found',
+      description: 'The requested archive could not be found.',
+    };
+  }
+
+  const label = formatArchiveLabel(archive.year, archive.month);
+
+  return {
+    title: `${label} Archive | Tailnews React`,
+    description: `All articles published in ${label}.`,
+    openGraph: {
+      title: `${label} Archive`,
+      description: `All articles published in ${label}.`,
+      type: 'website',
+    },
+    alternates: {
+      canonical: getArchivePath(archive.year, archive.month),
+    },
+  };
+}
+
+export default async function MonthArchivePage({ params, searchParams }: MonthArchivePageProps) {
+  const resolvedParams = await params;
+  const resolvedSearchParams = await searchParams;
+  const archive = parseArchiveParams(resolvedParams.year, resolvedParams.month);
+
+  if (!archive) {
+    notFound();
+  }
+
+  const currentPage = parseInt(resolvedSearchParams.page || '1', 10);
+  const [{ posts, totalPages, total }, archiveMonths] = await Promise.all([
+    serverArchiveAPI.getPostsByDate(archive.year, archive.month, { page: currentPage, per_page: 12 }),
+    serverArchiveAPI.getArchiveMonths(24),
+  ]);
+
+  // A fetch failure has already thrown to the error boundary, so only a successful empty result is a 404
+  if (posts.length === 0) {
+    notFound();
+  }
+
+  return (
+    <DateArchive
+      year={archive.year}
+      month={archive.month}
+      posts={posts}
+      total={total}
+      totalPages={totalPages}
+      currentPage={currentPage}
+      archiveMonths={archiveMonths}
+    />
+  );
+}
@@ -0,0 +1,72 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { serverArchiveAPI } from '@/lib/server-api';
+import { getArchivePath, parseArchiveParams } from '@/lib/archive';
+import DateArchive from '@/components/sections/DateArchive';
+
+interface YearArchivePageProps {
+  params: Promise<{
+    year: string;
+  }>;
+  searchParams: Promise<{
+    page?: string;
+  }>;
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: YearArchivePageProps): Promise<Metadata> {
+  const resolvedParams = await params;
+  const archive = parseArchiveParams(resolvedParams.year);
+
+  if (!archive) {
+    return {
+      title: 'Archive Not Found',
+      description: 'The requested archive could not be found.',
+    };
+  }
+
+  return {
+    title: `${archive.year} Archive | Tailnews React`,
+    description: `All articles published in ${archive.year}.`,
+    openGraph: {
+      title: `${archive.year} Archive`,
+      description: `All articles published in ${archive.year}.`,
+      type: 'website',
+    },
+    alternates: {
+      canonical: getArchivePath(archive.year),
+    },
+  };
+}
+
+export default async function YearArchivePage({ params, searchParams }: YearArchivePageProps) {
+  const resolvedParams = await params;
+  const resolvedSearchParams = await searchParams;
+  const archive = parseArchiveParams(resolvedParams.year);
+
+  if (!archive) {
+    notFound();
+  }
+
+  const currentPage = parseInt(resolvedSearchParams.page || '1', 10);
+  const [{ posts, totalPages, total }, archiveMonths] = await Promise.all([
+    serverArchiveAPI.getPostsByDate(archive.year, undefined, { page: currentPage, per_page: 12 }),
+    serverArchiveAPI.getArchiveMonths(24),
+  ]);
+
+  // A fetch failure has already thrown to the error boundary, so only a successful empty result is a 404
+  if (posts.length === 0) {
+    notFound();
+  }
+
+  return (
+    <DateArchive
+      year={archive.year}
+      posts={posts}
+      total={total}
+      totalPages={totalPages}
+      currentPage={currentPage}
+      archiveMonths={archiveMonths.filter(month => month.year === archive.year)}
+    />
+  );
+}
@@ -0,0 +1,37 @@
+import { serverAuthorsAPI } from '@/lib/server-api';
+import { getOgImageVersion, loadOgImage, OG_IMAGE_CONTENT_TYPE, OG_IMAGE_SIZE, renderOgImage } from '@/lib/og-image';
+
+interface OgImageProps {
+  params: { slug: string };
+  id: string;
+}
+
+// Versioned by the author's newest post so the image follows the archive's content
+export async function generateImageMetadata({ params }: Pick<OgImageProps, 'params'>) {
+  const { author, posts } = await serverAuthorsAPI.getPostsByAuthorSlug(params.slug, { per_page: 1 });
+
+  return [
+    {
+      id: getOgImageVersion(posts[0]?.modified),
+      alt: author ? author.name : 'Author not found',
+      size: OG_IMAGE_SIZE,
+      contentType: OG_IMAGE_CONTENT_TYPE,
+    },
+  ];
+}
+
+export default async function Image({ params }: OgImageProps) {
+  const { author, total } = await serverAuthorsAPI.getPostsByAuthorSlug(params.slug, { per_page: 1 });
+
+  if (!author) {
+    return renderOgImage({ title: 'Author not found' });
+  }
+
+  const avatar = await loadOgImage(author.avatar);
+
+  return renderOgImage({
+    title: author.name,
+    eyebrow: `Author · ${total} ${total === 1 ? 'article' : 'articles'}`,
+    author: { name: author.name, avatar },
+  });
+}
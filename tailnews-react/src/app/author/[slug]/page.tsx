@@ -0,0 +1,244 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { serverAuthorsAPI, serverRedirectsAPI, getAllAuthorSlugs } from '@/lib/server-api';
+import { followRedirect } from '@/lib/redirects';
+import { seoMetadata } from '@/lib/seo';
+import { getFeedAlternates } from '@/lib/feeds';
+import ArticleCard from '@/components/articles/ArticleCard';
+import Pagination from '@/components/ui/Pagination';
+import Image from 'next/image';
+import Link from 'next/link';
+import JsonLd from '@/components/ui/JsonLd';
+import { breadcrumbSchema, collectionPageSchema, profilePageSchema } from '@/lib/structured-data';
+
+interface AuthorPageProps {
+  params: Promise<{
+    slug: string;
+  }>;
+  searchParams: Promise<{
+    page?: string;
+  }>;
+}
+
+// Generate static params for known authors
+export async function generateStaticParams() {
+  try {
+    const slugs = await getAllAuthorSlugs();
+    return slugs.map((slug) => ({ slug }));
+  } catch (error) {
+    console.error('Error generating static params:', error);
+    return [];
+  }
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: AuthorPageProps): Promise<Metadata> {
+  const resolvedParams = await params;
+  const author = await serverAuthorsAPI.getAuthorBySlug(resolvedParams.slug);
+
+  if (!author) {
+    return {
+      title: 'Author Not Found',
+      description: 'The requested author could not be found.',
+    };
+  }
+
+  const description = author.description || `Read the latest articles by ${author.name}.`;
+
+  return seoMetadata(author.seo, {
+    title: `${author.name} | Tailnews React`,
+    description,
+    openGraph: {
+      title: author.name,
+      description,
+      type: 'profile',
+      username: author.slug,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: author.name,
+      description,
+    },
+    alternates: {
+      canonical: `/author/${author.slug}`,
+      types: getFeedAlternates(`/author/${author.slug}`, author.name),
+    },
+  });
+}
+
+export default async function AuthorPage({ params, searchParams }: AuthorPageProps) {
+  const resolvedParams = await params;
+  const resolvedSearchParams = await searchParams;
+  const currentPage = parseInt(resolvedSearchParams.page || '1', 10);
+  const postsPerPage = 12;
+
+  followRedirect(await serverRedirectsAPI.findRedirect(`/author/${resolvedParams.slug}`));
+
+  // Fetch author and posts data
+  const { posts, author, totalPages, total } = await serverAuthorsAPI.getPostsByAuthorSlug(
+    resolvedParams.slug,
+    {
+      page: currentPage,
+      per_page: postsPerPage,
+    }
+  );
+
+  if (!author) {
+    notFound();
+  }
+
+  const basePath = `/author/${resolvedParams.slug}`;
+
+  // Mirrors the breadcrumb navigation below
+  const breadcrumbs = [
+    { name: 'Home', path: '/' },
+    { name: 'Authors' },
+    { name: author.name },
+  ];
+
+  return (
+    <div className="min-h-screen bg-white">
+      <JsonLd
+        data={[
+          profilePageSchema(author),
+          collectionPageSchema({
+            name: `Articles by ${author.name}`,
+            description: author.description,
+            path: basePath,
+            posts,
+            offset: (currentPage - 1) * postsPerPage,
+          }),
+          breadcrumbSchema(breadcrumbs),
+        ]}
+      />
+
+      {/* Breadcrumb Navigation */}
+      <div className="bg-gray-50 border-b">
+        <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-3">
+          <nav className="flex text-sm text-gray-600">
+            <Link href="/" className="hover:text-red-600">
+              Home
+            </Link>
+            <span className="mx-2">/</span>
+            <span className="text-gray-800">Authors</span>
+            <span className="mx-2">/</span>
+            <span className="text-gray-800">{author.name}</span>
+          </nav>
+        </div>
+      </div>
+
+      {/* Author Header */}
+      <div className="bg-white border-b">
+        <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-8">
+          <div className="flex flex-col items-center text-center">
+            {author.avatar && (
+              <Image
+                src={author.avatar}
+                alt={author.name}
+                width={96}
+                height={96}
+                className="w-24 h-24 rounded-full mb-4"
+              />
+            )}
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">
+              {author.name}
+            </h1>
+            {author.description && (
+              <p className="text-lg text-gray-600 max-w-2xl mx-auto">
+                {author.description}
+              </p>
+            )}
+            <div className="mt-4 text-sm text-gray-500">
+              {total} {total === 1 ? 'article' : 'articles'} published
+            </div>
+
+            {/* Social Links */}
+            {((author.socialLinks && author.socialLinks.length > 0) || author.url) && (
+              <ul className="flex flex-wrap justify-center gap-2 mt-4">
+                {author.url && (
+                  <li>
+                    <a
+                      href={author.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-block bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm px-3 py-1 rounded-full transition-colors"
+                    >
+                      Website
+                    </a>
+                  </li>
+                )}
+                {author.socialLinks?.map((link) => (
+                  <li key={link.network}>
+                    <a
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer me"
+                      className="inline-block bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm px-3 py-1 rounded-full transition-colors"
+                    >
+                      {link.network}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Posts Grid */}
+      <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-8">
+        {posts.length > 0 ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {posts.map((post) => (
+                <ArticleCard
+                  key={post.id}
+                  title={post.title}
+                  excerpt={post.excerpt}
+                  slug={post.slug}
+                  featuredImage={post.featuredImage}
+                  category={post.category}
+                  readingTime={post.readingTime}
+                  commentCount={post.commentCount}
+                  variant="horizontal"
+                  className="bg-white shadow-sm border border-gray-100 rounded-lg overflow-hidden hover:shadow-md transition-shadow"
+                />
+              ))}
+            </div>
+
+            {/* Pagination */}
+            <Pagination currentPage={currentPage} totalPages={totalPages} basePath={basePath} />
+
+            {/* Page Info */}
+            <div className="text-center mt-6">
+              <p className="text-sm text-gray-500">
+                Showing page {currentPage} of {totalPages} ({posts.length} of {total} articles)
+              </p>
+            </div>
+          </>
+        ) : (
+          /* No Posts Message */
+          <div className="text-center py-16">
+            <div className="max-w-md mx-auto">
+              <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z" />
+              </svg>
+              <h3 className="mt-4 text-lg font-medium text-gray-900">No articles found</h3>
+              <p className="mt-2 text-gray-500">
+                {author.name} has not published any articles yet.
+              </p>
+              <div className="mt-6">
+                <Link
+                  href="/"
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700"
+                >
+                  Back to Home
+                </Link>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
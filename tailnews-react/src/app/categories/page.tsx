@@ -0,0 +1,69 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { serverCategoriesAPI } from '@/lib/server-api';
+import CategoryTree from '@/components/sections/CategoryTree';
+
+// Generate metadata for SEO
+export const metadata: Metadata = {
+  title: 'All Categories | Tailnews React',
+  description: 'Browse every news category and sub-category.',
+  openGraph: {
+    title: 'All Categories',
+    description: 'Browse every news category and sub-category.',
+    type: 'website',
+  },
+  alternates: {
+    canonical: '/categories',
+  },
+};
+
+export default async function CategoriesPage() {
+  const tree = await serverCategoriesAPI.getCategoryTree();
+
+  // Hide branches without any published articles
+  const categories = tree.filter(category => category.totalCount > 0);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Breadcrumb Navigation */}
+      <div className="bg-gray-50 border-b">
+        <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-3">
+          <nav className="flex text-sm text-gray-600">
+            <Link href="/" className="hover:text-red-600">
+              Home
+            </Link>
+            <span className="mx-2">/</span>
+            <span className="text-gray-800">Categories</span>
+          </nav>
+        </div>
+      </div>
+
+      {/* Page Header */}
+      <div className="bg-white border-b">
+        <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-8">
+          <div className="text-center">
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">
+              <span className="inline-block h-5 border-l-3 border-red-600 mr-3"></span>
+              All Categories
+            </h1>
+            <p className="text-lg text-gray-600 max-w-2xl mx-auto">
+              Explore our coverage by topic.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Category Tree */}
+      <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-8">
+        {categories.length > 0 ? (
+          <CategoryTree categories={categories} />
+        ) : (
+          <div className="text-center py-16">
+            <h3 className="text-lg font-medium text-gray-900">No categories found</h3>
+            <p className="mt-2 text-gray-500">Check back soon for new content.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
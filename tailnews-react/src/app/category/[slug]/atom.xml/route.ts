@@ -0,0 +1,7 @@
+import { feedResponse } from '@/lib/feeds';
+import { serverFeedsAPI } from '@/lib/server-api';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  return feedResponse('atom', await serverFeedsAPI.getFeed({ type: 'category', slug }));
+}
@@ -0,0 +1,36 @@
+import { serverPostsAPI } from '@/lib/server-api';
+import { getCategoryColor, getOgImageVersion, OG_IMAGE_CONTENT_TYPE, OG_IMAGE_SIZE, renderOgImage } from '@/lib/og-image';
+import { decodeHtmlEntities } from '@/lib/xml';
+
+interface OgImageProps {
+  params: { slug: string };
+  id: string;
+}
+
+// Versioned by the newest post so the image follows the archive's content
+export async function generateImageMetadata({ params }: Pick<OgImageProps, 'params'>) {
+  const { category, posts } = await serverPostsAPI.getPostsByCategory(params.slug, { per_page: 1 });
+
+  return [
+    {
+      id: getOgImageVersion(posts[0]?.modified),
+      alt: category ? decodeHtmlEntities(category.name) : 'Category not found',
+      size: OG_IMAGE_SIZE,
+      contentType: OG_IMAGE_CONTENT_TYPE,
+    },
+  ];
+}
+
+export default async function Image({ params }: OgImageProps) {
+  const { category, total } = await serverPostsAPI.getPostsByCategory(params.slug, { per_page: 1 });
+
+  if (!category) {
+    return renderOgImage({ title: 'Category not found' });
+  }
+
+  return renderOgImage({
+    title: decodeHtmlEntities(category.name),
+    eyebrow: `Category · ${total} ${total === 1 ? 'article' : 'articles'}`,
+    color: getCategoryColor(category.slug),
+  });
+}
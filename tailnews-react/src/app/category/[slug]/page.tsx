@@ -1,8 +1,15 @@
 import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
-import { serverPostsAPI, serverCategoriesAPI, getAllCategorySlugs } from '@/lib/server-api';
+import { serverPostsAPI, serverCategoriesAPI, serverRedirectsAPI, getAllCategorySlugs } from '@/lib/server-api';
+import { followRedirect } from '@/lib/redirects';
+import { seoMetadata } from '@/lib/seo';
+import { getFeedAlternates } from '@/lib/feeds';
+import { buildCategoryTree, findCategoryNode, getCategoryAncestors } from '@/lib/category-tree';
 import ArticleCard from '@/components/articles/ArticleCard';
+import Pagination from '@/components/ui/Pagination';
 import Link from 'next/link';
+import JsonLd from '@/components/ui/JsonLd';
+import { breadcrumbSchema, collectionPageSchema } from '@/lib/structured-data';
 
 interface CategoryPageProps {
   params: Promise<{
@@ -36,7 +43,7 @@ export async function generateMetadata({ params }: CategoryPageProps): Promise<M
     };
   }
 
-  return {
+  return seoMetadata(category.seo, {
     title: `${category.name} Articles | Tailnews React`,
     description: category.description || `Browse all articles in the ${category.name} category.`,
     openGraph: {
@@ -45,14 +52,15 @@ export async function generateMetadata({ params }: CategoryPageProps): Promise<M
       type: 'website',
     },
     twitter: {
-      card: 'summary',
+      card: 'summary_large_image',
       title: `${category.name} Articles`,
       description: category.description || `Browse all articles in the ${category.name} category.`,
     },
     alternates: {
       canonical: `/category/${category.slug}`,
+      types: getFeedAlternates(`/category/${category.slug}`, category.name),
     },
-  };
+  });
 }
 
 export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
@@ -61,26 +69,53 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
   const currentPage = parseInt(resolvedSearchParams.page || '1', 10);
   const postsPerPage = 12;
 
-  // Fetch category and posts data
-  const { posts, category, totalPages } = await serverPostsAPI.getPostsByCategory(
-    resolvedParams.slug,
-    {
-      page: currentPage,
-      per_page: postsPerPage,
-    }
-  );
+  followRedirect(await serverRedirectsAPI.findRedirect(`/category/${resolvedParams.slug}`));
+
+  // Fetch category and posts data, plus the full category list for the hierarchy
+  const [{ posts, category, totalPages }, allCategories] = await Promise.all([
+    serverPostsAPI.getPostsByCategory(
+      resolvedParams.slug,
+      {
+        page: currentPage,
+        per_page: postsPerPage,
+      }
+    ),
+    serverCategoriesAPI.getAllCategories(),
+  ]);
 
   if (!category) {
     notFound();
   }
 
+  const ancestors = getCategoryAncestors(allCategories, category.id);
+  const subCategories = (findCategoryNode(buildCategoryTree(allCategories), category.id)?.children || [])
+    .filter(child => child.totalCount > 0);
+
   // Generate pagination URLs
   const basePath = `/category/${resolvedParams.slug}`;
-  const prevPage = currentPage > 1 ? currentPage - 1 : null;
-  const nextPage = currentPage < totalPages ? currentPage + 1 : null;
+
+  // Mirrors the breadcrumb navigation below
+  const breadcrumbs = [
+    { name: 'Home', path: '/' },
+    { name: 'Categories', path: '/categories' },
+    ...ancestors.map(ancestor => ({ name: ancestor.name, path: `/category/${ancestor.slug}` })),
+    { name: category.name },
+  ];
 
   return (
     <div className="min-h-screen bg-white">
+      <JsonLd
+        data={[
+          collectionPageSchema({
+            name: category.name,
+            description: category.description,
+            path: `/category/${category.slug}`,
+            posts,
+            offset: (currentPage - 1) * postsPerPage,
+          }),
+          breadcrumbSchema(breadcrumbs),
+        ]}
+      />
       {/* Breadcrumb Navigation */}
       <div className="bg-gray-50 border-b">
         <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-3">
@@ -89,8 +124,18 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
               Home
             </Link>
             <span className="mx-2">/</span>
-            <span className="text-gray-800">Categories</span>
+            <Link href="/categories" className="hover:text-red-600">
+              Categories
+            </Link>
             <span className="mx-2">/</span>
+            {ancestors.map((ancestor) => (
+              <span key={ancestor.id} className="flex">
+                <Link href={`/category/${ancestor.slug}`} className="hover:text-red-600">
+                  {ancestor.name}
+                </Link>
+                <span className="mx-2">/</span>
+              </span>
+            ))}
             <span className="text-gray-800">{category.name}</span>
           </nav>
         </div>
@@ -112,6 +157,22 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
             <div className="mt-4 text-sm text-gray-500">
               {category.count} {category.count === 1 ? 'article' : 'articles'} in this category
             </div>
+
+            {/* Sub-categories */}
+            {subCategories.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-2 mt-6">
+                {subCategories.map((child) => (
+                  <Link
+                    key={child.id}
+                    href={`/category/${child.slug}`}
+                    className="inline-block bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm px-3 py-1 rounded-full transition-colors"
+                  >
+                    {child.name}
+                    <span className="ml-1 text-gray-400">{child.totalCount}</span>
+                  </Link>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -129,6 +190,8 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
                   slug={post.slug}
                   featuredImage={post.featuredImage}
                   category={post.category}
+                  readingTime={post.readingTime}
+                  commentCount={post.commentCount}
                   variant="horizontal"
                   className="bg-white shadow-sm border border-gray-100 rounded-lg overflow-hidden hover:shadow-md transition-shadow"
                 />
@@ -136,81 +199,7 @@ export default async function CategoryPage({ params, searchParams }: CategoryPag
             </div>
 
             {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="flex justify-center items-center space-x-2 mt-12">
-                {/* Previous Page */}
-                {prevPage ? (
-                  <Link
-                    href={`${basePath}?page=${prevPage}`}
-                    className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-gray-700"
-                  >
-                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-                    </svg>
-                    Previous
-                  </Link>
-                ) : (
-                  <span className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-300 bg-gray-100 border border-gray-200 rounded-lg cursor-not-allowed">
-                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-                    </svg>
-                    Previous
-                  </span>
-                )}
-
-                {/* Page Numbers */}
-                <div className="flex space-x-1">
-                  {Array.from({ length: Math.min(totalPages, 7) }, (_, i) => {
-                    let pageNumber;
-                    if (totalPages <= 7) {
-                      pageNumber = i + 1;
-                    } else if (currentPage <= 4) {
-                      pageNumber = i + 1;
-                    } else if (currentPage >= totalPages - 3) {
-                      pageNumber = totalPages - 6 + i;
-                    } else {
-                      pageNumber = currentPage - 3 + i;
-                    }
-
-                    const isCurrentPage = pageNumber === currentPage;
-
-                    return (
-                      <Link
-                        key={pageNumber}
-                        href={`${basePath}?page=${pageNumber}`}
-                        className={`inline-flex items-center px-3 py-2 text-sm font-medium border rounded-lg ${
-                          isCurrentPage
-                            ? 'text-white bg-red-600 border-red-600'
-                            : 'text-gray-500 bg-white border-gray-300 hover:bg-gray-50 hover:text-gray-700'
-                        }`}
-                      >
-                        {pageNumber}
-                      </Link>
-                    );
-                  })}
-                </div>
-
-                {/* Next Page */}
-                {nextPage ? (
-                  <Link
-                    href={`${basePath}?page=${nextPage}`}
-                    className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-gray-700"
-                  >
-                    Next
-                    <svg className="w-4 h-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                    </svg>
-                  </Link>
-                ) : (
-                  <span className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-300 bg-gray-100 border border-gray-200 rounded-lg cursor-not-allowed">
-                    Next
-                    <svg className="w-4 h-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                    </svg>
-                  </span>
-                )}
-              </div>
-            )}
+            <Pagination currentPage={currentPage} totalPages={totalPages} basePath={basePath} />
 
             {/* Page Info */}
             <div className="text-center mt-6">
@@ -0,0 +1,41 @@
+import { Metadata } from 'next';
+import CommentModeration, { MODERATION_STATUSES } from '@/components/dashboard/CommentModeration';
+
+export const metadata: Metadata = {
+  title: 'Comments | Tailnews React',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+interface DashboardCommentsPageProps {
+  searchParams: Promise<{
+    status?: string;
+    post?: string;
+    page?: string;
+  }>;
+}
+
+export default async function DashboardCommentsPage({ searchParams }: DashboardCommentsPageProps) {
+  const resolvedSearchParams = await searchParams;
+  const status = MODERATION_STATUSES.find(item => item.value === resolvedSearchParams.status)?.value || 'hold';
+  const postId = parseInt(resolvedSearchParams.post || '', 10) || undefined;
+  const currentPage = Math.max(1, parseInt(resolvedSearchParams.page || '1', 10) || 1);
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">Comments</h1>
+
+        {/* Keyed so selection and open replies reset when the view changes */}
+        <CommentModeration
+          key={`${status}-${postId || ''}-${currentPage}`}
+          status={status}
+          postId={postId}
+          page={currentPage}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+import { ReactNode } from 'react';
+import RequireCapability from '@/components/auth/RequireCapability';
+
+// The middleware guards each request; this also applies the route rules when the session ends or changes on an open page
+export default function DashboardLayout({ children }: { children: ReactNode }) {
+  return <RequireCapability>{children}</RequireCapability>;
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { errorCodeFromDigest, isUnavailableCode } from '@/lib/wordpress-errors';
+
+interface ErrorPageProps {
+  error: Error & { digest?: string };
+  reset: () => void;
+}
+
+export default function ErrorPage({ error, reset }: ErrorPageProps) {
+  useEffect(() => {
+    console.error('Page error:', error);
+  }, [error]);
+
+  // Only the digest survives for errors thrown while rendering on the server
+  const isUnavailable = isUnavailableCode(errorCodeFromDigest(error.digest));
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12">
+      <div className="text-center">
+        <div className="max-w-md mx-auto">
+          <svg className="mx-auto w-16 h-16 text-red-600 mb-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+          </svg>
+
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-4">
+            {isUnavailable ? 'Content Temporarily Unavailable' : 'Something Went Wrong'}
+          </h1>
+          <p className="text-gray-600 mb-8">
+            {isUnavailable
+              ? 'We could not reach our content server. Please try again in a moment.'
+              : 'An unexpected error occurred while loading this page.'}
+          </p>
+
+          <div className="space-y-4 sm:space-y-0 sm:space-x-4 sm:flex sm:justify-center">
+            <button
+              onClick={reset}
+              className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
+            >
+              Try Again
+            </button>
+
+            <Link
+              href="/"
+              className="inline-flex items-center px-6 py-3 border border-gray-300 text-base font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
+            >
+              Go Home
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
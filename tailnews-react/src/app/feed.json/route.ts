@@ -0,0 +1,6 @@
+import { feedResponse } from '@/lib/feeds';
+import { serverFeedsAPI } from '@/lib/server-api';
+
+export async function GET() {
+  return feedResponse('json', await serverFeedsAPI.getFeed({ type: 'site' }));
+}
@@ -0,0 +1,15 @@
+import { Metadata } from 'next';
+import Forbidden from '@/components/auth/Forbidden';
+
+// Rendered in place of protected routes by the middleware guard, with a 403 status
+export const metadata: Metadata = {
+  title: '403 - Access Denied | Tailnews React',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function ForbiddenPage() {
+  return <Forbidden />;
+}
@@ -2,11 +2,15 @@ import type { Metadata } from "next";
 import "./globals.css";
 import Layout from "@/components/layout/Layout";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { getFeedAlternates } from "@/lib/feeds";
 
 export const metadata: Metadata = {
   title: "Tailnews React - WordPress News App",
   description: "Modern React news application with WordPress backend",
   manifest: "/manifest.json",
+  alternates: {
+    types: getFeedAlternates(),
+  },
 };
 
 export default function RootLayout({
@@ -1,5 +1,7 @@
 import { Metadata } from 'next';
+import Link from 'next/link';
 import LoginForm from '@/components/auth/LoginForm';
+import { getSafeRedirect } from '@/lib/authorization';
 
 export const metadata: Metadata = {
   title: 'Sign In | Tailnews React',
@@ -10,7 +12,16 @@ export const metadata: Metadata = {
   },
 };
 
-export default function LoginPage() {
+interface LoginPageProps {
+  searchParams: Promise<{
+    redirectTo?: string;
+  }>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const resolvedSearchParams = await searchParams;
+  const redirectTo = getSafeRedirect(resolvedSearchParams.redirectTo);
+
   return (
     <div className="min-h-screen bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md mx-auto">
@@ -21,18 +32,18 @@ export default function LoginPage() {
           </p>
         </div>
         
-        <LoginForm />
+        <LoginForm redirectTo={redirectTo} />
         
         <div className="mt-8 text-center">
           <p className="text-xs text-gray-500">
             By signing in, you agree to our{' '}
-            <a href="/terms" className="text-red-600 hover:text-red-700">
+            <Link href="/terms" className="text-red-600 hover:text-red-700">
               Terms of Service
-            </a>{' '}
+            </Link>{' '}
             and{' '}
-            <a href="/privacy" className="text-red-600 hover:text-red-700">
+            <Link href="/privacy" className="text-red-600 hover:text-red-700">
               Privacy Policy
-            </a>
+            </Link>
           </p>
         </div>
       </div>
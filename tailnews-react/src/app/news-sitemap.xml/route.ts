@@ -0,0 +1,20 @@
+import { CACHE_TAGS } from '@/lib/cache-tags';
+import { serverPostsAPI } from '@/lib/server-api';
+import { SITE_URL } from '@/lib/site';
+import { buildNewsSitemap } from '@/lib/sitemap';
+
+// Google News sitemap of articles published in the last 48 hours
+export async function GET() {
+  const posts = await serverPostsAPI.getNewsSitemapEntries([CACHE_TAGS.sitemap]);
+  const xml = buildNewsSitemap(posts.map(post => ({
+    url: `${SITE_URL}/posts/${post.slug}`,
+    title: post.title,
+    published: post.published,
+  })));
+
+  return new Response(xml, {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+    },
+  });
+}
@@ -3,6 +3,8 @@ import { Metadata } from 'next';
 import HeroSection from '@/components/sections/HeroSection';
 import CategorySection from '@/components/sections/CategorySection';
 import ImageSlider from '@/components/ui/ImageSlider';
+import JsonLd from '@/components/ui/JsonLd';
+import { websiteSchema } from '@/lib/structured-data';
 
 // Generate metadata for SEO
 export const metadata: Metadata = {
@@ -29,7 +31,7 @@ export const metadata: Metadata = {
 
 export default async function Home() {
   // Fetch data at build time for SSR
-  const { featuredPosts, recentPosts, categories } = await getHomepageData();
+  const { featuredPosts, recentPosts, categories, tags, archiveMonths } = await getHomepageData();
 
   // Check if we have WordPress data
   const hasFeaturedPosts = featuredPosts.length > 0;
@@ -37,6 +39,8 @@ export default async function Home() {
 
   return (
     <div className="min-h-screen">
+      <JsonLd data={websiteSchema()} />
+
       {/* Hero Section with Featured Articles */}
       {hasFeaturedPosts ? (
         <HeroSection 
@@ -94,14 +98,9 @@ export default async function Home() {
         <CategorySection
           categoryName="Latest News"
           categorySlug="latest"
-          articles={recentPosts.slice(0, 6).map(article => ({
-            id: article.id,
-            title: article.title,
-            excerpt: article.excerpt,
-            slug: article.slug,
-            featuredImage: article.featuredImage,
-            category: article.category,
-          }))}
+          articles={recentPosts.slice(0, 6)}
+          tags={tags}
+          archiveMonths={archiveMonths}
           className="py-6"
         />
       )}
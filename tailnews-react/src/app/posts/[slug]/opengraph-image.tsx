@@ -0,0 +1,43 @@
+import { serverPostsAPI } from '@/lib/server-api';
+import { getCategoryColor, getOgImageVersion, loadOgImage, OG_IMAGE_CONTENT_TYPE, OG_IMAGE_SIZE, renderOgImage } from '@/lib/og-image';
+import { decodeHtmlEntities } from '@/lib/xml';
+
+interface OgImageProps {
+  params: { slug: string };
+  id: string;
+}
+
+// One image per post, its id changes with the post's modified time so social caches pick up edits
+export async function generateImageMetadata({ params }: Pick<OgImageProps, 'params'>) {
+  const post = await serverPostsAPI.getPostBySlug(params.slug);
+
+  return [
+    {
+      id: getOgImageVersion(post?.modified),
+      alt: post ? decodeHtmlEntities(post.title) : 'Post not found',
+      size: OG_IMAGE_SIZE,
+      contentType: OG_IMAGE_CONTENT_TYPE,
+    },
+  ];
+}
+
+export default async function Image({ params }: OgImageProps) {
+  const post = await serverPostsAPI.getPostBySlug(params.slug);
+
+  if (!post) {
+    return renderOgImage({ title: 'Post not found' });
+  }
+
+  const [background, avatar] = await Promise.all([
+    loadOgImage(post.featuredImage?.url),
+    loadOgImage(post.author?.avatar),
+  ]);
+
+  return renderOgImage({
+    title: decodeHtmlEntities(post.title),
+    eyebrow: post.category ? decodeHtmlEntities(post.category.name) : undefined,
+    color: getCategoryColor(post.category?.slug),
+    background,
+    author: post.author ? { name: post.author.name, avatar } : undefined,
+  });
+}
@@ -1,15 +1,64 @@
 import { Metadata } from 'next';
+import { Suspense } from 'react';
 import { notFound } from 'next/navigation';
-import { serverPostsAPI, getAllPostSlugs } from '@/lib/server-api';
+import { cookies, draftMode } from 'next/headers';
+import { serverPostsAPI, serverRedirectsAPI, getAllPostSlugs } from '@/lib/server-api';
+import { followRedirect } from '@/lib/redirects';
+import { seoMetadata } from '@/lib/seo';
 import { wpUtils } from '@/lib/wordpress-api';
+import { getPreviewPost, PreviewPost, PREVIEW_TOKEN_COOKIE } from '@/lib/preview';
+import { Article } from '@/types/api';
 import Image from 'next/image';
 import Link from 'next/link';
 import SaveOfflineButton from '@/components/ui/SaveOfflineButton';
+import PreviewBanner from '@/components/ui/PreviewBanner';
+import JsonLd from '@/components/ui/JsonLd';
+import { breadcrumbSchema, newsArticleSchema } from '@/lib/structured-data';
+import PreviewGate from '@/components/ui/PreviewGate';
+import BlockRenderer from '@/components/blocks/BlockRenderer';
+import TableOfContents from '@/components/articles/TableOfContents';
+import ReadingProgress from '@/components/ui/ReadingProgress';
+import CommentsSection from '@/components/comments/CommentsSection';
+
+const CONTENT_CLASS_NAME = `prose prose-lg prose-red max-w-none
+  prose-headings:text-gray-900 prose-headings:font-bold prose-headings:scroll-mt-24
+  prose-p:text-gray-700 prose-p:leading-relaxed prose-p:text-lg
+  prose-a:text-red-600 prose-a:no-underline hover:prose-a:underline
+  prose-strong:text-gray-900 prose-strong:font-semibold
+  prose-ul:text-gray-700 prose-ol:text-gray-700
+  prose-li:text-gray-700 prose-li:leading-relaxed
+  prose-blockquote:border-l-red-600 prose-blockquote:text-gray-600
+  prose-code:text-red-600 prose-code:bg-gray-100 prose-code:px-1 prose-code:rounded
+  prose-pre:bg-gray-900 prose-pre:text-gray-100`;
 
 interface PostPageProps {
   params: Promise<{
     slug: string;
   }>;
+  searchParams: Promise<{
+    preview?: string;
+    id?: string;
+  }>;
+}
+
+// Resolve the post for this request; unpublished content is only read in draft mode,
+// so regular visits stay statically generated
+async function loadPost({ params, searchParams }: PostPageProps): Promise<{ post: Article | null; preview: PreviewPost | null }> {
+  const resolvedParams = await params;
+  const { isEnabled } = await draftMode();
+
+  if (isEnabled) {
+    const resolvedSearchParams = await searchParams;
+    const token = (await cookies()).get(PREVIEW_TOKEN_COOKIE)?.value;
+    const id = parseInt(resolvedSearchParams.id || '', 10);
+
+    if (token && id > 0) {
+      const preview = await getPreviewPost(id, token);
+      return { post: preview?.post || null, preview };
+    }
+  }
+
+  return { post: await serverPostsAPI.getPostBySlug(resolvedParams.slug), preview: null };
 }
 
 // Generate static params for known posts
@@ -24,9 +73,8 @@ export async function generateStaticParams() {
 }
 
 // Generate metadata for SEO
-export async function generateMetadata({ params }: PostPageProps): Promise<Metadata> {
-  const resolvedParams = await params;
-  const post = await serverPostsAPI.getPostBySlug(resolvedParams.slug);
+export async function generateMetadata(props: PostPageProps): Promise<Metadata> {
+  const { post, preview } = await loadPost(props);
 
   if (!post) {
     return {
@@ -35,7 +83,17 @@ export async function generateMetadata({ params }: PostPageProps): Promise<Metad
     };
   }
 
-  return {
+  if (preview) {
+    return {
+      title: `[Preview] ${post.title} | Tailnews React`,
+      robots: {
+        index: false,
+        follow: false,
+      },
+    };
+  }
+
+  return seoMetadata(post.seo, {
     title: `${post.title} | Tailnews React`,
     description: post.excerpt || wpUtils.createExcerpt(post.content || '', 160),
     keywords: post.tags?.map(tag => tag.name) || [],
@@ -44,32 +102,29 @@ export async function generateMetadata({ params }: PostPageProps): Promise<Metad
       title: post.title,
       description: post.excerpt || wpUtils.createExcerpt(post.content || '', 160),
       type: 'article',
-      publishedTime: post.date,
+      publishedTime: post.published || post.date,
+      modifiedTime: post.modified,
       authors: post.author ? [post.author.name] : [],
-      images: post.featuredImage ? [
-        {
-          url: post.featuredImage.url,
-          width: 1200,
-          height: 630,
-          alt: post.featuredImage.alt,
-        }
-      ] : [],
+      // Images come from opengraph-image.tsx
     },
     twitter: {
       card: 'summary_large_image',
       title: post.title,
       description: post.excerpt || wpUtils.createExcerpt(post.content || '', 160),
-      images: post.featuredImage ? [post.featuredImage.url] : [],
     },
     alternates: {
       canonical: `/posts/${post.slug}`,
     },
-  };
+  });
 }
 
-export default async function PostPage({ params }: PostPageProps) {
-  const resolvedParams = await params;
-  const post = await serverPostsAPI.getPostBySlug(resolvedParams.slug);
+export default async function PostPage(props: PostPageProps) {
+  const { post, preview } = await loadPost(props);
+
+  // Editor redirects apply to published URLs, previews always render
+  if (!preview) {
+    followRedirect(await serverRedirectsAPI.findRedirect(`/posts/${(await props.params).slug}`));
+  }
 
   if (!post) {
     notFound();
@@ -82,8 +137,29 @@ export default async function PostPage({ params }: PostPageProps) {
     day: 'numeric',
   });
 
+  // Mirrors the breadcrumb navigation below
+  const breadcrumbs = [
+    { name: 'Home', path: '/' },
+    ...(post.category ? [{ name: post.category.name, path: `/category/${post.category.slug}` }] : []),
+    { name: post.title },
+  ];
+
   return (
     <div className="min-h-screen bg-white">
+      {/* Preview Mode, drafts get no structured data */}
+      {preview ? (
+        <PreviewBanner status={preview.status} isAutosave={preview.isAutosave} />
+      ) : (
+        <>
+          <JsonLd data={[newsArticleSchema(post), breadcrumbSchema(breadcrumbs)]} />
+          <Suspense fallback={null}>
+            <PreviewGate />
+          </Suspense>
+        </>
+      )}
+
+      <ReadingProgress targetId="article-content" />
+
       {/* Breadcrumb Navigation */}
       <div className="bg-gray-50 border-b">
         <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-3">
@@ -165,10 +241,30 @@ export default async function PostPage({ params }: PostPageProps) {
                   </svg>
                   {formattedDate}
                 </time>
+
+                {/* Reading Time */}
+                {post.readingTime && (
+                  <span className="flex items-center">
+                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    {post.readingTime} min read
+                  </span>
+                )}
+
+                {/* Comment Count */}
+                {!preview && post.commentCount !== undefined && (
+                  <a href="#comments" className="flex items-center hover:text-red-600">
+                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                    </svg>
+                    {post.commentCount} comment{post.commentCount === 1 ? '' : 's'}
+                  </a>
+                )}
               </div>
               
-              {/* Save Offline Button */}
-              <SaveOfflineButton article={post} />
+              {/* Save Offline Button, drafts are never stored offline */}
+              {!preview && <SaveOfflineButton article={post} />}
             </div>
 
             {/* Featured Image */}
@@ -186,21 +282,24 @@ export default async function PostPage({ params }: PostPageProps) {
             )}
           </header>
 
-          {/* Article Content */}
-          <div className="prose prose-lg max-w-none">
-            <div 
-              dangerouslySetInnerHTML={{ __html: post.content || '' }}
-              className="prose prose-lg prose-red max-w-none
-                prose-headings:text-gray-900 prose-headings:font-bold
-                prose-p:text-gray-700 prose-p:leading-relaxed prose-p:text-lg
-                prose-a:text-red-600 prose-a:no-underline hover:prose-a:underline
-                prose-strong:text-gray-900 prose-strong:font-semibold
-                prose-ul:text-gray-700 prose-ol:text-gray-700
-                prose-li:text-gray-700 prose-li:leading-relaxed
-                prose-blockquote:border-l-red-600 prose-blockquote:text-gray-600
-                prose-code:text-red-600 prose-code:bg-gray-100 prose-code:px-1 prose-code:rounded
-                prose-pre:bg-gray-900 prose-pre:text-gray-100"
-            />
+          <div className="lg:flex lg:gap-10">
+            {/* Table of Contents, beside the content on large screens */}
+            {post.headings && post.headings.length > 0 && (
+              <aside className="mb-8 lg:mb-0 lg:order-last lg:w-56 lg:flex-none">
+                <TableOfContents headings={post.headings} />
+              </aside>
+            )}
+
+            {/* Article Content */}
+            <div id="article-content" className="prose prose-lg max-w-none min-w-0 lg:flex-1">
+              {post.blocks && post.blocks.length > 0 ? (
+                <div className={CONTENT_CLASS_NAME}>
+                  <BlockRenderer blocks={post.blocks} />
+                </div>
+              ) : (
+                <div dangerouslySetInnerHTML={{ __html: post.content || '' }} className={CONTENT_CLASS_NAME} />
+              )}
+            </div>
           </div>
 
           {/* Tags */}
@@ -247,6 +346,11 @@ export default async function PostPage({ params }: PostPageProps) {
               </div>
             </div>
           )}
+
+          {/* Comments, not shown on drafts */}
+          {!preview && (
+            <CommentsSection postId={post.id} commentsOpen={Boolean(post.commentsOpen)} commentCount={post.commentCount} />
+          )}
         </div>
       </article>
     </div>
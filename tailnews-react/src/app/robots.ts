@@ -1,7 +1,8 @@
 import { MetadataRoute } from 'next';
+import { SITE_URL } from '@/lib/site';
 
 export default function robots(): MetadataRoute.Robots {
-  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://your-site.com';
+  const baseUrl = SITE_URL;
 
   return {
     rules: [
@@ -35,7 +36,10 @@ export default function robots(): MetadataRoute.Robots {
         disallow: '/',
       },
     ],
-    sitemap: `${baseUrl}/sitemap.xml`,
+    sitemap: [
+      `${baseUrl}/sitemap_index.xml`,
+      `${baseUrl}/news-sitemap.xml`,
+    ],
     host: baseUrl,
   };
 }
\ No newline at end of file
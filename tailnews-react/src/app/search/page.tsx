@@ -118,6 +118,8 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
                       slug={post.slug}
                       featuredImage={post.featuredImage}
                       category={post.category}
+                      readingTime={post.readingTime}
+                      commentCount={post.commentCount}
                       variant="horizontal"
                       className="bg-white shadow-sm border border-gray-100 rounded-lg overflow-hidden hover:shadow-md transition-shadow"
                     />
@@ -1,8 +1,36 @@
 import { MetadataRoute } from 'next';
-import { serverPostsAPI, serverCategoriesAPI } from '@/lib/server-api';
+import { getArchivePath, groupArchiveByYear } from '@/lib/archive';
+import { CACHE_TAGS } from '@/lib/cache-tags';
+import { SITE_URL } from '@/lib/site';
+import { getPostSitemapRange, getSitemapIds } from '@/lib/sitemap';
+import { serverPostsAPI, serverArchiveAPI, getAllPagePaths, getAllAuthorSlugs, getAllCategorySlugs, getAllTagSlugs } from '@/lib/server-api';
 
-export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
-  const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://your-site.com';
+// Split into sitemap 0 for site structure and one sitemap per 5,000 posts, listed by /sitemap_index.xml
+export async function generateSitemaps() {
+  const totalPosts = await serverPostsAPI.getPostCount([CACHE_TAGS.sitemap]);
+  return getSitemapIds(totalPosts);
+}
+
+// Post sitemaps throw on failure so crawlers never see a partial list
+async function postsSitemap(id: number): Promise<MetadataRoute.Sitemap> {
+  const posts = await serverPostsAPI.getPostSitemapEntries(getPostSitemapRange(id), [CACHE_TAGS.sitemap]);
+
+  return posts.map((post) => ({
+    url: `${SITE_URL}/posts/${post.slug}`,
+    lastModified: new Date(post.modified),
+    changeFrequency: 'weekly',
+    priority: 0.8,
+    images: post.image ? [post.image] : undefined,
+  }));
+}
+
+export default async function sitemap({ id }: { id: number }): Promise<MetadataRoute.Sitemap> {
+  const sitemapId = Number(id);
+  if (sitemapId > 0) {
+    return postsSitemap(sitemapId);
+  }
+
+  const baseUrl = SITE_URL;
   
   const sitemap: MetadataRoute.Sitemap = [
     // Static pages
@@ -21,30 +49,75 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   ];
 
   try {
-    // Get recent posts for sitemap
-    const postsResult = await serverPostsAPI.getPosts({ per_page: 100 });
-    const posts = postsResult.posts;
-
-    // Add post URLs
-    posts.forEach((post) => {
+    // Add category URLs
+    const categorySlugs = await getAllCategorySlugs();
+    categorySlugs.forEach((slug) => {
       sitemap.push({
-        url: `${baseUrl}/posts/${post.slug}`,
-        lastModified: new Date(post.date),
+        url: `${baseUrl}/category/${slug}`,
+        lastModified: new Date(),
         changeFrequency: 'weekly',
-        priority: 0.8,
+        priority: 0.6,
       });
     });
 
-    // Get categories for sitemap
-    const categories = await serverCategoriesAPI.getCategories({ per_page: 100 });
+    // Add the category index
+    sitemap.push({
+      url: `${baseUrl}/categories`,
+      lastModified: new Date(),
+      changeFrequency: 'weekly',
+      priority: 0.5,
+    });
 
-    // Add category URLs
-    categories.forEach((category) => {
+    // Add tag URLs
+    const tagSlugs = await getAllTagSlugs();
+    tagSlugs.forEach((slug) => {
       sitemap.push({
-        url: `${baseUrl}/category/${category.slug}`,
+        url: `${baseUrl}/tag/${slug}`,
         lastModified: new Date(),
         changeFrequency: 'weekly',
-        priority: 0.6,
+        priority: 0.4,
+      });
+    });
+
+    // Add author URLs
+    const authorSlugs = await getAllAuthorSlugs();
+    authorSlugs.forEach((slug) => {
+      sitemap.push({
+        url: `${baseUrl}/author/${slug}`,
+        lastModified: new Date(),
+        changeFrequency: 'weekly',
+        priority: 0.5,
+      });
+    });
+
+    // Add yearly and monthly archive URLs (up to ten years back)
+    const archiveMonths = await serverArchiveAPI.getArchiveMonths(120, [CACHE_TAGS.sitemap]);
+    groupArchiveByYear(archiveMonths).forEach(({ year, months }) => {
+      sitemap.push({
+        url: `${baseUrl}${getArchivePath(year)}`,
+        lastModified: new Date(),
+        changeFrequency: 'monthly',
+        priority: 0.3,
+      });
+
+      months.forEach(({ month }) => {
+        sitemap.push({
+          url: `${baseUrl}${getArchivePath(year, month)}`,
+          lastModified: new Date(),
+          changeFrequency: 'monthly',
+          priority: 0.3,
+        });
+      });
+    });
+
+    // Add WordPress page URLs
+    const pagePaths = await getAllPagePaths();
+    pagePaths.forEach((path) => {
+      sitemap.push({
+        url: `${baseUrl}/${path.join('/')}`,
+        lastModified: new Date(),
+        changeFrequency: 'monthly',
+        priority: 0.4,
       });
     });
   } catch (error) {
@@ -0,0 +1,15 @@
+import { CACHE_TAGS } from '@/lib/cache-tags';
+import { serverPostsAPI } from '@/lib/server-api';
+import { buildSitemapIndex, getSitemapIds, getSitemapUrl } from '@/lib/sitemap';
+
+// Index of the sitemaps split by app/sitemap.ts
+export async function GET() {
+  const totalPosts = await serverPostsAPI.getPostCount([CACHE_TAGS.sitemap]);
+  const xml = buildSitemapIndex(getSitemapIds(totalPosts).map(({ id }) => ({ url: getSitemapUrl(id) })));
+
+  return new Response(xml, {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+    },
+  });
+}
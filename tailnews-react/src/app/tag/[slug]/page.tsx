@@ -0,0 +1,180 @@
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { serverPostsAPI, serverTagsAPI, serverRedirectsAPI, getAllTagSlugs } from '@/lib/server-api';
+import { followRedirect } from '@/lib/redirects';
+import { seoMetadata } from '@/lib/seo';
+import { getFeedAlternates } from '@/lib/feeds';
+import ArticleCard from '@/components/articles/ArticleCard';
+import Pagination from '@/components/ui/Pagination';
+import Link from 'next/link';
+
+interface TagPageProps {
+  params: Promise<{
+    slug: string;
+  }>;
+  searchParams: Promise<{
+    page?: string;
+  }>;
+}
+
+// Generate static params for known tags
+export async function generateStaticParams() {
+  try {
+    const slugs = await getAllTagSlugs();
+    return slugs.map((slug) => ({ slug }));
+  } catch (error) {
+    console.error('Error generating static params:', error);
+    return [];
+  }
+}
+
+// Generate metadata for SEO
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const resolvedParams = await params;
+  const tag = await serverTagsAPI.getTagBySlug(resolvedParams.slug);
+
+  if (!tag) {
+    return {
+      title: 'Tag Not Found',
+      description: 'The requested tag could not be found.',
+    };
+  }
+
+  return seoMetadata(tag.seo, {
+    title: `#${tag.name} Articles | Tailnews React`,
+    description: tag.description || `Browse all articles tagged ${tag.name}.`,
+    openGraph: {
+      title: `#${tag.name} Articles`,
+      description: tag.description || `Browse all articles tagged ${tag.name}.`,
+      type: 'website',
+    },
+    twitter: {
+      card: 'summary',
+      title: `#${tag.name} Articles`,
+      description: tag.description || `Browse all articles tagged ${tag.name}.`,
+    },
+    alternates: {
+      canonical: `/tag/${tag.slug}`,
+      types: getFeedAlternates(`/tag/${tag.slug}`, tag.name),
+    },
+  });
+}
+
+export default async function TagPage({ params, searchParams }: TagPageProps) {
+  const resolvedParams = await params;
+  const resolvedSearchParams = await searchParams;
+  const currentPage = parseInt(resolvedSearchParams.page || '1', 10);
+  const postsPerPage = 12;
+
+  followRedirect(await serverRedirectsAPI.findRedirect(`/tag/${resolvedParams.slug}`));
+
+  // Fetch tag and posts data
+  const { posts, tag, totalPages } = await serverPostsAPI.getPostsByTag(
+    resolvedParams.slug,
+    {
+      page: currentPage,
+      per_page: postsPerPage,
+    }
+  );
+
+  if (!tag) {
+    notFound();
+  }
+
+  // Generate pagination URLs
+  const basePath = `/tag/${resolvedParams.slug}`;
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Breadcrumb Navigation */}
+      <div className="bg-gray-50 border-b">
+        <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-3">
+          <nav className="flex text-sm text-gray-600">
+            <Link href="/" className="hover:text-red-600">
+              Home
+            </Link>
+            <span className="mx-2">/</span>
+            <span className="text-gray-800">Tags</span>
+            <span className="mx-2">/</span>
+            <span className="text-gray-800">#{tag.name}</span>
+          </nav>
+        </div>
+      </div>
+
+      {/* Tag Header */}
+      <div className="bg-white border-b">
+        <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-8">
+          <div className="text-center">
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">
+              <span className="inline-block h-5 border-l-3 border-red-600 mr-3"></span>
+              #{tag.name}
+            </h1>
+            {tag.description && (
+              <p className="text-lg text-gray-600 max-w-2xl mx-auto">
+                {tag.description}
+              </p>
+            )}
+            <div className="mt-4 text-sm text-gray-500">
+              {tag.count} {tag.count === 1 ? 'article' : 'articles'} with this tag
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Posts Grid */}
+      <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-8">
+        {posts.length > 0 ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {posts.map((post) => (
+                <ArticleCard
+                  key={post.id}
+                  title={post.title}
+                  excerpt={post.excerpt}
+                  slug={post.slug}
+                  featuredImage={post.featuredImage}
+                  category={post.category}
+                  readingTime={post.readingTime}
+                  commentCount={post.commentCount}
+                  variant="horizontal"
+                  className="bg-white shadow-sm border border-gray-100 rounded-lg overflow-hidden hover:shadow-md transition-shadow"
+                />
+              ))}
+            </div>
+
+            {/* Pagination */}
+            <Pagination currentPage={currentPage} totalPages={totalPages} basePath={basePath} />
+
+            {/* Page Info */}
+            <div className="text-center mt-6">
+              <p className="text-sm text-gray-500">
+                Showing page {currentPage} of {totalPages} ({posts.length} of {tag.count} articles)
+              </p>
+            </div>
+          </>
+        ) : (
+          /* No Posts Message */
+          <div className="text-center py-16">
+            <div className="max-w-md mx-auto">
+              <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z" />
+              </svg>
+              <h3 className="mt-4 text-lg font-medium text-gray-900">No articles found</h3>
+              <p className="mt-2 text-gray-500">
+                There are no articles tagged {tag.name} yet.
+              </p>
+              <div className="mt-6">
+                <Link
+                  href="/"
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700"
+                >
+                  Back to Home
+                </Link>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
@@ -14,6 +14,8 @@ interface ArticleCardProps {
     slug: string;
   };
   date?: string;
+  readingTime?: number; // Minutes
+  commentCount?: number;
   variant?: 'default' | 'horizontal' | 'card' | 'hero';
   className?: string;
 }
@@ -25,6 +27,8 @@ const ArticleCard = ({
   featuredImage,
   category,
   date,
+  readingTime,
+  commentCount,
   variant = 'default',
   className = '',
 }: ArticleCardProps) => {
@@ -39,6 +43,20 @@ const ArticleCard = ({
     )
   );
 
+  const ReadingTime = () => (
+    readingTime ? (
+      <span className="text-gray-500">{readingTime} min read</span>
+    ) : null
+  );
+
+  const CommentCount = () => (
+    commentCount ? (
+      <Link href={`${baseUrl}/${slug}#comments`} className="text-gray-500 hover:text-red-600">
+        {commentCount} comment{commentCount === 1 ? '' : 's'}
+      </Link>
+    ) : null
+  );
+
   // Hero variant - large featured article
   if (variant === 'hero') {
     return (
@@ -138,7 +156,11 @@ const ArticleCard = ({
               {excerpt}
             </p>
           )}
-          <CategoryIndicator />
+          <div className="flex flex-wrap items-center gap-x-3">
+            <CategoryIndicator />
+            <ReadingTime />
+            <CommentCount />
+          </div>
         </div>
       </div>
     );
@@ -173,7 +195,11 @@ const ArticleCard = ({
             {excerpt}
           </p>
         )}
-        <CategoryIndicator />
+        <div className="flex flex-wrap items-center gap-x-3">
+          <CategoryIndicator />
+          <ReadingTime />
+          <CommentCount />
+        </div>
       </div>
     </article>
   );
@@ -0,0 +1,69 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ContentHeading } from '@/types/api';
+
+interface TableOfContentsProps {
+  headings: ContentHeading[];
+  className?: string;
+}
+
+// Headings within this band of the viewport count as the current section
+const SCROLL_SPY_MARGIN = '0px 0px -70% 0px';
+
+const TableOfContents = ({ headings, className = '' }: TableOfContentsProps) => {
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  // Scroll-spy: highlight the last heading that scrolled into the top of the viewport
+  useEffect(() => {
+    const elements = headings
+      .map(heading => document.getElementById(heading.id))
+      .filter((element): element is HTMLElement => element !== null);
+    if (elements.length === 0) return;
+
+    const observer = new IntersectionObserver(entries => {
+      const visible = entries.filter(entry => entry.isIntersecting);
+      if (visible.length > 0) {
+        setActiveId(visible[visible.length - 1].target.id);
+      }
+    }, { rootMargin: SCROLL_SPY_MARGIN });
+
+    elements.forEach(element => observer.observe(element));
+    return () => observer.disconnect();
+  }, [headings]);
+
+  if (headings.length < 2) {
+    return null;
+  }
+
+  return (
+    <nav aria-label="Table of contents" className={`lg:sticky lg:top-24 ${className}`}>
+      <h2 className="text-sm font-bold uppercase tracking-wide text-gray-900 mb-3">
+        <span className="inline-block h-3 border-l-2 border-red-600 mr-2"></span>
+        In this article
+      </h2>
+      <ol className="space-y-2 text-sm border-l border-gray-200">
+        {headings.map(heading => {
+          const active = heading.id === activeId;
+
+          return (
+            <li key={heading.id} className={heading.level === 3 ? 'pl-6' : 'pl-3'}>
+              <a
+                href={`#${heading.id}`}
+                aria-current={active ? 'location' : undefined}
+                className={`block leading-snug ${
+                  active ? 'text-red-600 font-medium' : 'text-gray-600 hover:text-red-600'
+                }`}
+                onClick={() => setActiveId(heading.id)}
+              >
+                {heading.text}
+              </a>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+};
+
+export default TableOfContents;
@@ -143,4 +143,12 @@ describe('ArticleCard', () => {
     const titleLink = screen.getByRole('link', { name: /Test Article/ });
     expect(titleLink).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('shows the reading time when known', () => {
+    const { rerender } = render(<ArticleCard {...mockArticle} readingTime={4} />);
+    expect(screen.getByText('4 min read')).toBeInTheDocument();
+
+    rerender(<ArticleCard {...mockArticle} />);
+    expect(screen.queryByText(/min read/)).not.toBeInTheDocument();
+  });
+});
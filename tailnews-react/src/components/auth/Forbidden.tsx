@@ -0,0 +1,30 @@
+import Link from 'next/link';
+
+interface ForbiddenProps {
+  message?: string;
+}
+
+// 403 page body, shown by the route guard and by <RequireCapability>
+const Forbidden = ({ message = 'Your account does not have permission to view this page. If you think it should, ask a site administrator.' }: ForbiddenProps) => {
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12">
+      <div className="text-center max-w-md mx-auto px-4">
+        <div className="text-9xl font-bold text-gray-200 select-none mb-8">403</div>
+
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-4">
+          Access Denied
+        </h1>
+        <p className="text-gray-600 mb-8">{message}</p>
+
+        <Link
+          href="/"
+          className="inline-flex items-center px-6 py-3 border border-transparent text-base font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
+        >
+          Go Home
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -35,7 +35,7 @@ export default function LoginForm({ onSuccess, redirectTo }: LoginFormProps) {
       } else if (redirectTo) {
         window.location.href = redirectTo;
       } else {
-        window.location.href = '/dashboard';
+        window.location.href = '/';
       }
     } catch (err) {
       if (err instanceof AuthAPIError) {
@@ -0,0 +1,41 @@
+'use client';
+
+import { ReactNode, useEffect } from 'react';
+import { useAuthorization } from '@/contexts/AuthContext';
+import { getLoginHref } from '@/lib/authorization';
+import { Capability, UserRole } from '@/types/auth';
+import Forbidden from './Forbidden';
+
+interface RequireCapabilityProps {
+  // Without a capability or role the route rules for the current path apply
+  capability?: Capability;
+  role?: UserRole;
+  children: ReactNode;
+  forbidden?: ReactNode; // Shown instead of the 403 page
+}
+
+const RequireCapability = ({ capability, role, children, forbidden }: RequireCapabilityProps) => {
+  const { status } = useAuthorization(capability || role ? { capability, role } : undefined);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      window.location.href = getLoginHref(`${window.location.pathname}${window.location.search}`);
+    }
+  }, [status]);
+
+  if (status === 'allowed') {
+    return <>{children}</>;
+  }
+
+  if (status === 'forbidden') {
+    return <>{forbidden ?? <Forbidden />}</>;
+  }
+
+  return (
+    <div className="flex items-center justify-center min-h-[50vh]" role="status" aria-label="Checking access">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600"></div>
+    </div>
+  );
+};
+
+export default RequireCapability;
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { findRouteRule, getAccess } from '@/lib/authorization';
 import Link from 'next/link';
 import Image from 'next/image';
 
@@ -43,8 +44,14 @@ export default function UserMenu() {
     );
   }
 
-  const handleLogout = () => {
-    logout();
+  // Links to routes the user would be turned away from are left out
+  const canVisit = (href: string) => {
+    const rule = findRouteRule(href);
+    return !rule || getAccess(user, rule) === 'allowed';
+  };
+
+  const handleLogout = async () => {
+    await logout();
     setIsOpen(false);
     window.location.href = '/';
   };
@@ -112,18 +119,34 @@ export default function UserMenu() {
             </div>
 
             {/* Menu Items */}
-            <Link
-              href="/dashboard"
-              className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-              role="menuitem"
-              onClick={() => setIsOpen(false)}
-            >
-              <svg className="w-4 h-4 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2H5a2 2 0 00-2-2z" />
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5a2 2 0 012-2h4a2 2 0 012 2v6H8V5z" />
-              </svg>
-              Dashboard
-            </Link>
+            {canVisit('/dashboard') && (
+              <Link
+                href="/dashboard"
+                className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                role="menuitem"
+                onClick={() => setIsOpen(false)}
+              >
+                <svg className="w-4 h-4 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2H5a2 2 0 00-2-2z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5a2 2 0 012-2h4a2 2 0 012 2v6H8V5z" />
+                </svg>
+                Dashboard
+              </Link>
+            )}
+
+            {canVisit('/dashboard/comments') && (
+              <Link
+                href="/dashboard/comments"
+                className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                role="menuitem"
+                onClick={() => setIsOpen(false)}
+              >
+                <svg className="w-4 h-4 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                </svg>
+                Moderate Comments
+              </Link>
+            )}
 
             <Link
               href="/profile"
@@ -137,17 +160,19 @@ export default function UserMenu() {
               Profile Settings
             </Link>
 
-            <Link
-              href="/my-posts"
-              className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
-              role="menuitem"
-              onClick={() => setIsOpen(false)}
-            >
-              <svg className="w-4 h-4 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-              </svg>
-              My Articles
-            </Link>
+            {canVisit('/my-posts') && (
+              <Link
+                href="/my-posts"
+                className="flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                role="menuitem"
+                onClick={() => setIsOpen(false)}
+              >
+                <svg className="w-4 h-4 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+                My Articles
+              </Link>
+            )}
 
             <Link
               href="/bookmarks"
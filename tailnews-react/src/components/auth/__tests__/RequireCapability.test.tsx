@@ -0,0 +1,33 @@
+import { render, screen } from '@/test/utils/test-utils';
+import RequireCapability from '../RequireCapability';
+
+const mockFetch = global.fetch as jest.Mock;
+
+// Signed in by cookie, /api/auth/me answers with the user's capabilities
+const signIn = (capabilities: Record<string, boolean>) => {
+  const user = { id: 1, displayName: 'Jane Doe', roles: ['author'], capabilities };
+  mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve({ user, expiresIn: 3600 }) });
+};
+
+describe('RequireCapability', () => {
+  afterEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('shows the content to users with the capability', async () => {
+    signIn({ edit_posts: true, moderate_comments: true });
+    render(<RequireCapability capability="moderate_comments">Moderation queue</RequireCapability>);
+
+    expect(screen.getByRole('status', { name: 'Checking access' })).toBeInTheDocument();
+    expect(await screen.findByText('Moderation queue')).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith('/api/auth/me', expect.objectContaining({ credentials: 'same-origin' }));
+  });
+
+  it('renders a 403 page without it', async () => {
+    signIn({ edit_posts: true });
+    render(<RequireCapability capability="moderate_comments">Moderation queue</RequireCapability>);
+
+    expect(await screen.findByRole('heading', { name: 'Access Denied' })).toBeInTheDocument();
+    expect(screen.queryByText('Moderation queue')).not.toBeInTheDocument();
+  });
+});
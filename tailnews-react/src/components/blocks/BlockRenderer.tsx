@@ -0,0 +1,31 @@
+import { ContentBlock } from '@/types/api';
+import { BlockComponent, getBlockComponent } from './registry';
+import HtmlBlock from './HtmlBlock';
+
+interface BlockRendererProps {
+  blocks: ContentBlock[];
+  components?: Record<string, BlockComponent>; // Overrides for this render only
+}
+
+// Render Gutenberg blocks with their registered components, falling back to sanitised HTML
+export default function BlockRenderer({ blocks, components }: BlockRendererProps) {
+  return (
+    <>
+      {blocks.map((block, index) => {
+        const Component = components?.[block.name] || getBlockComponent(block.name);
+        const key = `${block.name}-${index}`;
+
+        // Unknown blocks render their full markup, inner blocks included
+        if (!Component) {
+          return <HtmlBlock key={key} block={block} />;
+        }
+
+        return (
+          <Component key={key} block={block}>
+            {block.innerBlocks.length > 0 && <BlockRenderer blocks={block.innerBlocks} components={components} />}
+          </Component>
+        );
+      })}
+    </>
+  );
+}
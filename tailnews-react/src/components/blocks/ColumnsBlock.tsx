@@ -0,0 +1,28 @@
+import type { BlockProps } from './registry';
+
+const VERTICAL_ALIGNMENT: Record<string, string> = {
+  top: 'md:items-start',
+  center: 'md:items-center',
+  bottom: 'md:items-end',
+};
+
+// Column widths come from the editor, only plain lengths are applied
+const COLUMN_WIDTH = /^\d+(\.\d+)?(%|px|em|rem|vw)$/;
+
+export default function ColumnsBlock({ block, children }: BlockProps) {
+  const alignment = VERTICAL_ALIGNMENT[String(block.attributes.verticalAlignment)] || '';
+
+  return <div className={`my-8 flex flex-col gap-6 md:flex-row ${alignment}`}>{children}</div>;
+}
+
+export function ColumnBlock({ block, children }: BlockProps) {
+  const width = typeof block.attributes.width === 'string' && COLUMN_WIDTH.test(block.attributes.width)
+    ? block.attributes.width
+    : undefined;
+
+  return (
+    <div className={`min-w-0 ${width ? 'md:flex-none' : 'md:flex-1'}`} style={width ? { flexBasis: width } : undefined}>
+      {children}
+    </div>
+  );
+}
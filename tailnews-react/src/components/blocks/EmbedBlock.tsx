@@ -0,0 +1,29 @@
+import { getEmbedSrc } from '@/lib/content';
+import type { BlockProps } from './registry';
+import HtmlBlock from './HtmlBlock';
+
+export default function EmbedBlock(props: BlockProps) {
+  const { block } = props;
+  const url = typeof block.attributes.url === 'string' ? block.attributes.url : '';
+  const src = getEmbedSrc(url);
+
+  // Providers we cannot frame keep the markup WordPress rendered (oEmbed output or a plain link)
+  if (!src) {
+    return <HtmlBlock {...props} />;
+  }
+
+  return (
+    <figure className="not-prose my-8">
+      <div className="relative aspect-video overflow-hidden rounded-lg bg-gray-900">
+        <iframe
+          src={src}
+          title={typeof block.attributes.providerNameSlug === 'string' ? `${block.attributes.providerNameSlug} embed` : 'Embedded media'}
+          className="absolute inset-0 w-full h-full"
+          loading="lazy"
+          allow="accelerometer; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+          allowFullScreen
+        />
+      </div>
+    </figure>
+  );
+}
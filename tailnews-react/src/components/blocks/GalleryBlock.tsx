@@ -0,0 +1,52 @@
+import Image from 'next/image';
+import type { BlockProps } from './registry';
+import HtmlBlock from './HtmlBlock';
+import { BlockImage, toBlockImage } from './ImageBlock';
+
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+  3: 'grid-cols-2 md:grid-cols-3',
+  4: 'grid-cols-2 md:grid-cols-4',
+};
+
+export default function GalleryBlock(props: BlockProps) {
+  const { block } = props;
+
+  // Image blocks since WordPress 5.9, a plain image list before
+  const sources = block.innerBlocks.length > 0
+    ? block.innerBlocks.filter(inner => inner.name === 'core/image').map(inner => inner.attributes)
+    : Array.isArray(block.attributes.images) ? block.attributes.images as Record<string, unknown>[] : [];
+  const images = sources.map(toBlockImage).filter((image): image is BlockImage => image !== null);
+
+  if (images.length === 0 || images.length !== sources.length) {
+    return <HtmlBlock {...props} />;
+  }
+
+  const columns = typeof block.attributes.columns === 'number' ? block.attributes.columns : 3;
+
+  return (
+    <figure className="not-prose my-8">
+      <ul className={`grid gap-2 ${GRID_COLUMNS[Math.min(Math.max(columns, 1), 4)]}`}>
+        {images.map((image, index) => (
+          <li key={`${image.url}-${index}`} className="relative">
+            <Image
+              src={image.url}
+              alt={image.alt}
+              width={image.width}
+              height={image.height}
+              sizes="(max-width: 768px) 50vw, 33vw"
+              className="w-full h-full object-cover rounded"
+            />
+            {image.caption && (
+              <figcaption
+                className="absolute inset-x-0 bottom-0 bg-black/60 text-white text-xs px-2 py-1 rounded-b"
+                dangerouslySetInnerHTML={{ __html: image.caption }}
+              />
+            )}
+          </li>
+        ))}
+      </ul>
+    </figure>
+  );
+}
@@ -0,0 +1,11 @@
+import type { BlockProps } from './registry';
+
+// Fallback for blocks without a component; the markup was sanitised when the post was transformed
+export default function HtmlBlock({ block }: BlockProps) {
+  return <div className={`wp-block ${blockClassName(block.name)}`} dangerouslySetInnerHTML={{ __html: block.html }} />;
+}
+
+// core/paragraph -> wp-block-paragraph, acme/callout -> wp-block-acme-callout
+export function blockClassName(name: string): string {
+  return `wp-block-${name.replace(/^core\//, '').replace(/\//g, '-')}`;
+}
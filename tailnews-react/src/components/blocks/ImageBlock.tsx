@@ -0,0 +1,59 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import { isWordPressUpload } from '@/lib/content';
+import type { BlockProps } from './registry';
+import HtmlBlock from './HtmlBlock';
+
+export interface BlockImage {
+  url: string;
+  alt: string;
+  width: number;
+  height: number;
+  caption?: string;
+}
+
+// Images next/image can serve: media library files with known dimensions
+export function toBlockImage(attributes: Record<string, unknown>): BlockImage | null {
+  const { url, alt, width, height, caption } = attributes;
+  if (typeof url !== 'string' || !isWordPressUpload(url) || typeof width !== 'number' || typeof height !== 'number') {
+    return null;
+  }
+
+  return {
+    url,
+    alt: typeof alt === 'string' ? alt : '',
+    width,
+    height,
+    caption: typeof caption === 'string' ? caption : undefined,
+  };
+}
+
+export default function ImageBlock(props: BlockProps) {
+  const { block } = props;
+  const image = toBlockImage(block.attributes);
+
+  if (!image) {
+    return <HtmlBlock {...props} />;
+  }
+
+  const href = typeof block.attributes.href === 'string' ? block.attributes.href : undefined;
+  const picture = (
+    <Image
+      src={image.url}
+      alt={image.alt}
+      width={image.width}
+      height={image.height}
+      sizes="(max-width: 768px) 100vw, 768px"
+      className="w-full h-auto rounded-lg"
+    />
+  );
+
+  return (
+    <figure className="not-prose my-8">
+      {href ? <Link href={href}>{picture}</Link> : picture}
+      {image.caption && (
+        <figcaption className="mt-2 text-sm text-gray-500 text-center" dangerouslySetInnerHTML={{ __html: image.caption }} />
+      )}
+    </figure>
+  );
+}
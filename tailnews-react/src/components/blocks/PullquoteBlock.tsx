@@ -0,0 +1,19 @@
+import type { BlockProps } from './registry';
+import HtmlBlock from './HtmlBlock';
+
+export default function PullquoteBlock(props: BlockProps) {
+  const { value, citation } = props.block.attributes;
+
+  if (typeof value !== 'string') {
+    return <HtmlBlock {...props} />;
+  }
+
+  return (
+    <figure className="not-prose my-10 border-y-4 border-red-600 py-6 text-center">
+      <blockquote className="text-2xl md:text-3xl font-bold leading-snug text-gray-900" dangerouslySetInnerHTML={{ __html: value }} />
+      {typeof citation === 'string' && (
+        <figcaption className="mt-4 text-sm uppercase tracking-wide text-gray-500" dangerouslySetInnerHTML={{ __html: citation }} />
+      )}
+    </figure>
+  );
+}
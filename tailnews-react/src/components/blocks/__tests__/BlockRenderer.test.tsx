@@ -0,0 +1,77 @@
+import { render, screen } from '@/test/utils/test-utils';
+import { ContentBlock } from '@/types/api';
+import { WORDPRESS_URL } from '@/lib/wordpress-client';
+import BlockRenderer from '../BlockRenderer';
+import { BlockProps, registerBlock } from '../registry';
+
+const block = (name: string, attributes: Record<string, unknown> = {}, html = '', innerBlocks: ContentBlock[] = []): ContentBlock => ({
+  name,
+  attributes,
+  html,
+  innerBlocks,
+});
+
+describe('BlockRenderer', () => {
+  it('renders unknown blocks as their sanitised HTML', () => {
+    const { container } = render(<BlockRenderer blocks={[block('core/paragraph', {}, '<p>Hello world</p>')]} />);
+
+    expect(screen.getByText('Hello world')).toBeInTheDocument();
+    expect(container.querySelector('.wp-block-paragraph')).toBeInTheDocument();
+  });
+
+  it('renders media library images with their dimensions and caption', () => {
+    render(<BlockRenderer blocks={[block('core/image', {
+      url: `${WORDPRESS_URL}/wp-content/uploads/photo.jpg`,
+      alt: 'Harbour',
+      width: 1200,
+      height: 800,
+      caption: 'At dawn',
+    })]} />);
+
+    expect(screen.getByAltText('Harbour')).toHaveAttribute('width', '1200');
+    expect(screen.getByText('At dawn')).toBeInTheDocument();
+  });
+
+  it('falls back to the block markup for images from other hosts', () => {
+    render(<BlockRenderer blocks={[block('core/image', { url: 'https://cdn.example.com/a.jpg', alt: 'Remote' }, '<figure><img src="https://cdn.example.com/a.jpg" alt="Remote"></figure>')]} />);
+
+    expect(screen.getByAltText('Remote')).toHaveAttribute('src', 'https://cdn.example.com/a.jpg');
+  });
+
+  it('embeds supported providers and links to the rest', () => {
+    render(<BlockRenderer blocks={[
+      block('core/embed', { url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', providerNameSlug: 'youtube' }),
+      block('core/embed', { url: 'https://example.com/widget' }, '<figure><a href="https://example.com/widget">Widget</a></figure>'),
+    ]} />);
+
+    expect(screen.getByTitle('youtube embed')).toHaveAttribute('src', 'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ');
+    expect(screen.getByRole('link', { name: 'Widget' })).toHaveAttribute('href', 'https://example.com/widget');
+  });
+
+  it('renders inner blocks inside layout blocks', () => {
+    const { container } = render(<BlockRenderer blocks={[
+      block('core/columns', {}, '', [
+        block('core/column', { width: '33.33%' }, '', [block('core/paragraph', {}, '<p>Left</p>')]),
+        block('core/column', { width: 'calc(1px)' }, '', [block('core/paragraph', {}, '<p>Right</p>')]),
+      ]),
+    ]} />);
+
+    const columns = container.querySelectorAll('.min-w-0');
+    expect(columns).toHaveLength(2);
+    expect(columns[0]).toHaveStyle({ flexBasis: '33.33%' });
+    expect(columns[1]).not.toHaveAttribute('style');
+    expect(screen.getByText('Right')).toBeInTheDocument();
+  });
+
+  it('uses registered and per-render components for custom blocks', () => {
+    registerBlock('acme/callout', ({ block: callout }: BlockProps) => <aside>{String(callout.attributes.text)}</aside>);
+
+    render(<BlockRenderer
+      blocks={[block('acme/callout', { text: 'Registered' }), block('core/pullquote', { value: 'Quote' })]}
+      components={{ 'core/pullquote': () => <p>Overridden</p> }}
+    />);
+
+    expect(screen.getByText('Registered')).toBeInTheDocument();
+    expect(screen.getByText('Overridden')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,34 @@
+// Block name to component map used by BlockRenderer
+import { ComponentType, ReactNode } from 'react';
+import { ContentBlock } from '@/types/api';
+import ImageBlock from './ImageBlock';
+import GalleryBlock from './GalleryBlock';
+import EmbedBlock from './EmbedBlock';
+import PullquoteBlock from './PullquoteBlock';
+import ColumnsBlock, { ColumnBlock } from './ColumnsBlock';
+
+export interface BlockProps {
+  block: ContentBlock;
+  children?: ReactNode; // Rendered inner blocks
+}
+
+export type BlockComponent = ComponentType<BlockProps>;
+
+const blockComponents = new Map<string, BlockComponent>([
+  ['core/image', ImageBlock],
+  ['core/gallery', GalleryBlock],
+  ['core/embed', EmbedBlock],
+  ['core/pullquote', PullquoteBlock],
+  ['core/columns', ColumnsBlock],
+  ['core/column', ColumnBlock],
+]);
+
+// Custom blocks register here, e.g. registerBlock('acme/callout', Callout); a registered
+// component replaces the core one of the same name
+export function registerBlock(name: string, component: BlockComponent): void {
+  blockComponents.set(name, component);
+}
+
+export function getBlockComponent(name: string): BlockComponent | undefined {
+  return blockComponents.get(name);
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { validateCommentInput } from '@/lib/comments';
+import { Comment, CommentGuardInput, CommentInput } from '@/types/api';
+import { User } from '@/types/auth';
+
+interface CommentFormProps {
+  postId: number;
+  parentId?: number;
+  user?: User | null; // Logged-in users skip the name and email fields
+  onSubmit: (input: CommentInput, guard: CommentGuardInput) => Promise<Comment>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+const CommentForm = ({ postId, parentId = 0, user, onSubmit, onCancel, autoFocus = false }: CommentFormProps) => {
+  const [content, setContent] = useState('');
+  const [authorName, setAuthorName] = useState('');
+  const [authorEmail, setAuthorEmail] = useState('');
+  const [authorUrl, setAuthorUrl] = useState('');
+  const [honeypot, setHoneypot] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const startedAt = useRef(0);
+
+  useEffect(() => {
+    startedAt.current = Date.now();
+  }, []);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (submitting) return;
+
+    const input: CommentInput = user
+      ? { post: postId, parent: parentId, content }
+      : { post: postId, parent: parentId, content, authorName, authorEmail, authorUrl };
+
+    const invalid = validateCommentInput(input, !user);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      setNotice(null);
+
+      const comment = await onSubmit(input, { honeypot, startedAt: startedAt.current });
+
+      setContent('');
+      setNotice(comment.status === 'approved' ? 'Your comment has been posted.' : 'Thanks! Your comment is awaiting moderation.');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Your comment could not be submitted. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const fieldClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500 disabled:bg-gray-50';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" noValidate>
+      {user ? (
+        <p className="text-sm text-gray-500">
+          Commenting as <span className="font-medium text-gray-700">{user.displayName}</span>
+        </p>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-3">
+          <input
+            type="text"
+            value={authorName}
+            onChange={event => setAuthorName(event.target.value)}
+            placeholder="Name *"
+            aria-label="Name"
+            autoComplete="name"
+            required
+            disabled={submitting}
+            className={fieldClassName}
+          />
+          <input
+            type="email"
+            value={authorEmail}
+            onChange={event => setAuthorEmail(event.target.value)}
+            placeholder="Email * (not published)"
+            aria-label="Email"
+            autoComplete="email"
+            required
+            disabled={submitting}
+            className={fieldClassName}
+          />
+          <input
+            type="url"
+            value={authorUrl}
+            onChange={event => setAuthorUrl(event.target.value)}
+            placeholder="Website"
+            aria-label="Website"
+            autoComplete="url"
+            disabled={submitting}
+            className={fieldClassName}
+          />
+        </div>
+      )}
+
+      {/* Honeypot: hidden from people and assistive technology, bots tend to fill it in */}
+      <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+        <label>
+          Company
+          <input type="text" name="company" tabIndex={-1} autoComplete="off" value={honeypot} onChange={event => setHoneypot(event.target.value)} />
+        </label>
+      </div>
+
+      <textarea
+        value={content}
+        onChange={event => setContent(event.target.value)}
+        placeholder={parentId ? 'Write a reply…' : 'Join the discussion…'}
+        aria-label={parentId ? 'Reply' : 'Comment'}
+        rows={parentId ? 3 : 4}
+        required
+        autoFocus={autoFocus}
+        disabled={submitting}
+        className={fieldClassName}
+      />
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">{error}</p>
+      )}
+      {notice && (
+        <p role="status" className="text-sm text-green-700">{notice}</p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={submitting}
+          className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Posting…' : parentId ? 'Post reply' : 'Post comment'}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-sm text-gray-500 hover:text-gray-700">
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default CommentForm;
@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { MAX_COMMENT_DEPTH } from '@/lib/comments';
+import { wpUtils } from '@/lib/wordpress-api';
+import { Comment, CommentGuardInput, CommentInput } from '@/types/api';
+import { User } from '@/types/auth';
+import CommentForm from './CommentForm';
+
+interface CommentItemProps {
+  comment: Comment;
+  depth?: number;
+  canReply: boolean;
+  user?: User | null;
+  onReply: (input: CommentInput, guard: CommentGuardInput) => Promise<Comment>;
+}
+
+const CommentItem = ({ comment, depth = 1, canReply, user, onReply }: CommentItemProps) => {
+  const [replying, setReplying] = useState(false);
+
+  return (
+    <li id={comment.pending ? undefined : `comment-${comment.id}`} className={comment.pending ? 'opacity-60' : ''}>
+      <article className="flex gap-3">
+        {comment.author.avatar ? (
+          <Image
+            src={comment.author.avatar}
+            alt=""
+            width={40}
+            height={40}
+            className="w-10 h-10 rounded-full flex-none"
+          />
+        ) : (
+          <div aria-hidden="true" className="w-10 h-10 rounded-full flex-none bg-gray-200 flex items-center justify-center text-gray-500 font-bold">
+            {comment.author.name.charAt(0).toUpperCase()}
+          </div>
+        )}
+
+        <div className="flex-1 min-w-0">
+          <header className="flex flex-wrap items-baseline gap-x-3 text-sm">
+            {comment.author.url ? (
+              <a href={comment.author.url} rel="nofollow ugc noopener" target="_blank" className="font-bold text-gray-900 hover:text-red-600">
+                {comment.author.name}
+              </a>
+            ) : (
+              <span className="font-bold text-gray-900">{comment.author.name}</span>
+            )}
+            <time dateTime={comment.date} className="text-gray-500">
+              {wpUtils.formatDate(comment.date)}
+            </time>
+            {comment.pending ? (
+              <span className="text-gray-500">Posting…</span>
+            ) : comment.status === 'hold' && (
+              <span className="text-xs font-medium text-amber-700 bg-amber-50 px-2 py-0.5 rounded">Awaiting moderation</span>
+            )}
+          </header>
+
+          <div
+            className="prose prose-sm max-w-none mt-1 text-gray-700 prose-a:text-red-600"
+            dangerouslySetInnerHTML={{ __html: comment.content }}
+          />
+
+          {canReply && !comment.pending && comment.status === 'approved' && depth < MAX_COMMENT_DEPTH && (
+            <button
+              type="button"
+              onClick={() => setReplying(!replying)}
+              aria-expanded={replying}
+              className="mt-1 text-sm font-medium text-gray-500 hover:text-red-600"
+            >
+              Reply
+            </button>
+          )}
+
+          {replying && (
+            <div className="mt-3">
+              <CommentForm
+                postId={comment.postId}
+                parentId={comment.id}
+                user={user}
+                onSubmit={onReply}
+                onCancel={() => setReplying(false)}
+                autoFocus
+              />
+            </div>
+          )}
+        </div>
+      </article>
+
+      {comment.replies.length > 0 && (
+        // Deep threads stop indenting so replies stay readable on small screens
+        <ol className={`mt-4 space-y-4 ${depth < 4 ? 'pl-6 sm:pl-12 border-l border-gray-100' : ''}`}>
+          {comment.replies.map(reply => (
+            <CommentItem key={reply.id} comment={reply} depth={depth + 1} canReply={canReply} user={user} onReply={onReply} />
+          ))}
+        </ol>
+      )}
+    </li>
+  );
+};
+
+export default CommentItem;
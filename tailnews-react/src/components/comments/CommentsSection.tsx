@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { useComments } from '@/hooks/useWordPress';
+import { CommentGuardInput, CommentInput } from '@/types/api';
+import CommentForm from './CommentForm';
+import CommentItem from './CommentItem';
+
+interface CommentsSectionProps {
+  postId: number;
+  commentsOpen: boolean;
+  commentCount?: number; // Approved comments including replies, when known
+  className?: string;
+}
+
+const COMMENTS_PER_PAGE = 20;
+
+const CommentsSection = ({ postId, commentsOpen, commentCount, className = '' }: CommentsSectionProps) => {
+  const { user, isAuthenticated } = useAuth();
+  const [page, setPage] = useState(1);
+  const { comments, totalPages = 1, total, isLoading, error, submitComment } = useComments(postId, { page, per_page: COMMENTS_PER_PAGE });
+
+  const handleSubmit = (input: CommentInput, guard: CommentGuardInput) => submitComment(input, {
+    ...guard,
+    author: user ? { id: user.id, name: user.displayName, avatar: user.avatar || undefined } : undefined,
+  });
+
+  const count = commentCount ?? total;
+  const currentUser = isAuthenticated ? user : null;
+
+  return (
+    <section id="comments" aria-labelledby="comments-heading" className={`mt-12 pt-8 border-t border-gray-200 ${className}`}>
+      <h2 id="comments-heading" className="text-2xl font-bold text-gray-900 mb-6">
+        <span className="inline-block h-5 border-l-4 border-red-600 mr-2"></span>
+        {count ? `${count} Comment${count === 1 ? '' : 's'}` : 'Comments'}
+      </h2>
+
+      {isLoading && !comments && (
+        <p className="text-gray-500">Loading comments…</p>
+      )}
+
+      {error && !comments && (
+        <p className="text-gray-500">Comments could not be loaded right now.</p>
+      )}
+
+      {comments && comments.length === 0 && commentsOpen && (
+        <p className="text-gray-500 mb-6">No comments yet. Start the conversation.</p>
+      )}
+
+      {comments && comments.length > 0 && (
+        <ol className="space-y-6 mb-8">
+          {comments.map(comment => (
+            <CommentItem key={comment.id} comment={comment} canReply={commentsOpen} user={currentUser} onReply={handleSubmit} />
+          ))}
+        </ol>
+      )}
+
+      {totalPages > 1 && (
+        <nav aria-label="Comment pages" className="flex justify-between mb-8 text-sm font-medium">
+          <button
+            type="button"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="text-gray-600 hover:text-red-600 disabled:text-gray-300 disabled:cursor-not-allowed"
+          >
+            ← Earlier comments
+          </button>
+          <span className="text-gray-500">Page {page} of {totalPages}</span>
+          <button
+            type="button"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+            className="text-gray-600 hover:text-red-600 disabled:text-gray-300 disabled:cursor-not-allowed"
+          >
+            Later comments →
+          </button>
+        </nav>
+      )}
+
+      {commentsOpen ? (
+        <div className="bg-gray-50 rounded-lg p-4 sm:p-6">
+          <h3 className="text-lg font-bold text-gray-900 mb-3">Leave a comment</h3>
+          {!currentUser && (
+            <p className="text-sm text-gray-500 mb-3">
+              <Link href="/login" className="text-red-600 hover:underline">Log in</Link> to comment with your account, or comment as a guest.
+            </p>
+          )}
+          <CommentForm postId={postId} user={currentUser} onSubmit={handleSubmit} />
+        </div>
+      ) : (
+        <p className="text-gray-500">Comments are closed.</p>
+      )}
+    </section>
+  );
+};
+
+export default CommentsSection;
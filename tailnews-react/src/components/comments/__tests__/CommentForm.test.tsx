@@ -0,0 +1,54 @@
+import { render, screen, fireEvent, waitFor, mockAuthenticatedUser } from '@/test/utils/test-utils';
+import CommentForm from '../CommentForm';
+
+const saved = {
+  id: 9,
+  postId: 1,
+  parentId: 0,
+  author: { name: 'Jane' },
+  date: '2024-05-21T10:00:00Z',
+  content: '<p>Hello</p>',
+  status: 'hold',
+  replies: [],
+};
+
+describe('CommentForm', () => {
+  it('asks anonymous commenters for their name and email', async () => {
+    const onSubmit = jest.fn();
+    render(<CommentForm postId={1} onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByLabelText('Comment'), { target: { value: 'Hello' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Post comment' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Please enter your name.');
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('submits with the spam signals and reports moderation', async () => {
+    const onSubmit = jest.fn().mockResolvedValue(saved);
+    render(<CommentForm postId={1} parentId={4} onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Jane' } });
+    fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'jane@example.com' } });
+    fireEvent.change(screen.getByLabelText('Reply'), { target: { value: 'Hello' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Post reply' }));
+
+    await waitFor(() => expect(screen.getByRole('status')).toHaveTextContent('awaiting moderation'));
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ post: 1, parent: 4, content: 'Hello', authorName: 'Jane', authorEmail: 'jane@example.com' }),
+      { honeypot: '', startedAt: expect.any(Number) },
+    );
+    expect(screen.getByLabelText('Reply')).toHaveValue('');
+  });
+
+  it('shows errors from WordPress', async () => {
+    const onSubmit = jest.fn().mockRejectedValue(new Error('Duplicate comment detected'));
+    render(<CommentForm postId={1} user={mockAuthenticatedUser} onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByLabelText('Comment'), { target: { value: 'Hello' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Post comment' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Duplicate comment detected');
+    expect(screen.getByText('Test User')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,267 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCommentModeration } from '@/hooks/useWordPress';
+import { authAPI } from '@/lib/auth-api';
+import { wpUtils } from '@/lib/wordpress-api';
+import CommentForm from '@/components/comments/CommentForm';
+import { CommentModerationAction, CommentModerationParams } from '@/types/api';
+import { CAPABILITIES } from '@/types/auth';
+
+export type ModerationStatus = CommentModerationParams['status'];
+
+interface CommentModerationProps {
+  status: ModerationStatus;
+  postId?: number;
+  page?: number;
+}
+
+export const MODERATION_STATUSES: { value: ModerationStatus; label: string }[] = [
+  { value: 'hold', label: 'Pending' },
+  { value: 'approve', label: 'Approved' },
+  { value: 'spam', label: 'Spam' },
+];
+
+// Actions offered for comments in each status, as bulk and row actions
+const STATUS_ACTIONS: Record<ModerationStatus, { action: CommentModerationAction; label: string }[]> = {
+  hold: [{ action: 'approve', label: 'Approve' }, { action: 'spam', label: 'Spam' }, { action: 'trash', label: 'Trash' }],
+  approve: [{ action: 'hold', label: 'Unapprove' }, { action: 'spam', label: 'Spam' }, { action: 'trash', label: 'Trash' }],
+  spam: [{ action: 'approve', label: 'Not spam' }, { action: 'trash', label: 'Trash' }],
+};
+
+const COMMENTS_PER_PAGE = 20;
+
+export function getModerationHref(status: ModerationStatus, postId?: number, page: number = 1): string {
+  const query = new URLSearchParams({ status });
+  if (postId) query.set('post', postId.toString());
+  if (page > 1) query.set('page', page.toString());
+  return `/dashboard/comments?${query.toString()}`;
+}
+
+const CommentModeration = ({ status, postId, page = 1 }: CommentModerationProps) => {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const canModerate = Boolean(isAuthenticated && user && authAPI.hasCapability(user, CAPABILITIES.MODERATE_COMMENTS));
+
+  const { comments, total, totalPages = 1, isLoading, error, moderate, reply } = useCommentModeration(
+    { status, post: postId, page, per_page: COMMENTS_PER_PAGE },
+    canModerate
+  );
+
+  const [selected, setSelected] = useState<number[]>([]);
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (authLoading) {
+    return <p className="text-gray-500">Loading…</p>;
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <p className="text-gray-600">
+        <Link href="/login" className="font-medium text-red-600 hover:text-red-700">Sign in</Link> to moderate comments.
+      </p>
+    );
+  }
+
+  if (!canModerate) {
+    return <p role="alert" className="text-gray-600">You do not have permission to moderate comments.</p>;
+  }
+
+  const actions = STATUS_ACTIONS[status];
+  const visibleIds = (comments || []).map(comment => comment.id);
+  const allSelected = visibleIds.length > 0 && visibleIds.every(id => selected.includes(id));
+  const filteredPost = postId ? comments?.find(comment => comment.post?.id === postId)?.post : undefined;
+
+  const toggle = (id: number) => {
+    setSelected(selected.includes(id) ? selected.filter(item => item !== id) : [...selected, id]);
+  };
+
+  const runAction = async (ids: number[], action: CommentModerationAction) => {
+    if (ids.length === 0 || working) return;
+
+    setWorking(true);
+    setMessage(null);
+    const failures = await moderate(ids, action);
+    setWorking(false);
+
+    setSelected(selected.filter(id => !ids.includes(id)));
+    if (failures.length > 0) {
+      setMessage(`${failures.length} of ${ids.length} comment${ids.length === 1 ? '' : 's'} could not be updated: ${failures[0].message}`);
+    }
+  };
+
+  return (
+    <div>
+      <nav aria-label="Comment status" className="flex gap-6 border-b border-gray-200 mb-6">
+        {MODERATION_STATUSES.map(item => (
+          <Link
+            key={item.value}
+            href={getModerationHref(item.value, postId)}
+            aria-current={item.value === status ? 'page' : undefined}
+            className={`pb-3 -mb-px border-b-2 text-sm font-medium ${item.value === status ? 'border-red-600 text-red-600' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+          >
+            {item.label}
+            {item.value === status && total !== undefined && <span className="ml-1 text-gray-400">({total})</span>}
+          </Link>
+        ))}
+      </nav>
+
+      {postId && (
+        <p className="mb-4 text-sm text-gray-600">
+          Showing comments on{' '}
+          <span className="font-medium text-gray-900">{filteredPost?.title || `post #${postId}`}</span>{' '}
+          <Link href={getModerationHref(status)} className="text-red-600 hover:text-red-700">Show all posts</Link>
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={() => setSelected(allSelected ? [] : visibleIds)}
+            disabled={visibleIds.length === 0}
+            className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+          />
+          Select all
+        </label>
+        {actions.map(({ action, label }) => (
+          <button
+            key={action}
+            type="button"
+            onClick={() => runAction(selected, action)}
+            disabled={selected.length === 0 || working}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {label}{selected.length > 0 ? ` (${selected.length})` : ''}
+          </button>
+        ))}
+      </div>
+
+      {message && (
+        <p role="alert" className="mb-4 text-sm text-red-600">{message}</p>
+      )}
+
+      {isLoading && !comments && (
+        <p className="text-gray-500">Loading comments…</p>
+      )}
+
+      {error && !comments && (
+        <p role="alert" className="text-gray-500">Comments could not be loaded: {error.message}</p>
+      )}
+
+      {comments && comments.length === 0 && (
+        <p className="text-gray-500">No comments here.</p>
+      )}
+
+      {comments && comments.length > 0 && (
+        <ul className="divide-y divide-gray-200 border-y border-gray-200">
+          {comments.map(comment => (
+            <li key={comment.id} className="flex gap-3 py-4">
+              <input
+                type="checkbox"
+                checked={selected.includes(comment.id)}
+                onChange={() => toggle(comment.id)}
+                aria-label={`Select comment by ${comment.author.name}`}
+                className="mt-1 rounded border-gray-300 text-red-600 focus:ring-red-500"
+              />
+
+              {comment.author.avatar ? (
+                <Image src={comment.author.avatar} alt="" width={40} height={40} className="w-10 h-10 rounded-full flex-none" />
+              ) : (
+                <div aria-hidden="true" className="w-10 h-10 rounded-full flex-none bg-gray-200 flex items-center justify-center text-gray-500 font-bold">
+                  {comment.author.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+
+              <div className="flex-1 min-w-0">
+                <header className="flex flex-wrap items-baseline gap-x-3 text-sm">
+                  <span className="font-bold text-gray-900">{comment.author.name}</span>
+                  {comment.author.email && <span className="text-gray-500">{comment.author.email}</span>}
+                  <time dateTime={comment.date} className="text-gray-500">
+                    {wpUtils.formatDate(comment.date)}
+                  </time>
+                </header>
+
+                {comment.post && (
+                  <p className="text-sm text-gray-500">
+                    On{' '}
+                    <Link
+                      href={getModerationHref(status, comment.post.id)}
+                      title="Show comments on this post only"
+                      className="text-gray-700 hover:text-red-600"
+                    >
+                      {comment.post.title}
+                    </Link>
+                    {' · '}
+                    <Link href={`/posts/${comment.post.slug}#comment-${comment.id}`} className="hover:text-red-600">View</Link>
+                  </p>
+                )}
+
+                <div
+                  className="prose prose-sm max-w-none mt-1 text-gray-700 prose-a:text-red-600"
+                  dangerouslySetInnerHTML={{ __html: comment.content }}
+                />
+
+                <div className="flex flex-wrap gap-3 mt-2 text-sm font-medium">
+                  {actions.map(({ action, label }) => (
+                    <button
+                      key={action}
+                      type="button"
+                      onClick={() => runAction([comment.id], action)}
+                      disabled={working}
+                      className={action === 'trash' || action === 'spam' ? 'text-red-600 hover:text-red-700' : 'text-gray-600 hover:text-gray-900'}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  {status !== 'spam' && (
+                    <button
+                      type="button"
+                      onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                      aria-expanded={replyingTo === comment.id}
+                      className="text-gray-600 hover:text-gray-900"
+                    >
+                      Reply
+                    </button>
+                  )}
+                </div>
+
+                {replyingTo === comment.id && (
+                  <div className="mt-3">
+                    <CommentForm
+                      postId={comment.postId}
+                      parentId={comment.id}
+                      user={user}
+                      onSubmit={input => reply(comment, input.content)}
+                      onCancel={() => setReplyingTo(null)}
+                      autoFocus
+                    />
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {totalPages > 1 && (
+        <nav aria-label="Comment pages" className="flex justify-between mt-6 text-sm font-medium">
+          {page > 1 ? (
+            <Link href={getModerationHref(status, postId, page - 1)} className="text-gray-600 hover:text-red-600">← Newer</Link>
+          ) : <span />}
+          <span className="text-gray-500">Page {page} of {totalPages}</span>
+          {page < totalPages ? (
+            <Link href={getModerationHref(status, postId, page + 1)} className="text-gray-600 hover:text-red-600">Older →</Link>
+          ) : <span />}
+        </nav>
+      )}
+    </div>
+  );
+};
+
+export default CommentModeration;
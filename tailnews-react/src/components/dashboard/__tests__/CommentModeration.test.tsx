@@ -0,0 +1,87 @@
+import { render, screen, fireEvent, mockAuthenticatedUser } from '@/test/utils/test-utils';
+import CommentModeration from '../CommentModeration';
+
+const mockAuth = {
+  user: { ...mockAuthenticatedUser, capabilities: { read: true, moderate_comments: true } },
+  isAuthenticated: true,
+  isLoading: false,
+};
+
+jest.mock('@/contexts/AuthContext', () => ({
+  ...jest.requireActual('@/contexts/AuthContext'),
+  useAuth: () => mockAuth,
+}));
+
+const mockFetch = global.fetch as jest.Mock;
+
+const comment = (id: number, name: string) => ({
+  id,
+  post: 5,
+  parent: 0,
+  author: 0,
+  author_name: name,
+  author_url: '',
+  author_email: `${name.toLowerCase()}@example.com`,
+  author_avatar_urls: {},
+  date: '2024-05-21T12:00:00',
+  date_gmt: '2024-05-21T10:00:00',
+  content: { rendered: `<p>Hello from ${name}</p>` },
+  link: '',
+  status: 'hold',
+  type: 'comment',
+  _links: {},
+  _embedded: { up: [{ id: 5, slug: 'hello-world', title: { rendered: 'Hello world' } }] },
+});
+
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: new Headers({ 'X-WP-Total': '2', 'X-WP-TotalPages': '1' }),
+  json: () => Promise.resolve(body),
+});
+
+describe('CommentModeration', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockAuth.user.capabilities.moderate_comments = true;
+  });
+
+  it('lists pending comments with their posts', async () => {
+    mockFetch.mockResolvedValue(jsonResponse([comment(1, 'Jane'), comment(2, 'Sam')]));
+    render(<CommentModeration status="hold" />);
+
+    expect(await screen.findByText('Hello from Jane')).toBeInTheDocument();
+    expect(screen.getByText('sam@example.com')).toBeInTheDocument();
+    expect(screen.getAllByRole('link', { name: 'Hello world' })[0]).toHaveAttribute('href', '/dashboard/comments?status=hold&post=5');
+    // Signed by the proxy, the browser never holds the token
+    const [url, init] = mockFetch.mock.calls.find(([url]) => url.startsWith('/api/wp/'));
+    expect(url).toMatch(/^\/api\/wp\/comments\?/);
+    expect(init.headers.Authorization).toBeUndefined();
+  });
+
+  it('approves the selected comments in bulk', async () => {
+    let approved = false;
+    mockFetch.mockImplementation((url: string, init: RequestInit = {}) => {
+      if (init.method === 'POST') approved = true;
+      return Promise.resolve(jsonResponse(init.method === 'POST' ? { ...comment(1, 'Jane'), status: 'approved' } : approved ? [] : [comment(1, 'Jane'), comment(2, 'Sam')]));
+    });
+    render(<CommentModeration status="hold" />);
+
+    fireEvent.click(await screen.findByLabelText('Select all'));
+    fireEvent.click(screen.getByRole('button', { name: 'Approve (2)' }));
+
+    expect(await screen.findByText('No comments here.')).toBeInTheDocument();
+    const updates = mockFetch.mock.calls.filter(([, init]) => init?.method === 'POST');
+    expect(updates.map(([url]) => url)).toEqual([expect.stringMatching(/\/comments\/1$/), expect.stringMatching(/\/comments\/2$/)]);
+    expect(JSON.parse(updates[0][1].body)).toEqual({ status: 'approved' });
+  });
+
+  it('requires the moderate_comments capability', () => {
+    mockAuth.user.capabilities.moderate_comments = false;
+    render(<CommentModeration status="hold" />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('You do not have permission to moderate comments.');
+    expect(mockFetch).not.toHaveBeenCalledWith(expect.stringContaining('/api/wp/'), expect.anything());
+  });
+});
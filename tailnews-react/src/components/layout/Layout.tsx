@@ -3,6 +3,7 @@ import Header from './Header';
 import Footer from './Footer';
 import InstallPrompt from '../ui/InstallPrompt';
 import OfflineIndicator from '../ui/OfflineIndicator';
+import StaleContentBanner from '../ui/StaleContentBanner';
 
 interface LayoutProps {
   children: ReactNode;
@@ -14,6 +15,7 @@ const Layout = ({ children, className = '' }: LayoutProps) => {
     <div className={`min-h-screen flex flex-col text-gray-700 pt-9 sm:pt-10 ${className}`}>
       <Header />
       <OfflineIndicator />
+      <StaleContentBanner />
       <main id="content" className="flex-grow">
         {children}
       </main>
@@ -1,7 +1,6 @@
 'use client';
 
 import { useHomepageData, useTransformedPosts } from '@/hooks/useWordPress';
-import { transformPosts } from '@/lib/transforms';
 import HeroSection from '@/components/sections/HeroSection';
 import CategorySection from '@/components/sections/CategorySection';
 import ImageSlider from '@/components/ui/ImageSlider';
@@ -11,10 +10,6 @@ import ErrorBoundary from '@/components/ui/ErrorBoundary';
 const HomePage = () => {
   const { featuredPosts, recentPosts, categories, isLoading, error } = useHomepageData();
 
-  // Transform WordPress data to component-friendly format
-  const transformedFeatured = featuredPosts ? transformPosts(featuredPosts) : null;
-  const transformedRecent = recentPosts ? transformPosts(recentPosts) : null;
-
   if (error) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -59,17 +54,17 @@ const HomePage = () => {
               </div>
             </div>
           </div>
-        ) : transformedFeatured && transformedFeatured.length > 0 ? (
+        ) : featuredPosts && featuredPosts.length > 0 ? (
           <HeroSection 
             featuredArticle={{
-              id: transformedFeatured[0].id,
-              title: transformedFeatured[0].title,
-              excerpt: transformedFeatured[0].excerpt || '',
-              slug: transformedFeatured[0].slug,
-              featuredImage: transformedFeatured[0].featuredImage,
-              category: transformedFeatured[0].category,
+              id: featuredPosts[0].id,
+              title: featuredPosts[0].title,
+              excerpt: featuredPosts[0].excerpt || '',
+              slug: featuredPosts[0].slug,
+              featuredImage: featuredPosts[0].featuredImage,
+              category: featuredPosts[0].category,
             }}
-            sideArticles={transformedFeatured.slice(1, 5).map(article => ({
+            sideArticles={featuredPosts.slice(1, 5).map(article => ({
               id: article.id,
               title: article.title,
               slug: article.slug,
@@ -133,24 +128,17 @@ const HomePage = () => {
               </div>
             </div>
           </div>
-        ) : transformedRecent && transformedRecent.length > 0 ? (
+        ) : recentPosts && recentPosts.length > 0 ? (
           <CategorySection
             categoryName="Latest News"
             categorySlug="latest"
-            articles={transformedRecent.slice(0, 6).map(article => ({
-              id: article.id,
-              title: article.title,
-              excerpt: article.excerpt,
-              slug: article.slug,
-              featuredImage: article.featuredImage,
-              category: article.category,
-            }))}
+            articles={recentPosts.slice(0, 6)}
             className="py-6"
           />
         ) : null}
 
         {/* Slider Section with Recent Posts */}
-        {transformedRecent && transformedRecent.length > 6 && (
+        {recentPosts && recentPosts.length > 6 && (
           <div className="relative bg-gray-50 py-12">
             <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2">
               <div className="flex flex-row flex-wrap">
@@ -162,7 +150,7 @@ const HomePage = () => {
                     </h2>
                   </div>
                   <ImageSlider
-                    slides={transformedRecent.slice(6).map(article => ({
+                    slides={recentPosts.slice(6).map(article => ({
                       id: article.id,
                       title: article.title,
                       slug: article.slug,
@@ -189,7 +177,7 @@ const HomePage = () => {
               A modern React application with Next.js, TypeScript, and Tailwind CSS, 
               designed to work seamlessly with WordPress as a headless CMS.
             </p>
-            {!transformedFeatured && (
+            {!featuredPosts && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 max-w-lg mx-auto">
                 <p className="text-yellow-800 text-sm">
                   <strong>Getting Started:</strong> Configure your WordPress API URL in the environment variables 
@@ -1,25 +1,15 @@
 import Link from 'next/link';
 import ArticleCard from '../articles/ArticleCard';
-
-interface Article {
-  id: number;
-  title: string;
-  excerpt?: string;
-  slug: string;
-  featuredImage?: {
-    url: string;
-    alt: string;
-  };
-  category?: {
-    name: string;
-    slug: string;
-  };
-}
+import TagCloud from '../ui/TagCloud';
+import MonthlyArchive from '../ui/MonthlyArchive';
+import { Article, Tag, ArchiveMonth } from '@/types/api';
 
 interface CategorySectionProps {
   categoryName: string;
   categorySlug: string;
   articles: Article[];
+  tags?: Tag[];
+  archiveMonths?: ArchiveMonth[];
   showSidebar?: boolean;
   className?: string;
 }
@@ -28,6 +18,8 @@ const CategorySection = ({
   categoryName, 
   categorySlug, 
   articles, 
+  tags = [],
+  archiveMonths = [],
   showSidebar = true,
   className = '' 
 }: CategorySectionProps) => {
@@ -59,6 +51,8 @@ const CategorySection = ({
                     slug={article.slug}
                     featuredImage={article.featuredImage}
                     category={article.category}
+                    readingTime={article.readingTime}
+                    commentCount={article.commentCount}
                     variant="horizontal"
                   />
                 </div>
@@ -109,6 +103,30 @@ const CategorySection = ({
                       </ul>
                     </div>
                   </div>
+
+                  {/* Tag Cloud Widget */}
+                  {tags.length > 0 && (
+                    <div className="w-full bg-white">
+                      <div className="mb-6">
+                        <div className="p-4 bg-gray-100">
+                          <h2 className="text-lg font-bold">Popular Tags</h2>
+                        </div>
+                        <TagCloud tags={tags} className="p-4" />
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Monthly Archive Widget */}
+                  {archiveMonths.length > 0 && (
+                    <div className="w-full bg-white">
+                      <div className="mb-6">
+                        <div className="p-4 bg-gray-100">
+                          <h2 className="text-lg font-bold">Archives</h2>
+                        </div>
+                        <MonthlyArchive months={archiveMonths} />
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
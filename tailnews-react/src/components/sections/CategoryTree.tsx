@@ -0,0 +1,60 @@
+import Link from 'next/link';
+import { CategoryNode } from '@/types/api';
+
+interface CategoryTreeProps {
+  categories: CategoryNode[];
+  className?: string;
+}
+
+const articleCount = (count: number) => `${count} ${count === 1 ? 'article' : 'articles'}`;
+
+// Nested list of sub-categories, indented per level
+const SubCategoryList = ({ nodes }: { nodes: CategoryNode[] }) => (
+  <ul className="space-y-2">
+    {nodes.map((node) => (
+      <li key={node.id}>
+        <Link
+          href={`/category/${node.slug}`}
+          className="flex items-center justify-between text-sm text-gray-700 hover:text-red-600"
+        >
+          <span>{node.name}</span>
+          <span className="text-xs text-gray-400">{node.totalCount}</span>
+        </Link>
+        {node.children.length > 0 && (
+          <div className="mt-2 pl-4 border-l border-gray-100">
+            <SubCategoryList nodes={node.children} />
+          </div>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+const CategoryTree = ({ categories, className = '' }: CategoryTreeProps) => {
+  return (
+    <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 ${className}`}>
+      {categories.map((category) => (
+        <div
+          key={category.id}
+          className="bg-white shadow-sm border border-gray-100 rounded-lg p-6 hover:shadow-md transition-shadow"
+        >
+          <h2 className="text-xl font-bold text-gray-900 mb-1">
+            <span className="inline-block h-4 border-l-3 border-red-600 mr-2"></span>
+            <Link href={`/category/${category.slug}`} className="hover:text-red-600">
+              {category.name}
+            </Link>
+          </h2>
+          <p className="text-sm text-gray-500 mb-3">{articleCount(category.totalCount)}</p>
+          {category.description && (
+            <p className="text-gray-600 mb-4">{category.description}</p>
+          )}
+          {category.children.length > 0 && (
+            <SubCategoryList nodes={category.children} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CategoryTree;
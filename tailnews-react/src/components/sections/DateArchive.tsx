@@ -0,0 +1,107 @@
+import Link from 'next/link';
+import ArticleCard from '../articles/ArticleCard';
+import Pagination from '../ui/Pagination';
+import MonthlyArchive from '../ui/MonthlyArchive';
+import { Article, ArchiveMonth } from '@/types/api';
+import { formatArchiveLabel, getArchivePath } from '@/lib/archive';
+
+interface DateArchiveProps {
+  year: number;
+  month?: number;
+  posts: Article[];
+  total: number;
+  totalPages: number;
+  currentPage: number;
+  archiveMonths: ArchiveMonth[];
+}
+
+// Shared layout for the yearly and monthly archive routes
+const DateArchive = ({ year, month, posts, total, totalPages, currentPage, archiveMonths }: DateArchiveProps) => {
+  const label = formatArchiveLabel(year, month);
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Breadcrumb Navigation */}
+      <div className="bg-gray-50 border-b">
+        <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-3">
+          <nav className="flex text-sm text-gray-600">
+            <Link href="/" className="hover:text-red-600">
+              Home
+            </Link>
+            <span className="mx-2">/</span>
+            <span className="text-gray-800">Archive</span>
+            <span className="mx-2">/</span>
+            {month ? (
+              <>
+                <Link href={getArchivePath(year)} className="hover:text-red-600">
+                  {year}
+                </Link>
+                <span className="mx-2">/</span>
+                <span className="text-gray-800">{label}</span>
+              </>
+            ) : (
+              <span className="text-gray-800">{year}</span>
+            )}
+          </nav>
+        </div>
+      </div>
+
+      {/* Archive Header */}
+      <div className="bg-white border-b">
+        <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-8">
+          <div className="text-center">
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">
+              <span className="inline-block h-5 border-l-3 border-red-600 mr-3"></span>
+              {label}
+            </h1>
+            <div className="mt-4 text-sm text-gray-500">
+              {total} {total === 1 ? 'article' : 'articles'} published
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="xl:container mx-auto px-3 sm:px-4 xl:px-2 py-8">
+        <div className="flex flex-row flex-wrap">
+          {/* Posts Grid */}
+          <div className="flex-shrink max-w-full w-full lg:w-2/3 overflow-hidden">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {posts.map((post) => (
+                <ArticleCard
+                  key={post.id}
+                  title={post.title}
+                  excerpt={post.excerpt}
+                  slug={post.slug}
+                  date={post.date}
+                  featuredImage={post.featuredImage}
+                  category={post.category}
+                  readingTime={post.readingTime}
+                  commentCount={post.commentCount}
+                  variant="horizontal"
+                  className="bg-white shadow-sm border border-gray-100 rounded-lg overflow-hidden hover:shadow-md transition-shadow"
+                />
+              ))}
+            </div>
+
+            {/* Pagination */}
+            <Pagination currentPage={currentPage} totalPages={totalPages} basePath={getArchivePath(year, month)} />
+          </div>
+
+          {/* Sidebar */}
+          {archiveMonths.length > 0 && (
+            <div className="flex-shrink max-w-full w-full lg:w-1/3 lg:pl-8 mt-8 lg:mt-0">
+              <div className="w-full bg-white border border-gray-100">
+                <div className="p-4 bg-gray-100">
+                  <h2 className="text-lg font-bold">Archives</h2>
+                </div>
+                <MonthlyArchive months={archiveMonths} activeYear={year} activeMonth={month} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DateArchive;
@@ -0,0 +1,15 @@
+import { JsonLd as JsonLdData, serializeJsonLd } from '@/lib/structured-data';
+
+interface JsonLdProps {
+  data: JsonLdData | JsonLdData[];
+}
+
+// Schema.org structured data for search engines
+export default function JsonLd({ data }: JsonLdProps) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(data) }}
+    />
+  );
+}
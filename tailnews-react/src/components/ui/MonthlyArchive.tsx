@@ -0,0 +1,39 @@
+import Link from 'next/link';
+import { ArchiveMonth } from '@/types/api';
+import { formatArchiveLabel, getArchivePath } from '@/lib/archive';
+
+interface MonthlyArchiveProps {
+  months: ArchiveMonth[];
+  activeYear?: number;
+  activeMonth?: number;
+  className?: string;
+}
+
+const MonthlyArchive = ({ months, activeYear, activeMonth, className = '' }: MonthlyArchiveProps) => {
+  if (months.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={className}>
+      {months.map(({ year, month, count }) => {
+        const isActive = year === activeYear && month === activeMonth;
+
+        return (
+          <li key={`${year}-${month}`} className="border-b border-gray-100 hover:bg-gray-50">
+            <Link
+              href={getArchivePath(year, month)}
+              className={`text-sm font-medium px-4 py-3 flex flex-row items-center justify-between hover:text-red-600 ${isActive ? 'text-red-600' : ''}`}
+              aria-current={isActive ? 'page' : undefined}
+            >
+              <span>{formatArchiveLabel(year, month)}</span>
+              <span className="text-xs text-gray-400">{count}</span>
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default MonthlyArchive;
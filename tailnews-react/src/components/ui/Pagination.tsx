@@ -0,0 +1,96 @@
+import Link from 'next/link';
+
+interface PaginationProps {
+  currentPage: number;
+  totalPages: number;
+  basePath: string;
+  className?: string;
+}
+
+// Numbered pagination for server-rendered archive pages, using a ?page= query
+const Pagination = ({ currentPage, totalPages, basePath, className = '' }: PaginationProps) => {
+  if (totalPages <= 1) {
+    return null;
+  }
+
+  const prevPage = currentPage > 1 ? currentPage - 1 : null;
+  const nextPage = currentPage < totalPages ? currentPage + 1 : null;
+
+  return (
+    <div className={`flex justify-center items-center space-x-2 mt-12 ${className}`}>
+      {/* Previous Page */}
+      {prevPage ? (
+        <Link
+          href={`${basePath}?page=${prevPage}`}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-gray-700"
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Previous
+        </Link>
+      ) : (
+        <span className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-300 bg-gray-100 border border-gray-200 rounded-lg cursor-not-allowed">
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Previous
+        </span>
+      )}
+
+      {/* Page Numbers */}
+      <div className="flex space-x-1">
+        {Array.from({ length: Math.min(totalPages, 7) }, (_, i) => {
+          let pageNumber;
+          if (totalPages <= 7) {
+            pageNumber = i + 1;
+          } else if (currentPage <= 4) {
+            pageNumber = i + 1;
+          } else if (currentPage >= totalPages - 3) {
+            pageNumber = totalPages - 6 + i;
+          } else {
+            pageNumber = currentPage - 3 + i;
+          }
+
+          const isCurrentPage = pageNumber === currentPage;
+
+          return (
+            <Link
+              key={pageNumber}
+              href={`${basePath}?page=${pageNumber}`}
+              className={`inline-flex items-center px-3 py-2 text-sm font-medium border rounded-lg ${
+                isCurrentPage
+                  ? 'text-white bg-red-600 border-red-600'
+                  : 'text-gray-500 bg-white border-gray-300 hover:bg-gray-50 hover:text-gray-700'
+              }`}
+            >
+              {pageNumber}
+            </Link>
+          );
+        })}
+      </div>
+
+      {/* Next Page */}
+      {nextPage ? (
+        <Link
+          href={`${basePath}?page=${nextPage}`}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-500 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 hover:text-gray-700"
+        >
+          Next
+          <svg className="w-4 h-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </Link>
+      ) : (
+        <span className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-300 bg-gray-100 border border-gray-200 rounded-lg cursor-not-allowed">
+          Next
+          <svg className="w-4 h-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,47 @@
+'use client';
+
+import { useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+
+interface PreviewBannerProps {
+  status: string;
+  isAutosave?: boolean;
+  className?: string;
+}
+
+// Shown on every page rendered in draft mode so editors never mistake a preview for the live site
+const PreviewBanner = ({ status, isAutosave = false, className = '' }: PreviewBannerProps) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [isExiting, setIsExiting] = useState(false);
+
+  const exitPreview = async () => {
+    setIsExiting(true);
+    try {
+      await fetch('/api/preview', { method: 'DELETE' });
+    } finally {
+      router.replace(pathname);
+      router.refresh();
+    }
+  };
+
+  return (
+    <div className={`sticky top-0 z-50 bg-yellow-400 text-yellow-900 py-2 px-4 ${className}`} role="status">
+      <div className="xl:container mx-auto flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-medium">
+          Preview mode: <span className="uppercase">{status}</span>
+          {isAutosave && ' (showing latest autosave)'}
+        </span>
+        <button
+          onClick={exitPreview}
+          disabled={isExiting}
+          className="text-sm font-medium underline hover:no-underline disabled:opacity-50"
+        >
+          {isExiting ? 'Exiting...' : 'Exit preview'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PreviewBanner;
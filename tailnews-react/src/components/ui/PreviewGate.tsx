@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Turns a ?preview=true&id=... visit into draft mode using the signed-in editor's session
+const PreviewGate = () => {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const { isAuthenticated, isLoading } = useAuth();
+  const [error, setError] = useState<string | null>(null);
+
+  const isPreviewRequest = searchParams.get('preview') === 'true' && !!searchParams.get('id');
+
+  useEffect(() => {
+    if (!isPreviewRequest || !isAuthenticated) return;
+
+    let cancelled = false;
+
+    fetch('/api/preview', { method: 'POST' })
+      .then(async (response) => {
+        if (cancelled) return;
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}));
+          setError(body.message || 'Unable to start preview');
+          return;
+        }
+        router.refresh();
+      })
+      .catch(() => {
+        if (!cancelled) setError('Unable to start preview');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isPreviewRequest, isAuthenticated, router]);
+
+  if (!isPreviewRequest || isLoading) {
+    return null;
+  }
+
+  if (!isAuthenticated || error) {
+    return (
+      <div className="bg-yellow-50 border-b border-yellow-200 text-yellow-800 text-center py-2 px-4" role="status">
+        <span className="text-sm font-medium">
+          {error || 'Sign in as an editor to preview unpublished content.'}
+        </span>
+        {!isAuthenticated && (
+          <Link href="/login" className="ml-2 text-sm font-medium text-red-600 hover:text-red-700">
+            Sign In
+          </Link>
+        )}
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default PreviewGate;
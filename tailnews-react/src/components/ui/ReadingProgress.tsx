@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface ReadingProgressProps {
+  targetId: string; // Element whose scroll position is tracked, e.g. the article body
+}
+
+// Share of the target scrolled past the top of the viewport, 0 to 100
+export function getReadingProgress(top: number, height: number, viewportHeight: number): number {
+  const scrollable = height - viewportHeight;
+  if (scrollable <= 0) return top <= 0 ? 100 : 0;
+
+  return Math.min(100, Math.max(0, (-top / scrollable) * 100));
+}
+
+const ReadingProgress = ({ targetId }: ReadingProgressProps) => {
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    const target = document.getElementById(targetId);
+    if (!target) return;
+
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const { top, height } = target.getBoundingClientRect();
+        setProgress(getReadingProgress(top, height, window.innerHeight));
+      });
+    };
+
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [targetId]);
+
+  return (
+    <div
+      role="progressbar"
+      aria-label="Reading progress"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(progress)}
+      className="fixed top-0 inset-x-0 z-[60] h-1 bg-transparent pointer-events-none"
+    >
+      <div className="h-full bg-red-600 transition-[width] duration-100" style={{ width: `${progress}%` }} />
+    </div>
+  );
+};
+
+export default ReadingProgress;
@@ -3,7 +3,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSearch } from '@/hooks/useWordPress';
-import { transformPosts } from '@/lib/transforms';
+import { API_ERROR_CODES } from '@/types/api';
 import Link from 'next/link';
 import Image from 'next/image';
 import LoadingSpinner from './LoadingSpinner';
@@ -31,9 +31,6 @@ const SearchBar = ({
     per_page: 5
   });
 
-  // Transform WordPress posts to articles
-  const transformedResults = results ? transformPosts(results) : null;
-
   // Handle click outside to close dropdown
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -125,16 +122,22 @@ const SearchBar = ({
 
           {error && (
             <div className="p-4 text-center text-red-600">
-              <p className="text-sm">Search error occurred</p>
+              <p className="text-sm">
+                {error.code === API_ERROR_CODES.RATE_LIMITED
+                  ? 'Too many searches, please wait a moment'
+                  : error.code === API_ERROR_CODES.NETWORK || error.code === API_ERROR_CODES.TIMEOUT
+                    ? 'Search is unavailable, please check your connection'
+                    : 'Search error occurred'}
+              </p>
             </div>
           )}
 
-          {!isLoading && !error && transformedResults && transformedResults.length > 0 && (
+          {!isLoading && !error && results && results.length > 0 && (
             <div>
               <div className="p-2 text-xs text-gray-500 border-b">
-                Found {transformedResults.length} results
+                Found {results.length} results
               </div>
-              {transformedResults.map((article) => (
+              {results.map((article) => (
                 <Link
                   key={article.id}
                   href={`/posts/${article.slug}`}
@@ -172,7 +175,7 @@ const SearchBar = ({
                   </div>
                 </Link>
               ))}
-              {transformedResults.length === 5 && (
+              {results.length === 5 && (
                 <div className="p-3 text-center border-t">
                   <Link
                     href={`/search?q=${encodeURIComponent(query)}`}
@@ -186,7 +189,7 @@ const SearchBar = ({
             </div>
           )}
 
-          {!isLoading && !error && query.length > 2 && (!transformedResults || transformedResults.length === 0) && (
+          {!isLoading && !error && query.length > 2 && (!results || results.length === 0) && (
             <div className="p-4 text-center text-gray-500">
               <p className="text-sm">No results found for "{query}"</p>
               <p className="text-xs mt-1">Try different keywords</p>
@@ -0,0 +1,28 @@
+import { getCircuitState } from '@/lib/resilience';
+import { WORDPRESS_API_URL } from '@/lib/wordpress-client';
+
+interface StaleContentBannerProps {
+  className?: string;
+}
+
+// Shown while the WordPress circuit breaker is not closed and pages may be served from stale data
+const StaleContentBanner = ({ className = '' }: StaleContentBannerProps) => {
+  if (getCircuitState(WORDPRESS_API_URL) === 'closed') {
+    return null;
+  }
+
+  return (
+    <div className={`bg-yellow-50 border-b border-yellow-200 text-yellow-800 text-center py-2 px-4 ${className}`} role="status">
+      <div className="flex items-center justify-center">
+        <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+        </svg>
+        <span className="text-sm font-medium">
+          We are having trouble reaching our newsroom. Content may be out of date.
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default StaleContentBanner;
@@ -0,0 +1,56 @@
+import Link from 'next/link';
+import { Tag } from '@/types/api';
+
+interface TagCloudProps {
+  tags: Array<Pick<Tag, 'id' | 'name' | 'slug' | 'count'>>;
+  limit?: number;
+  className?: string;
+}
+
+// Text sizes from least to most used tag
+const WEIGHT_CLASSES = ['text-xs', 'text-sm', 'text-base', 'text-lg', 'text-xl'];
+
+// Map a tag count onto a weight bucket, using a log scale so a few very popular tags don't flatten the rest
+export function getTagWeight(count: number, minCount: number, maxCount: number, steps: number = WEIGHT_CLASSES.length): number {
+  if (maxCount <= minCount) {
+    return Math.floor(steps / 2);
+  }
+
+  const ratio = (Math.log(count + 1) - Math.log(minCount + 1)) / (Math.log(maxCount + 1) - Math.log(minCount + 1));
+  return Math.min(steps - 1, Math.max(0, Math.round(ratio * (steps - 1))));
+}
+
+const TagCloud = ({ tags, limit = 30, className = '' }: TagCloudProps) => {
+  // Keep the most used tags, then show them alphabetically
+  const visibleTags = [...tags]
+    .filter(tag => tag.count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  if (visibleTags.length === 0) {
+    return null;
+  }
+
+  const counts = visibleTags.map(tag => tag.count);
+  const minCount = Math.min(...counts);
+  const maxCount = Math.max(...counts);
+
+  return (
+    <ul className={`flex flex-wrap items-baseline gap-x-3 gap-y-2 ${className}`}>
+      {visibleTags.map((tag) => (
+        <li key={tag.id}>
+          <Link
+            href={`/tag/${tag.slug}`}
+            className={`${WEIGHT_CLASSES[getTagWeight(tag.count, minCount, maxCount)]} text-gray-700 hover:text-red-600 transition-colors`}
+            title={`${tag.count} ${tag.count === 1 ? 'article' : 'articles'}`}
+          >
+            #{tag.name}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default TagCloud;
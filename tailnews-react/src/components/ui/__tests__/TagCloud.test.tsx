@@ -0,0 +1,46 @@
+import { render, screen } from '@/test/utils/test-utils';
+import TagCloud, { getTagWeight } from '../TagCloud';
+
+const tags = [
+  { id: 1, name: 'Politics', slug: 'politics', count: 120 },
+  { id: 2, name: 'Elections', slug: 'elections', count: 12 },
+  { id: 3, name: 'Budget', slug: 'budget', count: 1 },
+  { id: 4, name: 'Unused', slug: 'unused', count: 0 },
+];
+
+describe('TagCloud', () => {
+  it('links each used tag to its archive in alphabetical order', () => {
+    render(<TagCloud tags={tags} />);
+
+    const links = screen.getAllByRole('link');
+    expect(links.map(link => link.textContent)).toEqual(['#Budget', '#Elections', '#Politics']);
+    expect(links[2]).toHaveAttribute('href', '/tag/politics');
+    expect(screen.queryByText('#Unused')).not.toBeInTheDocument();
+  });
+
+  it('sizes tags by usage', () => {
+    render(<TagCloud tags={tags} />);
+
+    expect(screen.getByText('#Politics')).toHaveClass('text-xl');
+    expect(screen.getByText('#Budget')).toHaveClass('text-xs');
+  });
+
+  it('keeps only the most used tags when limited', () => {
+    render(<TagCloud tags={tags} limit={1} />);
+
+    expect(screen.getAllByRole('link')).toHaveLength(1);
+    expect(screen.getByText('#Politics')).toBeInTheDocument();
+  });
+
+  it('renders nothing without used tags', () => {
+    const { container } = render(<TagCloud tags={[tags[3]]} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('weights on a log scale', () => {
+    expect(getTagWeight(1, 1, 1000)).toBe(0);
+    expect(getTagWeight(1000, 1, 1000)).toBe(4);
+    expect(getTagWeight(30, 1, 1000)).toBe(2);
+    expect(getTagWeight(5, 5, 5)).toBe(2);
+  });
+});
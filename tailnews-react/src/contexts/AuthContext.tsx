@@ -1,19 +1,26 @@
 'use client';
 
 import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
 import { authAPI, AuthAPIError } from '@/lib/auth-api';
+import { sessionAPI } from '@/lib/session-api';
+import { findRouteRule, getAccess, getLoginHref } from '@/lib/authorization';
 import { 
+  AccessStatus,
   AuthState, 
   AuthContextType, 
   LoginCredentials, 
   RegisterData, 
+  RouteRule,
+  SessionResponse,
   User 
 } from '@/types/auth';
 
 // Auth reducer types
 type AuthAction =
   | { type: 'AUTH_START' }
-  | { type: 'AUTH_SUCCESS'; payload: { user: User; token: string; refreshToken?: string } }
+  | { type: 'AUTH_SUCCESS'; payload: SessionResponse }
   | { type: 'AUTH_ERROR'; payload: string }
   | { type: 'AUTH_LOGOUT' }
   | { type: 'USER_UPDATE'; payload: User }
@@ -22,13 +29,15 @@ type AuthAction =
 // Initial state
 const initialState: AuthState = {
   user: null,
-  token: null,
-  refreshToken: null,
+  expiresAt: null,
   isAuthenticated: false,
   isLoading: false,
   error: null,
 };
 
+// Storage keys from before the session moved into httpOnly cookies
+const LEGACY_STORAGE_KEYS = ['auth_token', 'refresh_token', 'user_data'];
+
 // Auth reducer
 function authReducer(state: AuthState, action: AuthAction): AuthState {
   switch (action.type) {
@@ -43,8 +52,7 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
       return {
         ...state,
         user: action.payload.user,
-        token: action.payload.token,
-        refreshToken: action.payload.refreshToken || state.refreshToken,
+        expiresAt: action.payload.expiresIn ? Date.now() + action.payload.expiresIn * 1000 : null,
         isAuthenticated: true,
         isLoading: false,
         error: null,
@@ -54,8 +62,7 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
       return {
         ...state,
         user: null,
-        token: null,
-        refreshToken: null,
+        expiresAt: null,
         isAuthenticated: false,
         isLoading: false,
         error: action.payload,
@@ -87,28 +94,18 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 // Auth provider component
+// Tokens stay in httpOnly cookies behind /api/auth; this only ever sees the user and when the session expires
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [state, dispatch] = useReducer(authReducer, initialState);
+  // Loading until the session has been checked, so guards don't redirect too early
+  const [state, dispatch] = useReducer(authReducer, { ...initialState, isLoading: true });
 
   // Login function
   const login = useCallback(async (credentials: LoginCredentials) => {
     dispatch({ type: 'AUTH_START' });
     
     try {
-      const authResponse = await authAPI.login(credentials);
-      
-      // Store tokens and user data
-      authAPI.storeToken(authResponse.token, authResponse.refreshToken);
-      authAPI.storeUser(authResponse.user);
-      
-      dispatch({
-        type: 'AUTH_SUCCESS',
-        payload: {
-          user: authResponse.user,
-          token: authResponse.token,
-          refreshToken: authResponse.refreshToken,
-        },
-      });
+      const session = await sessionAPI.login(credentials);
+      dispatch({ type: 'AUTH_SUCCESS', payload: session });
     } catch (error) {
       const errorMessage = error instanceof AuthAPIError 
         ? error.message 
@@ -124,20 +121,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: 'AUTH_START' });
     
     try {
-      const authResponse = await authAPI.register(data);
-      
-      // Store tokens and user data
-      authAPI.storeToken(authResponse.token, authResponse.refreshToken);
-      authAPI.storeUser(authResponse.user);
-      
-      dispatch({
-        type: 'AUTH_SUCCESS',
-        payload: {
-          user: authResponse.user,
-          token: authResponse.token,
-          refreshToken: authResponse.refreshToken,
-        },
-      });
+      const session = await sessionAPI.register(data);
+      dispatch({ type: 'AUTH_SUCCESS', payload: session });
     } catch (error) {
       const errorMessage = error instanceof AuthAPIError 
         ? error.message 
@@ -148,50 +133,35 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
-  // Logout function
-  const logout = useCallback(() => {
-    authAPI.logout();
+  // Logout function; signed out locally even if clearing the cookies fails
+  const logout = useCallback(async () => {
+    try {
+      await sessionAPI.logout();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    }
     dispatch({ type: 'AUTH_LOGOUT' });
   }, []);
 
   // Refresh authentication
   const refreshAuth = useCallback(async () => {
-    const refreshToken = authAPI.getStoredRefreshToken();
-    
-    if (!refreshToken) {
-      logout();
-      return;
-    }
-
     try {
-      const authResponse = await authAPI.refreshToken(refreshToken);
-      
-      authAPI.storeToken(authResponse.token, authResponse.refreshToken);
-      authAPI.storeUser(authResponse.user);
-      
-      dispatch({
-        type: 'AUTH_SUCCESS',
-        payload: {
-          user: authResponse.user,
-          token: authResponse.token,
-          refreshToken: authResponse.refreshToken,
-        },
-      });
+      const session = await sessionAPI.refresh();
+      dispatch({ type: 'AUTH_SUCCESS', payload: session });
     } catch (error) {
       console.error('Token refresh failed:', error);
-      logout();
+      await logout();
     }
   }, [logout]);
 
   // Update user profile
   const updateUser = useCallback(async (userData: Partial<User>) => {
-    if (!state.user || !state.token) {
+    if (!state.user) {
       throw new Error('User not authenticated');
     }
 
     try {
-      const updatedUser = await authAPI.updateUser(state.token, state.user.id, userData);
-      authAPI.storeUser(updatedUser);
+      const updatedUser = await sessionAPI.updateUser(userData);
       dispatch({ type: 'USER_UPDATE', payload: updatedUser });
     } catch (error) {
       const errorMessage = error instanceof AuthAPIError 
@@ -201,52 +171,27 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       dispatch({ type: 'AUTH_ERROR', payload: errorMessage });
       throw error;
     }
-  }, [state.user, state.token]);
+  }, [state.user]);
 
-  // Check authentication status
+  // Check authentication status; the server refreshes an expired token itself
   const checkAuth = useCallback(async () => {
     dispatch({ type: 'AUTH_START' });
-    
-    const token = authAPI.getStoredToken();
-    const storedUser = authAPI.getStoredUser();
-    
-    if (!token || !storedUser) {
-      dispatch({ type: 'AUTH_LOGOUT' });
-      return;
-    }
-
-    // Check if token is expired
-    if (authAPI.isTokenExpired(token)) {
-      await refreshAuth();
-      return;
-    }
 
     try {
-      // Validate token with server
-      const user = await authAPI.validateToken(token);
-      dispatch({
-        type: 'AUTH_SUCCESS',
-        payload: {
-          user,
-          token,
-          refreshToken: authAPI.getStoredRefreshToken() || undefined,
-        },
-      });
+      const session = await sessionAPI.getSession();
+      dispatch(session ? { type: 'AUTH_SUCCESS', payload: session } : { type: 'AUTH_LOGOUT' });
     } catch (error) {
-      console.error('Token validation failed:', error);
-      await refreshAuth();
+      console.error('Session check failed:', error);
+      dispatch({ type: 'AUTH_LOGOUT' });
     }
-  }, [refreshAuth]);
+  }, []);
 
   // Auto-refresh token before expiration
   useEffect(() => {
-    if (!state.token || !state.isAuthenticated) return;
-
-    const decoded = authAPI.decodeToken(state.token);
-    if (!decoded) return;
+    if (!state.expiresAt || !state.isAuthenticated) return;
 
     // Refresh token 5 minutes before expiration
-    const refreshTime = (decoded.exp * 1000) - Date.now() - (5 * 60 * 1000);
+    const refreshTime = state.expiresAt - Date.now() - (5 * 60 * 1000);
     
     if (refreshTime > 0) {
       const timeout = setTimeout(() => {
@@ -255,10 +200,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       return () => clearTimeout(timeout);
     }
-  }, [state.token, state.isAuthenticated, refreshAuth]);
+  }, [state.expiresAt, state.isAuthenticated, refreshAuth]);
 
   // Check authentication on mount
   useEffect(() => {
+    LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key));
     checkAuth();
   }, [checkAuth]);
 
@@ -324,12 +270,12 @@ export function withAuth<P extends object>(
             <p className="text-gray-600 mb-4">
               Please log in to access this page.
             </p>
-            <a
+            <Link
               href="/login"
               className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
             >
               Log In
-            </a>
+            </Link>
           </div>
         </div>
       );
@@ -380,4 +326,20 @@ export function usePermissions() {
     isEditor: hasRole('editor'),
     isAuthor: hasRole('author'),
   };
-}
\ No newline at end of file
+}
+
+// Hook for checking access to the current route, or to an explicit requirement
+export function useAuthorization(requirement?: Omit<RouteRule, 'pattern'>) {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const pathname = usePathname();
+
+  const rule = requirement || (pathname ? findRouteRule(pathname) : null);
+  const status: AccessStatus | 'loading' = isLoading ? 'loading' : rule ? getAccess(isAuthenticated ? user : null, rule) : 'allowed';
+
+  return {
+    status,
+    isAllowed: status === 'allowed',
+    rule,
+    loginHref: getLoginHref(pathname || '/'),
+  };
+}
@@ -1,23 +1,41 @@
 import useSWR from 'swr';
-import { postsAPI, categoriesAPI, tagsAPI, authorsAPI, wpUtils } from '@/lib/wordpress-api';
-import { WordPressPost, WordPressCategory, WordPressTag, WordPressAuthor } from '@/types/wordpress';
+import { postsAPI, categoriesAPI, authorsAPI, commentsAPI, commentModerationAPI, wpUtils } from '@/lib/wordpress-api';
+import { mapResponse } from '@/lib/wordpress-client';
+import { toAPIError, WordPressAPIError } from '@/lib/wordpress-errors';
+import { transformPost, transformPosts, transformCategory, transformCategories, transformAuthor, transformAuthors, transformComment, transformComments } from '@/lib/transforms';
+import { createPendingComment, insertComment } from '@/lib/comments';
+import { WordPressPost } from '@/types/wordpress';
+import {
+  API_ERROR_CODES,
+  PostsParams,
+  CategoriesParams,
+  AuthorsParams,
+  PaginationParams,
+  UsePostsReturn,
+  UsePostReturn,
+  UseCategoriesReturn,
+  UseCategoryReturn,
+  UseAuthorsReturn,
+  UseAuthorReturn,
+  UseSearchReturn,
+  UseCommentsReturn,
+  UseCommentModerationReturn,
+  APIResponse,
+  APIError,
+  Comment,
+  CommentInput,
+  CommentModerationAction,
+  CommentModerationParams,
+  SubmitCommentOptions,
+} from '@/types/api';
 
 // Custom hook for fetching posts
-export function usePosts(params: {
-  page?: number;
-  per_page?: number;
-  categories?: number[];
-  tags?: number[];
-  author?: number;
-  search?: string;
-  orderby?: 'date' | 'title' | 'menu_order';
-  order?: 'asc' | 'desc';
-} = {}) {
+export function usePosts(params: PostsParams = {}): UsePostsReturn {
   const key = ['posts', params];
   
   const { data, error, isLoading, mutate } = useSWR(
     key,
-    () => postsAPI.getPosts(params),
+    async () => mapResponse(await postsAPI.getPosts(params), transformPosts),
     {
       revalidateOnFocus: false,
       dedupingInterval: 60000, // Cache for 1 minute
@@ -29,41 +47,35 @@ export function usePosts(params: {
     totalPages: data?.totalPages,
     total: data?.total,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
   };
 }
 
 // Custom hook for fetching a single post by slug
-export function usePost(slug: string | null) {
+export function usePost(slug: string | null): UsePostReturn {
   const { data, error, isLoading, mutate } = useSWR(
     slug ? ['post', slug] : null,
-    () => slug ? postsAPI.getPostBySlug(slug) : null,
+    async () => slug ? mapResponse(await postsAPI.getPostBySlug(slug), transformPost) : null,
     {
       revalidateOnFocus: false,
       dedupingInterval: 300000, // Cache for 5 minutes
     }
   );
 
-  const post = data?.data;
-  
   return {
-    post,
-    featuredImage: post ? wpUtils.getFeaturedImage(post) : null,
-    author: post ? wpUtils.getAuthor(post) : null,
-    categories: post ? wpUtils.getCategories(post) : [],
-    tags: post ? wpUtils.getTags(post) : [],
+    post: data?.data || null,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
   };
 }
 
 // Custom hook for fetching featured/sticky posts
-export function useFeaturedPosts(limit: number = 5) {
+export function useFeaturedPosts(limit: number = 5): UsePostsReturn {
   const { data, error, isLoading, mutate } = useSWR(
     ['featured-posts', limit],
-    () => postsAPI.getFeaturedPosts(limit),
+    async () => mapResponse(await postsAPI.getFeaturedPosts(limit), transformPosts),
     {
       revalidateOnFocus: false,
       dedupingInterval: 300000, // Cache for 5 minutes
@@ -73,16 +85,16 @@ export function useFeaturedPosts(limit: number = 5) {
   return {
     posts: data?.data || null,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
   };
 }
 
 // Custom hook for fetching related posts
-export function useRelatedPosts(postId: number | null, categoryIds: number[], limit: number = 5) {
+export function useRelatedPosts(postId: number | null, categoryIds: number[], limit: number = 5): UsePostsReturn {
   const { data, error, isLoading, mutate } = useSWR(
     postId && categoryIds.length > 0 ? ['related-posts', postId, categoryIds, limit] : null,
-    () => postId ? postsAPI.getRelatedPosts(postId, categoryIds, limit) : null,
+    async () => postId ? mapResponse(await postsAPI.getRelatedPosts(postId, categoryIds, limit), transformPosts) : null,
     {
       revalidateOnFocus: false,
       dedupingInterval: 300000, // Cache for 5 minutes
@@ -92,21 +104,16 @@ export function useRelatedPosts(postId: number | null, categoryIds: number[], li
   return {
     posts: data?.data || null,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
   };
 }
 
 // Custom hook for fetching categories
-export function useCategories(params: {
-  page?: number;
-  per_page?: number;
-  hide_empty?: boolean;
-  parent?: number;
-} = {}) {
+export function useCategories(params: CategoriesParams = {}): UseCategoriesReturn {
   const { data, error, isLoading, mutate } = useSWR(
     ['categories', params],
-    () => categoriesAPI.getCategories(params),
+    async () => mapResponse(await categoriesAPI.getCategories(params), transformCategories),
     {
       revalidateOnFocus: false,
       dedupingInterval: 600000, // Cache for 10 minutes
@@ -118,16 +125,16 @@ export function useCategories(params: {
     totalPages: data?.totalPages,
     total: data?.total,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
   };
 }
 
 // Custom hook for fetching a single category by slug
-export function useCategory(slug: string | null) {
+export function useCategory(slug: string | null): UseCategoryReturn {
   const { data, error, isLoading, mutate } = useSWR(
     slug ? ['category', slug] : null,
-    () => slug ? categoriesAPI.getCategoryBySlug(slug) : null,
+    async () => slug ? mapResponse(await categoriesAPI.getCategoryBySlug(slug), transformCategory) : null,
     {
       revalidateOnFocus: false,
       dedupingInterval: 600000, // Cache for 10 minutes
@@ -137,19 +144,16 @@ export function useCategory(slug: string | null) {
   return {
     category: data?.data || null,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
   };
 }
 
 // Custom hook for fetching posts by category
-export function usePostsByCategory(categorySlug: string | null, params: {
-  page?: number;
-  per_page?: number;
-} = {}) {
+export function usePostsByCategory(categorySlug: string | null, params: PaginationParams = {}): UsePostsReturn {
   const { data, error, isLoading, mutate } = useSWR(
     categorySlug ? ['posts-by-category', categorySlug, params] : null,
-    () => categorySlug ? categoriesAPI.getPostsByCategory(categorySlug, params) : null,
+    async () => categorySlug ? mapResponse(await categoriesAPI.getPostsByCategory(categorySlug, params), transformPosts) : null,
     {
       revalidateOnFocus: false,
       dedupingInterval: 60000, // Cache for 1 minute
@@ -161,19 +165,16 @@ export function usePostsByCategory(categorySlug: string | null, params: {
     totalPages: data?.totalPages,
     total: data?.total,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
   };
 }
 
 // Custom hook for fetching authors
-export function useAuthors(params: {
-  page?: number;
-  per_page?: number;
-} = {}) {
+export function useAuthors(params: AuthorsParams = {}): UseAuthorsReturn {
   const { data, error, isLoading, mutate } = useSWR(
     ['authors', params],
-    () => authorsAPI.getAuthors(params),
+    async () => mapResponse(await authorsAPI.getAuthors(params), transformAuthors),
     {
       revalidateOnFocus: false,
       dedupingInterval: 600000, // Cache for 10 minutes
@@ -185,16 +186,16 @@ export function useAuthors(params: {
     totalPages: data?.totalPages,
     total: data?.total,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
   };
 }
 
 // Custom hook for fetching a single author
-export function useAuthor(authorId: number | null) {
+export function useAuthor(authorId: number | null): UseAuthorReturn {
   const { data, error, isLoading, mutate } = useSWR(
     authorId ? ['author', authorId] : null,
-    () => authorId ? authorsAPI.getAuthorById(authorId) : null,
+    async () => authorId ? mapResponse(await authorsAPI.getAuthorById(authorId), transformAuthor) : null,
     {
       revalidateOnFocus: false,
       dedupingInterval: 600000, // Cache for 10 minutes
@@ -204,19 +205,16 @@ export function useAuthor(authorId: number | null) {
   return {
     author: data?.data || null,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
   };
 }
 
 // Custom hook for fetching posts by author
-export function usePostsByAuthor(authorId: number | null, params: {
-  page?: number;
-  per_page?: number;
-} = {}) {
+export function usePostsByAuthor(authorId: number | null, params: PaginationParams = {}): UsePostsReturn {
   const { data, error, isLoading, mutate } = useSWR(
     authorId ? ['posts-by-author', authorId, params] : null,
-    () => authorId ? authorsAPI.getPostsByAuthor(authorId, params) : null,
+    async () => authorId ? mapResponse(await authorsAPI.getPostsByAuthor(authorId, params), transformPosts) : null,
     {
       revalidateOnFocus: false,
       dedupingInterval: 60000, // Cache for 1 minute
@@ -228,20 +226,18 @@ export function usePostsByAuthor(authorId: number | null, params: {
     totalPages: data?.totalPages,
     total: data?.total,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
   };
 }
 
 // Custom hook for search functionality
-export function useSearch(query: string | null, params: {
-  page?: number;
-  per_page?: number;
+export function useSearch(query: string | null, params: PaginationParams & {
   type?: 'post' | 'page';
-} = {}) {
+} = {}): UseSearchReturn {
   const { data, error, isLoading, mutate } = useSWR(
     query && query.length > 2 ? ['search', query, params] : null,
-    () => query ? postsAPI.getPosts({ search: query, ...params }) : null,
+    async () => query ? mapResponse(await postsAPI.getPosts({ search: query, page: params.page, per_page: params.per_page }), transformPosts) : null,
     {
       revalidateOnFocus: false,
       dedupingInterval: 30000, // Cache for 30 seconds
@@ -253,8 +249,122 @@ export function useSearch(query: string | null, params: {
     totalPages: data?.totalPages,
     total: data?.total,
     isLoading,
-    error: error || data?.error,
+    error: error ? toAPIError(error) : data?.error || null,
+    refresh: mutate,
+  };
+}
+
+// Custom hook for a post's comment threads, with optimistic submission
+export function useComments(postId: number | null, params: PaginationParams = {}): UseCommentsReturn {
+  const { data, error, isLoading, mutate } = useSWR(
+    postId ? ['comments', postId, params] : null,
+    async () => postId ? mapResponse(await commentsAPI.getCommentThreads(postId, params), transformComments) : null,
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 30000, // Cache for 30 seconds
+    }
+  );
+
+  // Issued once the thread is shown, so people who write a comment pass the fill-time check
+  const { data: formToken } = useSWR(
+    postId ? 'comment-form-token' : null,
+    () => commentsAPI.getFormToken(),
+    { revalidateOnFocus: false, revalidateIfStale: false }
+  );
+
+  const submitComment = async (input: CommentInput, options: SubmitCommentOptions = {}): Promise<Comment> => {
+    const pending = createPendingComment(input, options.author || { name: input.authorName || 'Anonymous' });
+    const withComment = (current: APIResponse<Comment[]> | null | undefined, comment: Comment): APIResponse<Comment[]> => ({
+      ...(current || { error: null }),
+      data: insertComment(current?.data || [], comment),
+    });
+
+    let saved: Comment | undefined;
+
+    // Shown straight away, replaced by the saved comment or rolled back when WordPress rejects it
+    await mutate(async current => {
+      const response = await commentsAPI.submitComment(input, { ...options, token: options.token || formToken || undefined });
+      if (!response.data) throw response.error;
+
+      saved = transformComment(response.data);
+      return withComment(current, saved);
+    }, {
+      optimisticData: current => withComment(current, pending),
+      rollbackOnError: true,
+      populateCache: true,
+      revalidate: false,
+    });
+
+    return saved as Comment;
+  };
+
+  return {
+    comments: data?.data || null,
+    totalPages: data?.totalPages,
+    total: data?.total,
+    isLoading,
+    error: error ? toAPIError(error) : data?.error || null,
+    refresh: mutate,
+    submitComment,
+  };
+}
+
+// Comments in one moderation status, for users with the moderate_comments capability
+// Disabled until the user is known to have it, the session cookie signs the requests
+export function useCommentModeration(params: CommentModerationParams, enabled: boolean): UseCommentModerationReturn {
+  const { data, error, isLoading, mutate } = useSWR(
+    enabled ? ['comment-moderation', params] : null,
+    async () => enabled ? mapResponse(await commentModerationAPI.getComments(params), comments => comments.map(transformComment)) : null,
+    {
+      revalidateOnFocus: true, // New comments arrive while the screen is open
+      dedupingInterval: 5000,
+    }
+  );
+
+  const moderate = async (ids: number[], action: CommentModerationAction): Promise<APIError[]> => {
+    if (!enabled || ids.length === 0) return [];
+
+    const without = (current: APIResponse<Comment[]> | null | undefined, removed: number[]): APIResponse<Comment[]> => ({
+      ...(current || { error: null }),
+      data: (current?.data || []).filter(comment => !removed.includes(comment.id)),
+    });
+
+    let failures: APIError[] = [];
+
+    // Every comment leaves the current status, failed ones come back
+    await mutate(async current => {
+      const responses = await Promise.all(ids.map(id => commentModerationAPI.moderateComment(id, action)));
+      failures = responses.flatMap(response => (response.error ? [response.error] : []));
+      return without(current, ids.filter((id, index) => !responses[index].error));
+    }, {
+      optimisticData: current => without(current, ids),
+      rollbackOnError: true,
+      populateCache: true,
+      revalidate: true, // Totals and the next page
+    });
+
+    return failures;
+  };
+
+  const reply = async (comment: Comment, content: string): Promise<Comment> => {
+    if (!enabled) throw new WordPressAPIError('Sign in to reply to comments.', API_ERROR_CODES.UNAUTHORIZED, 401);
+
+    const response = await commentModerationAPI.replyToComment(comment, content);
+    if (!response.data) throw response.error;
+
+    mutate();
+    return transformComment(response.data);
+  };
+
+  return {
+    comments: data?.data || null,
+    totalPages: data?.totalPages,
+    total: data?.total,
+    isLoading,
+    error: error ? toAPIError(error) : data?.error || null,
     refresh: mutate,
+    moderate,
+    reply,
   };
 }
 
@@ -0,0 +1,50 @@
+import {
+  formatArchiveLabel,
+  getArchivePath,
+  getArchiveRange,
+  getMonthsBetween,
+  groupArchiveByYear,
+  parseArchiveParams,
+} from '../archive';
+
+describe('archive', () => {
+  it('builds exclusive WordPress date ranges for a month and a year', () => {
+    expect(getArchiveRange(2024, 3)).toEqual({ after: '2024-02-29T23:59:59', before: '2024-04-01T00:00:00' });
+    expect(getArchiveRange(2024, 12)).toEqual({ after: '2024-11-30T23:59:59', before: '2025-01-01T00:00:00' });
+    expect(getArchiveRange(2024)).toEqual({ after: '2023-12-31T23:59:59', before: '2025-01-01T00:00:00' });
+  });
+
+  it('parses route segments', () => {
+    expect(parseArchiveParams('2024', '03')).toEqual({ year: 2024, month: 3 });
+    expect(parseArchiveParams('2024')).toEqual({ year: 2024, month: undefined });
+    expect(parseArchiveParams('2024', '13')).toBeNull();
+    expect(parseArchiveParams('24')).toBeNull();
+    expect(parseArchiveParams('2024', 'march')).toBeNull();
+  });
+
+  it('lists months newest first across year boundaries', () => {
+    expect(getMonthsBetween(new Date('2023-11-15T00:00:00Z'), new Date('2024-02-01T00:00:00Z'))).toEqual([
+      { year: 2024, month: 2 },
+      { year: 2024, month: 1 },
+      { year: 2023, month: 12 },
+      { year: 2023, month: 11 },
+    ]);
+  });
+
+  it('formats paths and labels', () => {
+    expect(getArchivePath(2024, 3)).toBe('/archive/2024/03');
+    expect(getArchivePath(2024)).toBe('/archive/2024');
+    expect(formatArchiveLabel(2024, 3)).toBe('March 2024');
+  });
+
+  it('groups monthly counts by year', () => {
+    expect(groupArchiveByYear([
+      { year: 2023, month: 12, count: 2 },
+      { year: 2024, month: 1, count: 3 },
+      { year: 2024, month: 2, count: 4 },
+    ])).toEqual([
+      { year: 2024, count: 7, months: [{ year: 2024, month: 2, count: 4 }, { year: 2024, month: 1, count: 3 }] },
+      { year: 2023, count: 2, months: [{ year: 2023, month: 12, count: 2 }] },
+    ]);
+  });
+});
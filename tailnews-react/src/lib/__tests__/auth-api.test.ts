@@ -78,67 +78,6 @@ describe('AuthAPI', () => {
     });
   });
 
-  describe('token management', () => {
-    it('stores token in localStorage', () => {
-      const token = 'test-token';
-      const refreshToken = 'test-refresh-token';
-
-      authAPI.storeToken(token, refreshToken);
-
-      expect(localStorage.getItem('auth_token')).toBe(token);
-      expect(localStorage.getItem('refresh_token')).toBe(refreshToken);
-    });
-
-    it('retrieves stored token', () => {
-      const token = 'test-token';
-      localStorage.setItem('auth_token', token);
-
-      const retrievedToken = authAPI.getStoredToken();
-      expect(retrievedToken).toBe(token);
-    });
-
-    it('clears tokens on logout', () => {
-      localStorage.setItem('auth_token', 'test-token');
-      localStorage.setItem('refresh_token', 'test-refresh-token');
-      localStorage.setItem('user_data', JSON.stringify({ id: 1 }));
-
-      authAPI.logout();
-
-      expect(localStorage.getItem('auth_token')).toBeNull();
-      expect(localStorage.getItem('refresh_token')).toBeNull();
-      expect(localStorage.getItem('user_data')).toBeNull();
-    });
-  });
-
-  describe('user management', () => {
-    it('stores user data', () => {
-      const user = {
-        id: 1,
-        username: 'testuser',
-        email: 'test@example.com',
-        firstName: 'Test',
-        lastName: 'User',
-        displayName: 'Test User',
-        roles: ['subscriber'],
-        capabilities: {},
-        avatar: '',
-        registeredDate: '2023-01-01',
-      };
-
-      authAPI.storeUser(user);
-
-      const storedUser = authAPI.getStoredUser();
-      expect(storedUser).toEqual(user);
-    });
-
-    it('handles invalid stored user data', () => {
-      localStorage.setItem('user_data', 'invalid-json');
-
-      const user = authAPI.getStoredUser();
-      expect(user).toBeNull();
-    });
-  });
-
   describe('JWT token utilities', () => {
     it('decodes valid JWT token', () => {
       // Create a mock JWT token (header.payload.signature)
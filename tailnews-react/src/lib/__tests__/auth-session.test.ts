@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { AUTH_TOKEN_COOKIE, clearSessionCookies, getSessionToken, isSameOrigin, REFRESH_TOKEN_COOKIE, setSessionCookies } from '../auth-session';
+
+// Route responses aren't under test, and jsdom has no Request for next/server
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }));
+
+const mockFetch = global.fetch as jest.Mock;
+
+const jwt = (secondsLeft: number) => `header.${btoa(JSON.stringify({ exp: Math.floor(Date.now() / 1000) + secondsLeft }))}.signature`;
+
+// Stands in for `cookies()` and `response.cookies`
+const cookieStore = (values: Record<string, string> = {}) => {
+  const jar = new Map(Object.entries(values));
+  return {
+    jar,
+    options: new Map<string, Record<string, unknown>>(),
+    get(name: string) {
+      const value = jar.get(name);
+      return value === undefined ? undefined : { value };
+    },
+    set(name: string, value: string, options: Record<string, unknown>) {
+      jar.set(name, value);
+      this.options.set(name, options);
+    },
+    delete(name: string) {
+      jar.delete(name);
+    },
+  };
+};
+
+describe('auth-session', () => {
+  afterEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('keeps both tokens in httpOnly cookies', () => {
+    const cookies = cookieStore();
+    const token = jwt(3600);
+
+    setSessionCookies(cookies, { token, refreshToken: 'refresh', user: {} as never, expiresIn: 0 });
+
+    expect(cookies.jar.get(AUTH_TOKEN_COOKIE)).toBe(token);
+    expect(cookies.jar.get(REFRESH_TOKEN_COOKIE)).toBe('refresh');
+    expect(cookies.options.get(AUTH_TOKEN_COOKIE)).toMatchObject({ httpOnly: true, sameSite: 'lax', path: '/' });
+    expect(cookies.options.get(AUTH_TOKEN_COOKIE)?.maxAge).toBeGreaterThan(3500);
+
+    clearSessionCookies(cookies);
+    expect(cookies.jar.size).toBe(0);
+  });
+
+  it('uses the access token until it expires', async () => {
+    const token = jwt(3600);
+
+    expect(await getSessionToken(cookieStore({ [AUTH_TOKEN_COOKIE]: token }))).toEqual({ token });
+    expect(await getSessionToken(cookieStore())).toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('refreshes an expired access token', async () => {
+    const token = jwt(3600);
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      // Answers both the refresh and the validation of the new token
+      json: () => Promise.resolve({ token, refresh_token: 'next', data: { id: 1, name: 'Jane Doe' } }),
+    });
+
+    const session = await getSessionToken(cookieStore({ [AUTH_TOKEN_COOKIE]: jwt(-60), [REFRESH_TOKEN_COOKIE]: 'refresh' }));
+
+    expect(session?.token).toBe(token);
+    expect(session?.user?.displayName).toBe('Jane Doe');
+    expect(session?.refreshed).toMatchObject({ token, refreshToken: 'next' });
+  });
+
+  it('only accepts requests the browser marks as same-origin', () => {
+    const request = (headers: Record<string, string>) => ({ headers: new Headers({ Host: 'news.example.com', ...headers }) }) as unknown as NextRequest;
+
+    expect(isSameOrigin(request({ 'Sec-Fetch-Site': 'same-origin' }))).toBe(true);
+    expect(isSameOrigin(request({ 'Sec-Fetch-Site': 'cross-site', Origin: 'https://news.example.com' }))).toBe(false);
+    expect(isSameOrigin(request({ Origin: 'https://news.example.com' }))).toBe(true);
+    expect(isSameOrigin(request({ Origin: 'https://evil.example' }))).toBe(false);
+    expect(isSameOrigin(request({}))).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { findRouteRule, getAccess, getLoginHref, getSafeRedirect, matchesRoute } from '../authorization';
+import { User } from '@/types/auth';
+
+const user = (capabilities: Record<string, boolean>, roles: string[] = []): User => ({
+  id: 1,
+  username: 'jane',
+  email: 'jane@example.com',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  displayName: 'Jane Doe',
+  roles,
+  capabilities,
+  avatar: '',
+  registeredDate: '2024-01-01T00:00:00Z',
+});
+
+describe('authorization', () => {
+  it('matches route patterns by path segment', () => {
+    expect(matchesRoute('/dashboard/**', '/dashboard')).toBe(true);
+    expect(matchesRoute('/dashboard/**', '/dashboard/comments/')).toBe(true);
+    expect(matchesRoute('/dashboard/**', '/dashboards')).toBe(false);
+    expect(matchesRoute('/posts/*/edit', '/posts/hello/edit')).toBe(true);
+    expect(matchesRoute('/posts/*/edit', '/posts/a/b/edit')).toBe(false);
+  });
+
+  it('uses the first matching rule', () => {
+    expect(findRouteRule('/dashboard/comments')).toMatchObject({ capability: 'moderate_comments' });
+    expect(findRouteRule('/dashboard')).toMatchObject({ capability: 'edit_posts' });
+    expect(findRouteRule('/settings')).toEqual({ pattern: '/settings/**' });
+    expect(findRouteRule('/posts/hello-world')).toBeNull();
+  });
+
+  it('checks sign-in, capability and role', () => {
+    const rule = { capability: 'edit_posts' as const };
+
+    expect(getAccess(null, rule)).toBe('unauthenticated');
+    expect(getAccess(user({ read: true }), rule)).toBe('forbidden');
+    expect(getAccess(user({ edit_posts: true }), rule)).toBe('allowed');
+    expect(getAccess(user({ edit_posts: true }, ['author']), { ...rule, role: 'editor' })).toBe('forbidden');
+    expect(getAccess(user({}), {})).toBe('allowed');
+  });
+
+  it('only redirects to paths on this site after sign-in', () => {
+    expect(getSafeRedirect('/dashboard?status=spam')).toBe('/dashboard?status=spam');
+    expect(getSafeRedirect('//evil.example')).toBe('/');
+    expect(getSafeRedirect('/\\evil.example')).toBe('/');
+    expect(getSafeRedirect('https://evil.example')).toBe('/');
+    expect(getSafeRedirect(undefined)).toBe('/');
+
+    expect(getLoginHref('/dashboard?status=spam')).toBe('/login?redirectTo=%2Fdashboard%3Fstatus%3Dspam');
+    expect(getLoginHref('/')).toBe('/login');
+  });
+});
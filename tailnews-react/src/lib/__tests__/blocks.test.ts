@@ -0,0 +1,88 @@
+import { FREEFORM_BLOCK, getBlockHtml, normalizeBlocks, parseBlocks } from '../blocks';
+import { WORDPRESS_URL } from '../wordpress-client';
+
+const imageUrl = `${WORDPRESS_URL}/wp-content/uploads/2024/05/photo.jpg`;
+
+describe('blocks', () => {
+  describe('parseBlocks', () => {
+    it('builds the block tree from raw content', () => {
+      const [columns] = parseBlocks([
+        '<!-- wp:columns {"verticalAlignment":"center"} --><div class="wp-block-columns">',
+        '<!-- wp:column --><div class="wp-block-column"><!-- wp:paragraph --><p>One</p><!-- /wp:paragraph --></div><!-- /wp:column -->',
+        '</div><!-- /wp:columns -->',
+      ].join(''));
+
+      expect(columns.blockName).toBe('core/columns');
+      expect(columns.attrs).toEqual({ verticalAlignment: 'center' });
+      expect(columns.innerBlocks[0].blockName).toBe('core/column');
+      expect(columns.innerBlocks[0].innerBlocks[0].innerHTML).toBe('<p>One</p>');
+      expect(columns.innerContent).toEqual(['<div class="wp-block-columns">', null, '</div>']);
+    });
+
+    it('keeps HTML outside blocks as freeform and parses self-closing blocks', () => {
+      const blocks = parseBlocks('<p>Classic</p><!-- wp:acme/chart {"id":7} /-->');
+
+      expect(blocks.map(block => block.blockName)).toEqual([null, 'acme/chart']);
+      expect(blocks[1].attrs).toEqual({ id: 7 });
+    });
+
+    it('ignores invalid attributes and stray closers', () => {
+      const blocks = parseBlocks('<!-- /wp:quote --><!-- wp:quote {"broken": } --><blockquote>Hi</blockquote>');
+
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].attrs).toEqual({});
+      expect(blocks[0].innerHTML).toBe('<blockquote>Hi</blockquote>');
+    });
+  });
+
+  it('rebuilds block markup with inner blocks in place', () => {
+    const [group] = parseBlocks('<!-- wp:group --><div><!-- wp:paragraph --><p>A</p><!-- /wp:paragraph --></div><!-- /wp:group -->');
+
+    expect(getBlockHtml(group)).toBe('<div><p>A</p></div>');
+    expect(getBlockHtml({ ...group, rendered: '<div>Rendered</div>' })).toBe('<div>Rendered</div>');
+  });
+
+  describe('normalizeBlocks', () => {
+    it('sanitises block markup and names freeform content', () => {
+      const [block] = normalizeBlocks(parseBlocks('<p onclick="x()">Hello</p><script>alert(1)</script>'));
+
+      expect(block.name).toBe(FREEFORM_BLOCK);
+      expect(block.html).toBe('<p>Hello</p>');
+    });
+
+    it('reads image details from the markup', () => {
+      const [image] = normalizeBlocks(parseBlocks(
+        `<!-- wp:image {"id":5} --><figure class="wp-block-image"><a href="${WORDPRESS_URL}/2024/05/21/story/"><img src="${imageUrl}" alt="Harbour" width="1200" height="800"/></a><figcaption>Dawn <em>light</em></figcaption></figure><!-- /wp:image -->`,
+      ));
+
+      expect(image.attributes).toMatchObject({
+        id: 5,
+        url: imageUrl,
+        alt: 'Harbour',
+        width: 1200,
+        height: 800,
+        caption: 'Dawn <em>light</em>',
+        href: '/posts/story',
+      });
+    });
+
+    it('reads pullquote text from the sanitised markup', () => {
+      const [pullquote] = normalizeBlocks(parseBlocks(
+        '<!-- wp:pullquote --><figure class="wp-block-pullquote"><blockquote><p>Big <img src=x onerror="alert(1)">news</p><cite>Editor</cite></blockquote></figure><!-- /wp:pullquote -->',
+      ));
+
+      expect(pullquote.attributes.value).toBe('Big <img src="x">news');
+      expect(pullquote.attributes.citation).toBe('Editor');
+    });
+
+    it('sanitises attributes from the block comment', () => {
+      const [image, gallery] = normalizeBlocks(parseBlocks([
+        '<!-- wp:image {"url":"javascript:alert(1)","caption":"<img src=x onerror=alert(1)>","href":"javascript:alert(1)"} --><figure></figure><!-- /wp:image -->',
+        `<!-- wp:gallery {"images":[{"url":"${imageUrl}","caption":"<script>alert(1)</script>Boats"}]} --><figure><!-- wp:image --><figure><img src="${imageUrl}"/></figure><!-- /wp:image --></figure><!-- /wp:gallery -->`,
+      ].join('')));
+
+      expect(image.attributes).toMatchObject({ url: undefined, caption: '<img src="x">', href: undefined });
+      expect(gallery.attributes.images).toEqual([{ url: imageUrl, caption: 'Boats' }]);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { CACHE_TAGS, cacheTags, getEntityCacheTags } from '../cache-tags';
+
+describe('cache-tags', () => {
+  it('builds deterministic entity tags', () => {
+    expect(cacheTags.postSlug('breaking-story')).toBe('post-slug:breaking-story');
+    expect(cacheTags.category('news')).toBe('category:news');
+    expect(cacheTags.tag('elections')).toBe('tag:elections');
+    expect(cacheTags.author('jane')).toBe('author:jane');
+  });
+
+  it('purges a post, its lists, terms and author', () => {
+    const tags = getEntityCacheTags({
+      type: 'post',
+      id: 123,
+      slug: 'breaking-story',
+      categories: ['news'],
+      tags: ['elections'],
+      author: { id: 7, slug: 'jane' },
+    });
+
+    expect(tags).toEqual([
+      'post-slug:breaking-story',
+      CACHE_TAGS.postsList,
+      CACHE_TAGS.homepage,
+      CACHE_TAGS.sitemap,
+      'category:news',
+      'tag:elections',
+      'author:jane',
+    ]);
+  });
+
+  it('purges every post response when a term changes', () => {
+    expect(getEntityCacheTags({ type: 'category', id: 2, slug: 'news' })).toEqual(
+      expect.arrayContaining(['category:news', CACHE_TAGS.categories, CACHE_TAGS.posts, CACHE_TAGS.homepage])
+    );
+    expect(getEntityCacheTags({ type: 'tag', id: 4, slug: 'elections' })).toEqual(
+      expect.arrayContaining(['tag:elections', CACHE_TAGS.tags, CACHE_TAGS.posts])
+    );
+  });
+
+  it('purges author and page collections', () => {
+    expect(getEntityCacheTags({ type: 'author', id: 7, slug: 'jane' })).toEqual(['author:jane', CACHE_TAGS.authors, CACHE_TAGS.sitemap]);
+    expect(getEntityCacheTags({ type: 'page', id: 9, slug: 'about' })).toEqual([CACHE_TAGS.pages, CACHE_TAGS.sitemap]);
+  });
+});
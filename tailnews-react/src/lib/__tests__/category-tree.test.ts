@@ -0,0 +1,49 @@
+import { buildCategoryTree, findCategoryNode, getCategoryAncestors } from '../category-tree';
+import { Category } from '@/types/api';
+
+const categories: Category[] = [
+  { id: 1, name: 'World', slug: 'world', count: 4 },
+  { id: 2, name: 'Europe', slug: 'europe', count: 3, parent: 1 },
+  { id: 3, name: 'Asia', slug: 'asia', count: 2, parent: 1 },
+  { id: 4, name: 'France', slug: 'france', count: 5, parent: 2 },
+  { id: 5, name: 'Business', slug: 'business', count: 1 },
+  { id: 6, name: 'Orphan', slug: 'orphan', count: 1, parent: 99 },
+];
+
+describe('category-tree', () => {
+  it('nests categories under their parents in name order', () => {
+    const tree = buildCategoryTree(categories);
+
+    expect(tree.map(node => node.slug)).toEqual(['business', 'orphan', 'world']);
+    expect(findCategoryNode(tree, 1)?.children.map(node => node.slug)).toEqual(['asia', 'europe']);
+    expect(findCategoryNode(tree, 4)?.depth).toBe(2);
+  });
+
+  it('aggregates post counts from descendants', () => {
+    const tree = buildCategoryTree(categories);
+
+    expect(findCategoryNode(tree, 1)?.totalCount).toBe(14);
+    expect(findCategoryNode(tree, 2)?.totalCount).toBe(8);
+    expect(findCategoryNode(tree, 4)?.totalCount).toBe(5);
+  });
+
+  it('survives parent cycles', () => {
+    const tree = buildCategoryTree([
+      { id: 1, name: 'A', slug: 'a', count: 1, parent: 2 },
+      { id: 2, name: 'B', slug: 'b', count: 1, parent: 1 },
+    ]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].totalCount).toBe(2);
+    expect(getCategoryAncestors([
+      { id: 1, name: 'A', slug: 'a', count: 1, parent: 2 },
+      { id: 2, name: 'B', slug: 'b', count: 1, parent: 1 },
+    ], 1).map(category => category.id)).toEqual([2]);
+  });
+
+  it('lists ancestors from root to direct parent', () => {
+    expect(getCategoryAncestors(categories, 4).map(category => category.slug)).toEqual(['world', 'europe']);
+    expect(getCategoryAncestors(categories, 1)).toEqual([]);
+    expect(getCategoryAncestors(categories, 6)).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+import { createFormToken, getClientKey, guardCommentSubmission, readFormToken, recordClientSubmission, resetCommentSubmissions } from '../comment-guard';
+import { COMMENT_RATE_LIMIT, MIN_COMMENT_FILL_TIME } from '../comments';
+
+const now = Date.parse('2024-05-21T10:00:00Z');
+
+describe('comment-guard', () => {
+  afterEach(() => {
+    resetCommentSubmissions();
+  });
+
+  it('only accepts form tokens it signed', () => {
+    const token = createFormToken(now);
+
+    expect(readFormToken(token, now + 5000)).toBe(now);
+    expect(readFormToken(`${(now - 60000).toString(36)}.${token.split('.')[1]}`, now)).toBeNull();
+    expect(readFormToken(token, now + 2 * 24 * 60 * 60 * 1000)).toBeNull();
+    expect(readFormToken(undefined, now)).toBeNull();
+  });
+
+  it('rejects submissions without a token, with the honeypot filled or sent too quickly', () => {
+    const token = createFormToken(now);
+
+    expect(guardCommentSubmission('1.2.3.4', {}, now + 10000)).toMatchObject({ allowed: false, reason: 'spam' });
+    expect(guardCommentSubmission('1.2.3.4', { token, honeypot: 'Acme' }, now + 10000)).toMatchObject({ allowed: false, reason: 'spam' });
+    expect(guardCommentSubmission('1.2.3.4', { token }, now + MIN_COMMENT_FILL_TIME - 1)).toMatchObject({ allowed: false, reason: 'spam' });
+    expect(guardCommentSubmission('1.2.3.4', { token }, now + MIN_COMMENT_FILL_TIME)).toEqual({ allowed: true });
+  });
+
+  it('rate limits each client', () => {
+    const token = createFormToken(now);
+    const later = now + 10000;
+
+    for (let index = 0; index < COMMENT_RATE_LIMIT.max; index++) recordClientSubmission('1.2.3.4', later);
+
+    expect(guardCommentSubmission('1.2.3.4', { token }, later)).toMatchObject({ allowed: false, reason: 'rate_limited' });
+    expect(guardCommentSubmission('5.6.7.8', { token }, later)).toEqual({ allowed: true });
+    expect(guardCommentSubmission('1.2.3.4', { token }, later + COMMENT_RATE_LIMIT.windowMs)).toEqual({ allowed: true });
+  });
+
+  it('keys clients by the address the trusted proxy saw', () => {
+    expect(getClientKey(new Headers({ 'X-Forwarded-For': '1.2.3.4' }))).toBe('1.2.3.4');
+    expect(getClientKey(new Headers({ 'X-Forwarded-For': '9.9.9.9, 1.2.3.4, 10.0.0.1' }), 2)).toBe('1.2.3.4');
+    expect(getClientKey(new Headers({ 'X-Real-IP': '1.2.3.4' }))).toBe('1.2.3.4');
+    expect(getClientKey(new Headers())).toBe('unknown');
+  });
+
+  it('ignores forwarded addresses made up by the client', () => {
+    const token = createFormToken(now);
+    const later = now + 10000;
+
+    // The proxy appends the real address after whatever the client sent
+    for (let index = 0; index < COMMENT_RATE_LIMIT.max; index++) {
+      recordClientSubmission(getClientKey(new Headers({ 'X-Forwarded-For': `10.0.0.${index}, 1.2.3.4` })), later);
+    }
+
+    const spoofed = getClientKey(new Headers({ 'X-Forwarded-For': '10.0.0.99, 1.2.3.4' }));
+    expect(guardCommentSubmission(spoofed, { token }, later)).toMatchObject({ allowed: false, reason: 'rate_limited' });
+  });
+});
@@ -0,0 +1,72 @@
+import { Comment } from '@/types/api';
+import {
+  buildCommentTree,
+  checkCommentGuard,
+  COMMENT_RATE_LIMIT,
+  createPendingComment,
+  insertComment,
+  MIN_COMMENT_FILL_TIME,
+  validateCommentInput,
+} from '../comments';
+
+const comment = (id: number, parentId: number = 0): Comment => ({
+  id,
+  postId: 1,
+  parentId,
+  author: { name: `Reader ${id}` },
+  date: '2024-05-21T10:00:00Z',
+  content: `<p>Comment ${id}</p>`,
+  status: 'approved',
+  replies: [],
+});
+
+describe('comments', () => {
+  it('nests replies under their parents', () => {
+    const threads = buildCommentTree([comment(1), comment(2), comment(3, 1), comment(4, 3), comment(5, 99)]);
+
+    expect(threads.map(thread => thread.id)).toEqual([1, 2, 5]);
+    expect(threads[0].replies[0].id).toBe(3);
+    expect(threads[0].replies[0].replies[0].id).toBe(4);
+  });
+
+  it('inserts comments into the thread they reply to', () => {
+    const threads = buildCommentTree([comment(1), comment(2, 1)]);
+
+    expect(insertComment(threads, comment(3)).map(thread => thread.id)).toEqual([1, 3]);
+    expect(insertComment(threads, comment(4, 2))[0].replies[0].replies.map(reply => reply.id)).toEqual([4]);
+    expect(threads[0].replies[0].replies).toHaveLength(0);
+  });
+
+  it('creates escaped pending comments with temporary IDs', () => {
+    const first = createPendingComment({ post: 1, parent: 3, content: '<b>Hi</b>\nthere\n\nBye' }, { name: 'Jane' });
+    const second = createPendingComment({ post: 1, content: 'Again' }, { name: 'Jane' });
+
+    expect(first).toMatchObject({ parentId: 3, pending: true, content: '<p>&lt;b&gt;Hi&lt;/b&gt;<br>there</p><p>Bye</p>' });
+    expect(first.id).toBeLessThan(0);
+    expect(second.id).not.toBe(first.id);
+  });
+
+  it('requires a name and email from anonymous commenters', () => {
+    expect(validateCommentInput({ post: 1, content: ' ' }, false)).toBe('Please write a comment.');
+    expect(validateCommentInput({ post: 1, content: 'Hi' }, false)).toBeNull();
+    expect(validateCommentInput({ post: 1, content: 'Hi', authorName: 'Jane', authorEmail: 'jane' }, true)).toBe('Please enter a valid email address.');
+    expect(validateCommentInput({ post: 1, content: 'Hi', authorName: 'Jane', authorEmail: 'jane@example.com' }, true)).toBeNull();
+  });
+
+  describe('checkCommentGuard', () => {
+    const now = 1_700_000_000_000;
+
+    it('rejects filled honeypots and instant submissions', () => {
+      expect(checkCommentGuard({ honeypot: 'Acme' }, [], now)).toMatchObject({ allowed: false, reason: 'spam' });
+      expect(checkCommentGuard({ startedAt: now - 500 }, [], now)).toMatchObject({ allowed: false, reason: 'spam' });
+      expect(checkCommentGuard({ startedAt: now - MIN_COMMENT_FILL_TIME }, [], now)).toEqual({ allowed: true });
+    });
+
+    it('limits submissions within the window', () => {
+      const history = [now - 60_000, now - 30_000, now - 10_000];
+
+      expect(checkCommentGuard({}, history, now)).toMatchObject({ allowed: false, reason: 'rate_limited', message: expect.stringContaining('9 minutes') });
+      expect(checkCommentGuard({}, [now - COMMENT_RATE_LIMIT.windowMs, ...history.slice(1)], now)).toEqual({ allowed: true });
+    });
+  });
+});
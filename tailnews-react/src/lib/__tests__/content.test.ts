@@ -0,0 +1,86 @@
+import { addHeadingAnchors, applyHeadingAnchors, getOptimizedImageUrl, getPermalinkPostSlug, getReadingTime, processContent, slugify, toSitePath } from '../content';
+import { WORDPRESS_URL } from '../wordpress-client';
+
+describe('content', () => {
+  describe('toSitePath', () => {
+    it('maps WordPress permalinks to routes', () => {
+      expect(toSitePath('/2024/05/21/hello-world/')).toBe('/posts/hello-world');
+      expect(toSitePath('/2024/05/')).toBe('/archive/2024/05');
+      expect(toSitePath('/category/news/local/')).toBe('/category/local');
+      expect(toSitePath('/tag/react/page/2/')).toBe('/tag/react?page=2');
+      expect(toSitePath('/author/jane/')).toBe('/author/jane');
+      expect(toSitePath('/about/team/')).toBe('/about/team');
+    });
+
+    it('leaves post-name permalinks to the catch-all route', () => {
+      expect(toSitePath('/my-post/')).toBe('/my-post');
+      expect(getPermalinkPostSlug(['my-post'])).toBe('my-post');
+      expect(getPermalinkPostSlug(['about', 'team'])).toBeNull();
+      expect(getPermalinkPostSlug(['2024'])).toBeNull();
+      expect(getPermalinkPostSlug(['favicon.ico'])).toBeNull();
+    });
+  });
+
+  it('rewrites internal links and keeps WordPress-only paths absolute', () => {
+    expect(processContent(`<a href="${WORDPRESS_URL}/category/news/?ref=x#top">News</a>`)).toBe('<a href="/category/news?ref=x#top">News</a>');
+    expect(processContent(`<a href="${WORDPRESS_URL}/wp-content/uploads/file.pdf">PDF</a>`)).toBe(`<a href="${WORDPRESS_URL}/wp-content/uploads/file.pdf">PDF</a>`);
+    expect(processContent('<a href="#section">Jump</a>')).toBe('<a href="#section">Jump</a>');
+  });
+
+  it('adds noopener to external links', () => {
+    expect(processContent('<a href="https://example.org" rel="nofollow" target="_blank">Out</a>'))
+      .toBe('<a href="https://example.org" rel="nofollow noopener" target="_blank">Out</a>');
+  });
+
+  it('serves upload images through the image optimizer', () => {
+    const src = `${WORDPRESS_URL}/wp-content/uploads/2024/05/photo.jpg`;
+    const html = processContent(`<img src="${src}" srcset="${src} 1024w" width="800" height="600" alt="Photo">`);
+
+    expect(html).toContain(`src="${getOptimizedImageUrl(src, 750).replace(/&/g, '&amp;')}"`);
+    expect(html).toContain('640w, ');
+    expect(html).not.toContain('828w');
+    expect(html).toContain('loading="lazy"');
+    expect(processContent('<img src="https://cdn.example.org/a.jpg">')).toBe('<img src="https://cdn.example.org/a.jpg">');
+  });
+
+  it('lazy-loads allowed embeds and removes the rest', () => {
+    expect(processContent('<iframe src="https://www.youtube.com/embed/abc" width="560"></iframe>'))
+      .toBe('<iframe src="https://www.youtube.com/embed/abc" width="560" loading="lazy"></iframe>');
+    expect(processContent('<p><iframe src="https://evil.example/"></iframe></p>')).toBe('<p></p>');
+  });
+
+  describe('heading anchors', () => {
+    it('assigns unique IDs to h2 and h3 headings', () => {
+      const { html, headings } = addHeadingAnchors('<h2>Why it matters</h2><h3 class="x">Café &amp; bar</h3><h4>Skip</h4><h2>Why it matters</h2><h2> </h2>');
+
+      expect(headings).toEqual([
+        { id: 'why-it-matters', text: 'Why it matters', level: 2 },
+        { id: 'cafe-bar', text: 'Café & bar', level: 3 },
+        { id: 'why-it-matters-2', text: 'Why it matters', level: 2 },
+      ]);
+      expect(html).toBe('<h2 id="why-it-matters">Why it matters</h2><h3 id="cafe-bar" class="x">Café &amp; bar</h3><h4>Skip</h4><h2 id="why-it-matters-2">Why it matters</h2><h2> </h2>');
+    });
+
+    it('keeps IDs set in the editor', () => {
+      const { headings } = addHeadingAnchors(processContent('<h2 id="intro">Intro</h2><h2>Intro</h2>'));
+      expect(headings.map(heading => heading.id)).toEqual(['intro', 'intro-2']);
+    });
+
+    it('applies the IDs to another rendering of the content', () => {
+      const { headings } = addHeadingAnchors('<h2>First <em>part</em></h2>');
+      expect(applyHeadingAnchors('<h2 class="wp-block-heading">First <em>part</em></h2>', headings))
+        .toBe('<h2 id="first-part" class="wp-block-heading">First <em>part</em></h2>');
+    });
+
+    it('falls back to a generic ID for headings without letters', () => {
+      expect(slugify('¿¡!')).toBe('');
+      expect(addHeadingAnchors('<h2>!!!</h2>').headings[0].id).toBe('section');
+    });
+  });
+
+  it('estimates reading time', () => {
+    expect(getReadingTime('<p>Short</p>')).toBe(1);
+    expect(getReadingTime(`<p>${'word '.repeat(450)}</p><p>${'word '.repeat(150)}</p>`)).toBe(3);
+    expect(getReadingTime('<p>one</p><p>two</p>')).toBe(1);
+  });
+});
@@ -0,0 +1,113 @@
+import { buildAtomFeed, buildJsonFeed, buildRssFeed, feedResponse, getFeedAlternates, getFeedUrl, getImageType, FeedSource } from '../feeds';
+import { SITE_URL } from '../site';
+
+const source: FeedSource = {
+  title: 'News | Tailnews React',
+  description: 'Latest articles in the News category.',
+  path: '/category/news',
+  posts: [
+    {
+      id: 1,
+      title: 'Markets &amp; money',
+      excerpt: 'Stocks rallied&hellip;',
+      content: '<p>Stocks rallied on <strong>Friday</strong>]]></p>',
+      slug: 'markets-money',
+      date: '2024-03-15T10:00:00',
+      published: '2024-03-15T08:00:00Z',
+      modified: '2024-03-15T09:30:00Z',
+      featuredImage: { url: 'https://cdn.test/markets.png', alt: 'Chart' },
+      category: { id: 2, name: 'News', slug: 'news' },
+      author: { id: 7, name: 'Jane Doe', slug: 'jane' },
+      tags: [{ id: 4, name: 'Economy', slug: 'economy' }],
+    },
+  ],
+};
+
+describe('feeds', () => {
+  it('builds feed URLs and alternate links', () => {
+    expect(getFeedUrl('/', 'rss')).toMatch(/\/feed\.xml$/);
+    expect(getFeedUrl('/category/news', 'atom')).toMatch(/\/category\/news\/atom\.xml$/);
+
+    const alternates = getFeedAlternates('/category/news', 'News');
+    expect(alternates?.['application/rss+xml']).toEqual([
+      expect.objectContaining({ url: getFeedUrl('/', 'rss') }),
+      expect.objectContaining({ url: getFeedUrl('/category/news', 'rss'), title: expect.stringContaining('News') }),
+    ]);
+    expect(Object.keys(alternates || {})).toEqual(['application/rss+xml', 'application/atom+xml', 'application/feed+json']);
+  });
+
+  it('guesses image types from the extension', () => {
+    expect(getImageType('https://cdn.test/a.PNG?w=300')).toBe('image/png');
+    expect(getImageType('https://cdn.test/image')).toBe('image/jpeg');
+  });
+
+  it('builds RSS with enclosures, in excerpt or full mode', () => {
+    const excerpt = buildRssFeed(source, 'excerpt');
+
+    expect(excerpt).toContain('<title>Markets &amp; money</title>');
+    expect(excerpt).toContain('<pubDate>Fri, 15 Mar 2024 08:00:00 GMT</pubDate>');
+    expect(excerpt).toContain('<dc:creator>Jane Doe</dc:creator>');
+    expect(excerpt).toContain('<category>Economy</category>');
+    expect(excerpt).toContain('<description><![CDATA[Stocks rallied…]]></description>');
+    expect(excerpt).toContain('<enclosure url="https://cdn.test/markets.png" length="0" type="image/png" />');
+    expect(excerpt).not.toContain('content:encoded>');
+
+    const full = buildRssFeed(source, 'full');
+    expect(full).toContain('<content:encoded><![CDATA[<p>Stocks rallied on <strong>Friday</strong>]]]]><![CDATA[></p>]]></content:encoded>');
+  });
+
+  it('builds Atom entries', () => {
+    const atom = buildAtomFeed(source, 'full');
+
+    expect(atom).toContain('<published>2024-03-15T08:00:00.000Z</published>');
+    expect(atom).toContain('<updated>2024-03-15T09:30:00.000Z</updated>');
+    expect(atom).toContain('<content type="html">&lt;p&gt;Stocks rallied');
+    expect(atom).toContain('<link rel="enclosure" type="image/png" href="https://cdn.test/markets.png" />');
+  });
+
+  it('makes site-relative content URLs absolute', () => {
+    const post = { ...source.posts[0], content: '<a href="/posts/other">Other</a><img src="/_next/image?url=a&amp;w=640" srcset="/_next/image?url=a 640w, /_next/image?url=b 750w"><a href="//cdn.test/x">x</a>' };
+    const json = JSON.parse(buildJsonFeed({ ...source, posts: [post] }, 'full'));
+
+    expect(json.items[0].content_html).toBe(
+      `<a href="${SITE_URL}/posts/other">Other</a>` +
+      `<img src="${SITE_URL}/_next/image?url=a&amp;w=640" srcset="${SITE_URL}/_next/image?url=a 640w, ${SITE_URL}/_next/image?url=b 750w">` +
+      '<a href="//cdn.test/x">x</a>'
+    );
+  });
+
+  it('builds JSON Feed 1.1', () => {
+    const feed = JSON.parse(buildJsonFeed(source, 'excerpt'));
+
+    expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+    expect(feed.feed_url).toMatch(/\/category\/news\/feed\.json$/);
+    expect(feed.items[0]).toMatchObject({
+      title: 'Markets & money',
+      content_text: 'Stocks rallied…',
+      date_published: '2024-03-15T08:00:00.000Z',
+      authors: [{ name: 'Jane Doe' }],
+      attachments: [{ url: 'https://cdn.test/markets.png', mime_type: 'image/png' }],
+    });
+    expect(feed.items[0].content_html).toBeUndefined();
+  });
+
+  it('falls back to the modified date and skips posts without any valid date', () => {
+    const undated = { ...source.posts[0], id: 2, slug: 'undated', date: '', published: '', modified: '' };
+    const modifiedOnly = { ...source.posts[0], id: 3, slug: 'modified-only', date: '', published: undefined };
+    const feed = { ...source, posts: [undated, modifiedOnly] };
+
+    const atom = buildAtomFeed(feed);
+    expect(atom).not.toContain('/posts/undated');
+    expect(atom).toContain('<published>2024-03-15T09:30:00.000Z</published>');
+
+    const json = JSON.parse(buildJsonFeed(feed));
+    expect(json.items.map((item: { url: string }) => item.url)).toEqual([expect.stringMatching(/\/posts\/modified-only$/)]);
+    expect(buildRssFeed(feed)).not.toContain('Invalid Date');
+  });
+
+  it('responds with the feed content type or 404', async () => {
+    const response = feedResponse('atom', source);
+    expect(response.headers.get('Content-Type')).toBe('application/atom+xml; charset=utf-8');
+    expect(feedResponse('rss', null).status).toBe(404);
+  });
+});
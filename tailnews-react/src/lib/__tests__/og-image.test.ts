@@ -0,0 +1,43 @@
+import { getCategoryColor, getOgImageVersion, loadOgImage } from '../og-image';
+
+const mockFetch = global.fetch as jest.Mock;
+
+describe('og-image', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('gives each category a stable colour and falls back to the brand red', () => {
+    expect(getCategoryColor('sports')).toBe(getCategoryColor('sports'));
+    expect(getCategoryColor('sports')).toMatch(/^#[0-9a-f]{6}$/);
+    expect(getCategoryColor()).toBe('#dc2626');
+  });
+
+  it('versions images by modified time', () => {
+    expect(getOgImageVersion('2024-03-01T10:00:00Z')).toBe(new Date('2024-03-01T10:00:00Z').getTime().toString(36));
+    expect(getOgImageVersion('2024-03-01T10:00:00Z')).not.toBe(getOgImageVersion('2024-03-01T10:05:00Z'));
+    expect(getOgImageVersion()).toBe('default');
+    expect(getOgImageVersion('not a date')).toBe('default');
+  });
+
+  it('inlines supported images as data URLs', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      headers: new Headers({ 'Content-Type': 'image/png' }),
+      arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer,
+    });
+
+    await expect(loadOgImage('https://example.com/a.png')).resolves.toBe('data:image/png;base64,AQID');
+  });
+
+  it('skips unsupported, missing and unreachable images', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, headers: new Headers({ 'Content-Type': 'image/webp' }) });
+    await expect(loadOgImage('https://example.com/a.webp')).resolves.toBeNull();
+
+    mockFetch.mockRejectedValueOnce(new Error('offline'));
+    await expect(loadOgImage('https://example.com/a.png')).resolves.toBeNull();
+
+    await expect(loadOgImage(undefined)).resolves.toBeNull();
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,82 @@
+import { collectPages, paginate } from '../paginate';
+import { WPTransport } from '../wordpress-client';
+import { WordPressAPIError } from '../wordpress-errors';
+import { API_ERROR_CODES } from '@/types/api';
+
+// Fake collection of `total` items served `per_page` at a time
+function createTransport(total: number) {
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const request = jest.fn(async (endpoint: string) => {
+    const query = new URLSearchParams(endpoint.split('?')[1]);
+    const perPage = parseInt(query.get('per_page') || '10', 10);
+    const page = parseInt(query.get('page') || '1', 10);
+    const totalPages = Math.ceil(total / perPage);
+
+    inFlight += 1;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    inFlight -= 1;
+
+    if (page > totalPages) {
+      return {
+        data: null,
+        error: new WordPressAPIError('Invalid page', API_ERROR_CODES.BAD_REQUEST, 400, 'rest_post_invalid_page_number'),
+      };
+    }
+
+    const start = (page - 1) * perPage;
+    const data = Array.from({ length: Math.min(perPage, total - start) }, (_, index) => ({ id: start + index + 1 }));
+    return { data, error: null, totalPages, total };
+  });
+
+  return { transport: { request } as unknown as WPTransport, request, getMaxInFlight: () => maxInFlight };
+}
+
+describe('paginate', () => {
+  it('walks every page in order', async () => {
+    const { transport, request } = createTransport(25);
+
+    const items = await collectPages<{ id: number }>(transport, '/posts?_fields=id', { perPage: 10 });
+
+    expect(items.map(item => item.id)).toEqual(Array.from({ length: 25 }, (_, index) => index + 1));
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(request.mock.calls[0][0]).toBe('/posts?_fields=id&per_page=10&page=1');
+  });
+
+  it('bounds concurrent requests', async () => {
+    const { transport, getMaxInFlight } = createTransport(100);
+
+    const pages: number[] = [];
+    for await (const page of paginate<{ id: number }>(transport, '/posts', { perPage: 5, concurrency: 3 })) {
+      pages.push(page.length);
+    }
+
+    expect(pages).toHaveLength(20);
+    expect(getMaxInFlight()).toBe(3);
+  });
+
+  it('fetches a bounded page range', async () => {
+    const { transport } = createTransport(100);
+
+    const items = await collectPages<{ id: number }>(transport, '/posts', { perPage: 10, startPage: 3, maxPages: 2 });
+
+    expect(items.map(item => item.id)).toEqual(Array.from({ length: 20 }, (_, index) => index + 21));
+  });
+
+  it('returns nothing for a range past the end', async () => {
+    const { transport } = createTransport(10);
+
+    await expect(collectPages(transport, '/posts', { perPage: 10, startPage: 5 })).resolves.toEqual([]);
+  });
+
+  it('throws when a page fails', async () => {
+    const error = new WordPressAPIError('Server error', API_ERROR_CODES.SERVER_ERROR, 500);
+    const request = jest.fn()
+      .mockResolvedValueOnce({ data: [{ id: 1 }], error: null, totalPages: 2 })
+      .mockResolvedValueOnce({ data: null, error });
+
+    await expect(collectPages({ request } as unknown as WPTransport, '/posts')).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,96 @@
+import { applyAutosave, getPreviewPost } from '../preview';
+import { WordPressPost, WordPressRevision } from '@/types/wordpress';
+
+const mockFetch = global.fetch as jest.Mock;
+
+const jsonResponse = (body: unknown, status: number = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText: status === 200 ? 'OK' : 'Error',
+  headers: new Headers(),
+  json: () => Promise.resolve(body),
+});
+
+const post = {
+  id: 12,
+  slug: 'draft-story',
+  date: '2024-03-01T10:00:00',
+  date_gmt: '2024-03-01T10:00:00',
+  modified: '2024-03-01T10:00:00',
+  modified_gmt: '2024-03-01T10:00:00',
+  status: 'draft',
+  type: 'post',
+  link: 'https://wp.test/?p=12',
+  title: { rendered: 'Saved title' },
+  content: { rendered: '<p>Saved</p>', protected: false },
+  excerpt: { rendered: '<p>Saved excerpt</p>', protected: false },
+  author: 1,
+  featured_media: 0,
+  comment_status: 'open',
+  ping_status: 'open',
+  sticky: false,
+  template: '',
+  format: 'standard',
+  meta: {},
+  categories: [],
+  tags: [],
+  _links: {},
+} as unknown as WordPressPost;
+
+const autosave = (modified_gmt: string): WordPressRevision => ({
+  id: 99,
+  author: 1,
+  date: modified_gmt,
+  date_gmt: modified_gmt,
+  modified: modified_gmt,
+  modified_gmt,
+  parent: 12,
+  slug: '12-autosave-v1',
+  title: { rendered: 'Autosaved title' },
+  content: { rendered: '<p>Autosaved</p>' },
+  excerpt: { rendered: '' },
+});
+
+describe('preview', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  describe('applyAutosave', () => {
+    it('overlays a newer autosave', () => {
+      const result = applyAutosave(post, [autosave('2024-03-01T09:00:00'), autosave('2024-03-01T11:00:00')]);
+
+      expect(result.isAutosave).toBe(true);
+      expect(result.post.title.rendered).toBe('Autosaved title');
+      expect(result.post.modified_gmt).toBe('2024-03-01T11:00:00');
+      expect(result.post.status).toBe('draft');
+    });
+
+    it('keeps the stored post when autosaves are older', () => {
+      expect(applyAutosave(post, [autosave('2024-03-01T09:00:00')])).toEqual({ post, isAutosave: false });
+      expect(applyAutosave(post, [])).toEqual({ post, isAutosave: false });
+    });
+  });
+
+  describe('getPreviewPost', () => {
+    it('fetches the post and autosaves with the editor token, bypassing caches', async () => {
+      mockFetch.mockImplementation((url: string) => Promise.resolve(
+        jsonResponse(url.includes('/autosaves') ? [autosave('2024-03-01T11:00:00')] : post)
+      ));
+
+      const preview = await getPreviewPost(12, 'editor-token');
+
+      expect(preview).toMatchObject({ status: 'draft', isAutosave: true, post: { id: 12, title: 'Autosaved title' } });
+      mockFetch.mock.calls.forEach(([, init]) => {
+        expect(init.headers.Authorization).toBe('Bearer editor-token');
+        expect(init.cache).toBe('no-store');
+      });
+    });
+
+    it('resolves to null for unknown posts', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ code: 'rest_post_invalid_id', message: 'Invalid post ID.' }, 404));
+
+      await expect(getPreviewPost(404, 'editor-token')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { findRedirect, followRedirect, normalizePath, parseRedirects } from '../redirects';
+import { WORDPRESS_URL } from '../wordpress-client';
+import { notFound, permanentRedirect, redirect } from 'next/navigation';
+
+jest.mock('next/navigation', () => ({
+  notFound: jest.fn(),
+  permanentRedirect: jest.fn(),
+  redirect: jest.fn(),
+}));
+
+describe('redirects', () => {
+  const redirects = parseRedirects([
+    { from: '/old-post/', to: '/posts/new-post', status: 301 },
+    { from: 'moved', to: `${WORDPRESS_URL}/category/news/?ref=old`, status: '302' },
+    { from: '^/(\\d{4})/(\\d{2})/([^/]+)$', to: '/posts/$3', status: 301, regex: true },
+    { from: '/gone', to: '', status: 410 },
+    { to: '/missing-source' },
+  ]);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('drops invalid entries', () => {
+    expect(redirects).toHaveLength(4);
+    expect(parseRedirects(null)).toEqual([]);
+  });
+
+  it('normalises slashes, hosts and query strings', () => {
+    expect(normalizePath('old-post/')).toBe('/old-post');
+    expect(normalizePath('https://cms.example.com/old-post/?a=1')).toBe('/old-post');
+    expect(normalizePath('/')).toBe('/');
+  });
+
+  it('matches exact paths regardless of trailing slashes', () => {
+    expect(findRedirect(redirects, '/old-post')).toMatchObject({ to: '/posts/new-post', status: 301 });
+  });
+
+  it('rewrites WordPress targets to paths on this site', () => {
+    expect(findRedirect(redirects, '/moved/')).toMatchObject({ to: '/category/news/?ref=old', status: 302 });
+  });
+
+  it('expands regex captures', () => {
+    expect(findRedirect(redirects, '/2023/05/hello-world/')?.to).toBe('/posts/hello-world');
+    expect(findRedirect(redirects, '/posts/hello-world')).toBeNull();
+  });
+
+  it('follows permanent, temporary and removed redirects', () => {
+    followRedirect(findRedirect(redirects, '/old-post'));
+    expect(permanentRedirect).toHaveBeenCalledWith('/posts/new-post');
+
+    followRedirect(findRedirect(redirects, '/moved'));
+    expect(redirect).toHaveBeenCalledWith('/category/news/?ref=old');
+
+    followRedirect(findRedirect(redirects, '/gone'));
+    expect(notFound).toHaveBeenCalled();
+
+    jest.clearAllMocks();
+    followRedirect(null);
+    expect(redirect).not.toHaveBeenCalled();
+  });
+});
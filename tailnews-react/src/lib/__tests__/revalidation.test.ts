@@ -0,0 +1,132 @@
+import {
+  getRevalidationTags,
+  getRevalidationTargets,
+  parseRevalidationPayload,
+  signPayload,
+  verifySignature,
+} from '../revalidation';
+
+const secret = 'webhook-secret';
+
+const postPayload = {
+  action: 'save_post',
+  post: {
+    id: 123,
+    slug: 'breaking-story',
+    previous_slug: 'draft-story',
+    date: '2024-03-15T08:30:00',
+    author: { id: 7, slug: 'jane' },
+    categories: ['news', 'world'],
+    tags: ['elections'],
+  },
+};
+
+describe('revalidation', () => {
+  describe('verifySignature', () => {
+    const body = JSON.stringify(postPayload);
+
+    it('accepts a matching signature with or without the sha256= prefix', () => {
+      const signature = signPayload(body, secret);
+
+      expect(verifySignature(body, signature, secret)).toBe(true);
+      expect(verifySignature(body, `sha256=${signature}`, secret)).toBe(true);
+    });
+
+    it('rejects missing, malformed and mismatched signatures', () => {
+      expect(verifySignature(body, null, secret)).toBe(false);
+      expect(verifySignature(body, 'not-hex', secret)).toBe(false);
+      expect(verifySignature(body, signPayload(body, 'other-secret'), secret)).toBe(false);
+      expect(verifySignature(`${body} `, signPayload(body, secret), secret)).toBe(false);
+    });
+  });
+
+  describe('parseRevalidationPayload', () => {
+    it('accepts post and term payloads', () => {
+      expect(parseRevalidationPayload(postPayload).payload).toMatchObject({ action: 'save_post', post: { id: 123 } });
+      expect(parseRevalidationPayload({
+        action: 'delete_term',
+        term: { id: 4, taxonomy: 'post_tag', slug: 'elections' },
+      }).payload).toMatchObject({ action: 'delete_term' });
+    });
+
+    it('reports invalid payloads', () => {
+      const result = parseRevalidationPayload({ action: 'save_post', post: { slug: 'missing-id' } });
+
+      expect(result.payload).toBeNull();
+      expect(result.error).toContain('post.id');
+    });
+  });
+
+  describe('getRevalidationTargets', () => {
+    it('covers every page that renders the post', () => {
+      const { payload } = parseRevalidationPayload(postPayload);
+      const paths = getRevalidationTargets(payload!).map(target => target.path);
+
+      expect(paths).toEqual(expect.arrayContaining([
+        '/',
+        '/sitemap_index.xml',
+        '/news-sitemap.xml',
+        '/posts/breaking-story',
+        '/posts/draft-story',
+        '/category/news',
+        '/category/world',
+        '/categories',
+        '/tag/elections',
+        '/author/jane',
+        '/archive/2024',
+        '/archive/2024/03',
+      ]));
+    });
+
+    it('revalidates the original slug of a trashed post', () => {
+      const { payload } = parseRevalidationPayload({
+        action: 'trash_post',
+        post: { ...postPayload.post, slug: 'breaking-story__trashed', previous_slug: undefined },
+      });
+      const paths = getRevalidationTargets(payload!).map(target => target.path);
+
+      expect(paths).toContain('/posts/breaking-story');
+      expect(paths).not.toContain('/posts/breaking-story__trashed');
+      expect(getRevalidationTags(payload!)).toContain('post-slug:breaking-story');
+    });
+
+    it('revalidates the term archive and all articles on term changes', () => {
+      const { payload } = parseRevalidationPayload({
+        action: 'edit_term',
+        term: { id: 2, taxonomy: 'category', slug: 'politics', previous_slug: 'policy' },
+      });
+
+      expect(getRevalidationTargets(payload!)).toEqual(expect.arrayContaining([
+        { path: '/category/politics' },
+        { path: '/category/policy' },
+        { path: '/categories' },
+        { path: '/posts/[slug]', type: 'page' },
+      ]));
+    });
+  });
+
+  describe('getRevalidationTags', () => {
+    it('includes tags for the current and previous slug', () => {
+      const { payload } = parseRevalidationPayload(postPayload);
+
+      expect(getRevalidationTags(payload!)).toEqual(expect.arrayContaining([
+        'post-slug:breaking-story',
+        'post-slug:draft-story',
+        'posts-list',
+        'homepage',
+        'category:news',
+        'tag:elections',
+        'author:jane',
+      ]));
+    });
+
+    it('maps taxonomies to term tags', () => {
+      const { payload } = parseRevalidationPayload({
+        action: 'edit_term',
+        term: { id: 4, taxonomy: 'post_tag', slug: 'elections' },
+      });
+
+      expect(getRevalidationTags(payload!)).toEqual(expect.arrayContaining(['tag:elections', 'posts']));
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { isSafeUrl, sanitizeHtml } from '../sanitize-html';
+
+describe('sanitizeHtml', () => {
+  it('keeps allowed markup and attributes', () => {
+    const html = '<p class="lead">Hello <strong>world</strong> &amp; <a href="/posts/x" title="X">more</a></p>';
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+
+  it('removes scripts, styles and event handlers', () => {
+    expect(sanitizeHtml('<p onclick="steal()">Hi<script>alert(1)</script><style>p{}</style></p>')).toBe('<p>Hi</p>');
+    expect(sanitizeHtml('<img src="x.png" onerror="alert(1)" style="width:1px">')).toBe('<img src="x.png">');
+    expect(sanitizeHtml('<SCRIPT>alert(1)</SCRIPT >after')).toBe('after');
+    expect(sanitizeHtml('<svg><script>alert(1)</script></svg>text')).toBe('text');
+  });
+
+  it('drops dangerous URLs, however they are encoded', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href="java\nscript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href="&#106;avascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<img srcset="ok.png 1x, javascript:alert(1) 2x">')).toBe('<img>');
+    expect(isSafeUrl('mailto:editor@example.com')).toBe(true);
+    expect(isSafeUrl('data:text/html;base64,PHNjcmlwdD4=')).toBe(false);
+  });
+
+  it('unwraps unknown tags and drops comments', () => {
+    expect(sanitizeHtml('<font color="red">Red</font><!-- wp:paragraph --><center>Mid</center>')).toBe('RedMid');
+  });
+
+  it('escapes text that is not valid markup', () => {
+    expect(sanitizeHtml('1 < 2 and <a href="x" "broken>')).toBe('1 &lt; 2 and &lt;a href="x" "broken&gt;');
+  });
+
+  it('balances tags so content cannot close the surrounding layout', () => {
+    expect(sanitizeHtml('</div><p>Open <em>text')).toBe('<p>Open <em>text</em></p>');
+    expect(sanitizeHtml('<ul><li>One</ul>')).toBe('<ul><li>One</li></ul>');
+  });
+
+  it('escapes attribute values', () => {
+    expect(sanitizeHtml('<a title=\'a "quoted" &lt;b&gt;\'>x</a>')).toBe('<a title="a &quot;quoted&quot; &lt;b&gt;">x</a>');
+  });
+
+  it('lets transforms change or remove elements', () => {
+    const html = sanitizeHtml('<p>Keep <span>unwrapped</span></p>', {
+      transform: element => (element.tag === 'span' ? null : { ...element, attributes: { ...element.attributes, class: 'x' } }),
+    });
+    expect(html).toBe('<p class="x">Keep unwrapped</p>');
+  });
+});
@@ -0,0 +1,93 @@
+import { formatIssues, validateEntity, validateList } from '../schemas';
+
+const post = {
+  id: 1,
+  slug: 'hello-world',
+  date: '2024-01-01T00:00:00',
+  date_gmt: '2024-01-01T00:00:00',
+  modified: '2024-01-01T00:00:00',
+  modified_gmt: '2024-01-01T00:00:00',
+  status: 'publish',
+  type: 'post',
+  link: 'https://wp.test/hello-world',
+  title: { rendered: 'Hello World' },
+  content: { rendered: '<p>Content</p>', protected: false },
+  excerpt: { rendered: '<p>Excerpt</p>', protected: false },
+  author: 1,
+  featured_media: 0,
+  comment_status: 'open',
+  ping_status: 'open',
+  sticky: false,
+  template: '',
+  format: 'standard',
+  meta: [],
+  categories: [1],
+  tags: [],
+  _links: {},
+};
+
+describe('schemas', () => {
+  describe('validateEntity', () => {
+    it('accepts a well-formed post without issues', () => {
+      const result = validateEntity('post', post);
+
+      expect(result.issues).toEqual([]);
+      expect(result.data).toMatchObject({ id: 1, title: { rendered: 'Hello World' } });
+    });
+
+    it('normalizes rendered fields flattened to strings', () => {
+      const result = validateEntity('post', { ...post, title: 'Plain title' }, 'strict');
+
+      expect(result.issues).toEqual([]);
+      expect(result.data?.title).toEqual({ rendered: 'Plain title' });
+    });
+
+    it('falls back to defaults in lenient mode and reports field paths', () => {
+      const result = validateEntity('post', { ...post, excerpt: undefined, categories: 'news' });
+
+      expect(result.data).toMatchObject({ excerpt: { rendered: '' }, categories: [] });
+      expect(result.issues.map(issue => issue.path)).toEqual(['post.excerpt', 'post.categories']);
+    });
+
+    it('fails in strict mode', () => {
+      const result = validateEntity('post', { ...post, author: 'admin' }, 'strict');
+
+      expect(result.data).toBeNull();
+      expect(formatIssues(result.issues)).toBe('post.author: Expected number, received string');
+    });
+
+    it('never recovers entities without identity fields', () => {
+      const result = validateEntity('post', { ...post, id: undefined });
+
+      expect(result.data).toBeNull();
+      expect(result.issues[0].path).toBe('post.id');
+    });
+  });
+
+  describe('validateList', () => {
+    it('drops unrecoverable items in lenient mode', () => {
+      const result = validateList('category', [
+        { id: 1, slug: 'news', name: 'News' },
+        { slug: 'broken' },
+      ]);
+
+      expect(result.data).toHaveLength(1);
+      expect(result.data?.[0]).toMatchObject({ id: 1, taxonomy: 'category', parent: 0 });
+      expect(result.issues.some(issue => issue.path === 'category[1].id')).toBe(true);
+    });
+
+    it('rejects the whole list in strict mode', () => {
+      const result = validateList('tag', [{ id: 1, slug: 'a', name: 'A' }, { id: 2 }], 'strict');
+
+      expect(result.data).toBeNull();
+      expect(result.issues.length).toBeGreaterThan(0);
+    });
+
+    it('rejects non-array payloads', () => {
+      expect(validateList('post', { code: 'rest_no_route' })).toEqual({
+        data: null,
+        issues: [{ path: 'post', message: 'Expected array' }],
+      });
+    });
+  });
+});
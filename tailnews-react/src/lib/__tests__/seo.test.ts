@@ -0,0 +1,102 @@
+import { fromYoastHead, parseHeadHtml, parseRobots, seoMetadata } from '../seo';
+import { WORDPRESS_URL } from '../wordpress-client';
+
+describe('seo', () => {
+  const fallback = {
+    title: 'Post | Tailnews React',
+    description: 'Generated excerpt',
+    openGraph: { title: 'Post', description: 'Generated excerpt', type: 'article' as const },
+    twitter: { card: 'summary_large_image' as const, title: 'Post' },
+    alternates: { canonical: '/posts/post' },
+  };
+
+  describe('fromYoastHead', () => {
+    it('maps titles, robots and social images', () => {
+      expect(fromYoastHead({
+        title: 'Editor title &#8211; Site',
+        description: 'Editor description',
+        canonical: 'https://cms.example.com/post/',
+        robots: { index: 'noindex', follow: 'follow', 'max-image-preview': 'max-image-preview:large', 'max-snippet': 'max-snippet:-1' },
+        og_title: 'Social title',
+        og_image: [{ url: 'https://cms.example.com/social.jpg', width: 1200, height: 630 }],
+        twitter_card: 'summary_large_image',
+      })).toEqual({
+        title: 'Editor title – Site',
+        description: 'Editor description',
+        canonical: 'https://cms.example.com/post/',
+        robots: { index: false, follow: true, maxSnippet: -1, maxImagePreview: 'large' },
+        openGraph: { title: 'Social title', images: [{ url: 'https://cms.example.com/social.jpg', width: 1200, height: 630 }] },
+        twitter: { card: 'summary_large_image' },
+      });
+    });
+
+    it('returns nothing for an empty head', () => {
+      expect(fromYoastHead({ og_image: [] })).toBeUndefined();
+    });
+  });
+
+  it('parses robots directives', () => {
+    expect(parseRobots('follow, index, max-snippet:-1, max-video-preview:-1, max-image-preview:large')).toEqual({
+      index: true,
+      follow: true,
+      maxSnippet: -1,
+      maxVideoPreview: -1,
+      maxImagePreview: 'large',
+    });
+    expect(parseRobots('none')).toMatchObject({ index: false, follow: false });
+  });
+
+  it('parses the head rendered by RankMath', () => {
+    const html = [
+      '<title>Rank &amp; File - Site</title>',
+      '<meta name="description" content="From RankMath"/>',
+      '<meta name="robots" content="nofollow, noindex"/>',
+      '<link rel="canonical" href="https://example.org/elsewhere/" />',
+      '<meta property="og:title" content="OG title" />',
+      '<meta property="og:image" content="/wp-content/uploads/a.jpg" />',
+      '<meta property="og:image:width" content="1200" />',
+      '<meta property="og:image:alt" content="Alt" />',
+      '<meta name="twitter:card" content="summary" />',
+    ].join('\n');
+
+    expect(parseHeadHtml(html)).toEqual({
+      title: 'Rank & File - Site',
+      description: 'From RankMath',
+      canonical: 'https://example.org/elsewhere/',
+      robots: { index: false, follow: false },
+      openGraph: { title: 'OG title', images: [{ url: `${WORDPRESS_URL}/wp-content/uploads/a.jpg`, width: 1200, alt: 'Alt' }] },
+      twitter: { card: 'summary' },
+    });
+  });
+
+  describe('seoMetadata', () => {
+    it('keeps the generated metadata without SEO data', () => {
+      expect(seoMetadata(undefined, fallback)).toBe(fallback);
+    });
+
+    it('overlays editor values and falls back for the rest', () => {
+      const metadata = seoMetadata({
+        title: 'Editor title',
+        robots: { index: false, follow: true },
+        openGraph: { images: [{ url: 'https://cdn.example.com/social.jpg' }] },
+      }, fallback);
+
+      expect(metadata.title).toEqual({ absolute: 'Editor title' });
+      expect(metadata.description).toBe('Generated excerpt');
+      expect(metadata.robots).toMatchObject({ index: false, follow: true });
+      expect(metadata.openGraph).toMatchObject({ title: 'Editor title', type: 'article', images: [{ url: 'https://cdn.example.com/social.jpg' }] });
+      expect(metadata.twitter).toMatchObject({ card: 'summary_large_image', title: 'Editor title' });
+    });
+
+    it('leaves images unset so generated Open Graph images still apply', () => {
+      const metadata = seoMetadata({ title: 'Editor title' }, fallback);
+      expect(metadata.openGraph).not.toHaveProperty('images');
+      expect(metadata.twitter).not.toHaveProperty('images');
+    });
+
+    it('ignores canonicals pointing at WordPress itself', () => {
+      expect(seoMetadata({ canonical: `${WORDPRESS_URL}/post/` }, fallback).alternates?.canonical).toBe('/posts/post');
+      expect(seoMetadata({ canonical: 'https://example.org/original' }, fallback).alternates?.canonical).toBe('https://example.org/original');
+    });
+  });
+});
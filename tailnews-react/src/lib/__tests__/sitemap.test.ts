@@ -0,0 +1,55 @@
+import {
+  POSTS_PER_SITEMAP,
+  buildNewsSitemap,
+  buildSitemapIndex,
+  getNewsWindow,
+  getPostSitemapRange,
+  getSitemapIds,
+  getSitemapUrl,
+} from '../sitemap';
+
+describe('sitemap', () => {
+  it('splits posts into sitemaps after the structure sitemap', () => {
+    expect(getSitemapIds(0)).toEqual([{ id: 0 }, { id: 1 }]);
+    expect(getSitemapIds(POSTS_PER_SITEMAP)).toEqual([{ id: 0 }, { id: 1 }]);
+    expect(getSitemapIds(POSTS_PER_SITEMAP * 2 + 1)).toEqual([{ id: 0 }, { id: 1 }, { id: 2 }, { id: 3 }]);
+  });
+
+  it('maps a post sitemap to its WordPress pages', () => {
+    expect(getPostSitemapRange(1)).toEqual({ startPage: 1, maxPages: 50 });
+    expect(getPostSitemapRange(3)).toEqual({ startPage: 101, maxPages: 50 });
+  });
+
+  it('builds an escaped sitemap index', () => {
+    const xml = buildSitemapIndex([
+      { url: getSitemapUrl(0, 'https://news.test') },
+      { url: 'https://news.test/sitemap/1.xml?a=1&b=2', lastModified: '2024-03-01T10:00:00Z' },
+    ]);
+
+    expect(xml).toContain('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+    expect(xml).toContain('<loc>https://news.test/sitemap/0.xml</loc>');
+    expect(xml).toContain('<loc>https://news.test/sitemap/1.xml?a=1&amp;b=2</loc>');
+    expect(xml).toContain('<lastmod>2024-03-01T10:00:00Z</lastmod>');
+  });
+
+  it('widens the news query to the hour and keeps the exact cutoff', () => {
+    const now = Date.UTC(2024, 2, 15, 10, 42, 30);
+    const { cutoff, after } = getNewsWindow(now);
+
+    expect(cutoff.toISOString()).toBe('2024-03-13T10:42:30.000Z');
+    expect(after).toBe('2024-03-12T10:00:00');
+  });
+
+  it('builds a Google News sitemap', () => {
+    const xml = buildNewsSitemap([
+      { url: 'https://news.test/posts/vote', title: 'Polls & results <live>', published: '2024-03-15T08:00:00Z' },
+    ], { name: 'Tailnews', language: 'en' });
+
+    expect(xml).toContain('xmlns:news="http://www.google.com/schemas/sitemap-news/0.9"');
+    expect(xml).toContain('<loc>https://news.test/posts/vote</loc>');
+    expect(xml).toContain('<news:name>Tailnews</news:name>');
+    expect(xml).toContain('<news:language>en</news:language>');
+    expect(xml).toContain('<news:publication_date>2024-03-15T08:00:00Z</news:publication_date>');
+    expect(xml).toContain('<news:title>Polls &amp; results &lt;live&gt;</news:title>');
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  breadcrumbSchema,
+  collectionPageSchema,
+  newsArticleSchema,
+  profilePageSchema,
+  serializeJsonLd,
+  websiteSchema,
+} from '../structured-data';
+import { Article } from '@/types/api';
+
+const post: Article = {
+  id: 1,
+  title: 'Markets &amp; money',
+  excerpt: 'Stocks rallied',
+  slug: 'markets-money',
+  date: '2024-03-15T10:00:00',
+  published: '2024-03-15T08:00:00Z',
+  modified: '2024-03-15T09:30:00Z',
+  featuredImage: { url: 'https://cdn.test/markets.png', alt: 'Chart' },
+  category: { id: 2, name: 'Business', slug: 'business' },
+  author: { id: 7, name: 'Jane Doe', slug: 'jane' },
+  tags: [{ id: 4, name: 'Economy', slug: 'economy' }],
+};
+
+describe('structured-data', () => {
+  it('describes a news article', () => {
+    expect(newsArticleSchema(post)).toMatchObject({
+      '@type': 'NewsArticle',
+      headline: 'Markets & money',
+      image: ['https://cdn.test/markets.png'],
+      datePublished: '2024-03-15T08:00:00Z',
+      dateModified: '2024-03-15T09:30:00Z',
+      author: [{ '@type': 'Person', name: 'Jane Doe', url: expect.stringMatching(/\/author\/jane$/) }],
+      publisher: { '@type': 'Organization', logo: { '@type': 'ImageObject' } },
+      articleSection: 'Business',
+      keywords: 'Economy',
+    });
+  });
+
+  it('skips crumbs without a page except the current one', () => {
+    const schema = breadcrumbSchema([{ name: 'Home', path: '/' }, { name: 'Authors' }, { name: 'Jane Doe' }]);
+
+    expect(schema.itemListElement).toEqual([
+      { '@type': 'ListItem', position: 1, name: 'Home', item: expect.any(String) },
+      { '@type': 'ListItem', position: 2, name: 'Jane Doe', item: undefined },
+    ]);
+  });
+
+  it('points the site search action at /search?q=', () => {
+    expect(websiteSchema().potentialAction).toMatchObject({
+      '@type': 'SearchAction',
+      target: { urlTemplate: expect.stringMatching(/\/search\?q=\{search_term_string\}$/) },
+    });
+  });
+
+  it('numbers collection items across pages', () => {
+    const schema = collectionPageSchema({ name: 'Business', path: '/category/business', posts: [post], offset: 12 });
+
+    expect(schema).toMatchObject({
+      '@type': 'CollectionPage',
+      url: expect.stringMatching(/\/category\/business$/),
+      mainEntity: { itemListElement: [{ position: 13, name: 'Markets & money' }] },
+    });
+  });
+
+  it('lists author profiles in sameAs', () => {
+    const schema = profilePageSchema({
+      id: 7,
+      name: 'Jane Doe',
+      slug: 'jane',
+      url: 'https://jane.test',
+      socialLinks: [{ network: 'twitter', url: 'https://twitter.com/jane' }],
+    });
+
+    expect(schema.mainEntity).toMatchObject({ sameAs: ['https://jane.test', 'https://twitter.com/jane'] });
+  });
+
+  it('escapes markup when serializing', () => {
+    expect(serializeJsonLd({ name: '</script><script>alert(1)</script>' })).not.toContain('</script>');
+  });
+});
@@ -0,0 +1,77 @@
+import { getSocialLinks, transformAuthor, transformComments } from '../transforms';
+import { WordPressAuthor, WordPressComment } from '@/types/wordpress';
+
+const author = (meta: Record<string, unknown>): WordPressAuthor => ({
+  id: 7,
+  name: 'Jane Doe',
+  url: 'https://jane.example',
+  description: 'Reporter',
+  link: 'https://wp.test/author/jane',
+  slug: 'jane',
+  avatar_urls: { 48: 'https://gravatar.com/48.jpg', 96: 'https://gravatar.com/96.jpg' },
+  meta,
+  _links: {},
+});
+
+describe('transforms', () => {
+  describe('getSocialLinks', () => {
+    it('reads profile URLs from user meta', () => {
+      expect(getSocialLinks(author({
+        facebook: 'https://facebook.com/jane',
+        linkedin: '  https://linkedin.com/in/jane ',
+      }))).toEqual([
+        { network: 'Facebook', url: 'https://facebook.com/jane' },
+        { network: 'LinkedIn', url: 'https://linkedin.com/in/jane' },
+      ]);
+    });
+
+    it('expands bare handles only for networks with a known profile URL', () => {
+      expect(getSocialLinks(author({ twitter: '@jane', instagram: 'jane' }))).toEqual([
+        { network: 'Twitter', url: 'https://twitter.com/jane' },
+      ]);
+    });
+
+    it('ignores empty and list-shaped meta', () => {
+      expect(getSocialLinks(author({ twitter: '' }))).toEqual([]);
+      expect(getSocialLinks({ ...author({}), meta: [] as unknown as Record<string, unknown> })).toEqual([]);
+    });
+  });
+
+  it('transforms an author with avatar and social links', () => {
+    expect(transformAuthor(author({ github: 'jane' }))).toEqual({
+      id: 7,
+      name: 'Jane Doe',
+      slug: 'jane',
+      description: 'Reporter',
+      avatar: 'https://gravatar.com/96.jpg',
+      url: 'https://jane.example',
+      socialLinks: [{ network: 'GitHub', url: 'https://github.com/jane' }],
+    });
+  });
+
+  it('transforms comments into sanitised threads', () => {
+    const comment = (id: number, parent: number, content: string): WordPressComment => ({
+      id,
+      post: 1,
+      parent,
+      author: 0,
+      author_name: '',
+      author_url: '',
+      author_avatar_urls: {},
+      date: '2024-05-21T12:00:00',
+      date_gmt: '2024-05-21T10:00:00',
+      content: { rendered: content },
+      link: '',
+      status: 'approved',
+      type: 'comment',
+      _links: {},
+    });
+
+    const first = { ...comment(1, 0, '<p>First</p>'), _embedded: { up: [{ id: 1, slug: 'hello', title: { rendered: 'Hello &amp; welcome' } }] } };
+    const [thread] = transformComments([first, comment(2, 1, '<p onclick="x()">Reply</p>')]);
+
+    expect(thread).toMatchObject({ id: 1, date: '2024-05-21T10:00:00Z', author: { name: 'Anonymous' } });
+    expect(thread.post).toEqual({ id: 1, title: 'Hello & welcome', slug: 'hello' });
+    expect(thread.replies[0].content).toBe('<p>Reply</p>');
+  });
+});
@@ -0,0 +1,412 @@
+import {
+  buildCommentsQuery,
+  buildPostsQuery,
+  clearStaleCache,
+  createFetchTransport,
+  createWordPressClient,
+  mapResponse,
+  resolvePagePath,
+  withCacheTags,
+} from '../wordpress-client';
+import { CircuitBreaker, getCircuitState, parseRetryAfter, resetCircuitBreakers } from '../resilience';
+import { errorCodeFromDigest, WordPressAPIError } from '../wordpress-errors';
+
+const mockFetch = global.fetch as jest.Mock;
+
+const jsonResponse = (body: unknown, init: { status?: number; statusText?: string; headers?: Record<string, string> } = {}) => ({
+  ok: (init.status || 200) >= 200 && (init.status || 200) < 300,
+  status: init.status || 200,
+  statusText: init.statusText || 'OK',
+  headers: new Headers(init.headers),
+  json: () => Promise.resolve(body),
+});
+
+describe('wordpress-client', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    resetCircuitBreakers();
+    clearStaleCache();
+  });
+
+  describe('buildPostsQuery', () => {
+    it('applies defaults', () => {
+      const query = buildPostsQuery();
+
+      expect(query.get('_embed')).toBe('true');
+      expect(query.get('per_page')).toBe('10');
+      expect(query.get('page')).toBe('1');
+      expect(query.get('orderby')).toBe('date');
+      expect(query.get('order')).toBe('desc');
+      expect(query.get('status')).toBe('publish');
+    });
+
+    it('serializes filters', () => {
+      const query = buildPostsQuery({
+        categories: [1, 2],
+        tags: [3],
+        author: 7,
+        search: 'news',
+        sticky: true,
+        exclude: [42],
+        slug: 'hello-world',
+        after: '2024-02-29T23:59:59',
+        before: '2024-04-01T00:00:00',
+      });
+
+      expect(query.get('categories')).toBe('1,2');
+      expect(query.get('tags')).toBe('3');
+      expect(query.get('author')).toBe('7');
+      expect(query.get('search')).toBe('news');
+      expect(query.get('sticky')).toBe('true');
+      expect(query.get('exclude')).toBe('42');
+      expect(query.get('slug')).toBe('hello-world');
+      expect(query.get('after')).toBe('2024-02-29T23:59:59');
+      expect(query.get('before')).toBe('2024-04-01T00:00:00');
+    });
+  });
+
+  describe('createFetchTransport', () => {
+    it('returns data with pagination headers', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse([{ id: 1 }], {
+        headers: { 'X-WP-TotalPages': '4', 'X-WP-Total': '37' },
+      }));
+
+      const transport = createFetchTransport({ baseUrl: 'https://wp.test/wp-json/wp/v2' });
+      const response = await transport.request('/posts');
+
+      expect(mockFetch).toHaveBeenCalledWith('https://wp.test/wp-json/wp/v2/posts', expect.any(Object));
+      expect(response).toEqual({ data: [{ id: 1 }], error: null, totalPages: 4, total: 37 });
+    });
+
+    it('returns an error response for non-ok status', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({}, { status: 404, statusText: 'Not Found' }));
+
+      const response = await createFetchTransport().request('/posts/999');
+
+      expect(response.data).toBeNull();
+      expect(response.error).toBeInstanceOf(WordPressAPIError);
+      expect(response.error).toMatchObject({
+        code: 'NOT_FOUND',
+        status: 404,
+        message: 'WordPress API Error: 404 Not Found',
+      });
+    });
+
+    it('preserves the WordPress error body', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(
+        { code: 'rest_forbidden', message: 'Sorry, you are not allowed to do that.', data: { status: 401 } },
+        { status: 401, statusText: 'Unauthorized' }
+      ));
+
+      const response = await createFetchTransport().request('/posts?status=draft');
+
+      expect(response.error).toMatchObject({
+        code: 'UNAUTHORIZED',
+        status: 401,
+        wpCode: 'rest_forbidden',
+        message: 'Sorry, you are not allowed to do that.',
+      });
+    });
+
+    it('classifies network failures and timeouts', async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      const network = await createFetchTransport({ retry: false }).request('/posts');
+      expect(network.error).toMatchObject({ code: 'NETWORK', status: 0 });
+
+      mockFetch.mockRejectedValueOnce(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+      const timeout = await createFetchTransport({ retry: false }).request('/posts');
+      expect(timeout.error).toMatchObject({ code: 'TIMEOUT' });
+    });
+
+    it('reports malformed JSON as an invalid response', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ...jsonResponse(null),
+        json: () => Promise.reject(new SyntaxError('Unexpected token <')),
+      });
+
+      const response = await createFetchTransport().request('/posts');
+      expect(response.error).toMatchObject({ code: 'INVALID_RESPONSE' });
+    });
+
+    it('merges transport headers and init options', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse([]));
+
+      const transport = createFetchTransport({
+        headers: { 'User-Agent': 'Test' },
+        init: { cache: 'no-store' },
+      });
+      await transport.request('/posts');
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.cache).toBe('no-store');
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json', 'User-Agent': 'Test' });
+    });
+
+    it('adds cache tags without dropping the transport revalidate config', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse([]));
+
+      const transport = withCacheTags(createFetchTransport({ init: { next: { revalidate: 60 } } }), ['posts-list', 'homepage']);
+      await withCacheTags(transport, ['homepage', 'post:1']).request('/posts');
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.next).toEqual({ revalidate: 60, tags: ['homepage', 'post:1', 'posts-list'] });
+    });
+  });
+
+  describe('retries and circuit breaker', () => {
+    const baseUrl = 'https://wp.test/wp-json/wp/v2';
+
+    it('retries idempotent requests on 5xx', async () => {
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({}, { status: 502, statusText: 'Bad Gateway' }))
+        .mockResolvedValueOnce(jsonResponse([{ id: 1 }]));
+
+      const transport = createFetchTransport({ baseUrl, retry: { retries: 2, baseDelay: 0 } });
+      const response = await transport.request('/posts');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(response.data).toEqual([{ id: 1 }]);
+    });
+
+    it('does not retry non-idempotent requests', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({}, { status: 503, statusText: 'Service Unavailable' }));
+
+      const transport = createFetchTransport({ baseUrl, retry: { retries: 2, baseDelay: 0 } });
+      const response = await transport.request('/comments', { method: 'POST' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(response.error).toMatchObject({ code: 'UNAVAILABLE', status: 503 });
+    });
+
+    it('does not retry client errors', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({}, { status: 404, statusText: 'Not Found' }));
+
+      const transport = createFetchTransport({ baseUrl, retry: { retries: 2, baseDelay: 0 } });
+      await transport.request('/posts/1');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('opens the circuit and serves stale data', async () => {
+      const breakerUrl = 'https://down.wp.test/wp-json/wp/v2';
+      const transport = createFetchTransport({
+        baseUrl: breakerUrl,
+        retry: false,
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 },
+      });
+
+      mockFetch.mockResolvedValueOnce(jsonResponse([{ id: 1 }]));
+      await transport.request('/posts');
+
+      mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+      const failed = await transport.request('/posts');
+      expect(failed).toMatchObject({ data: [{ id: 1 }], stale: true });
+
+      await transport.request('/posts');
+      expect(getCircuitState(breakerUrl)).toBe('open');
+
+      mockFetch.mockClear();
+      const shortCircuited = await transport.request('/posts');
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(shortCircuited).toMatchObject({ data: [{ id: 1 }], stale: true });
+    });
+
+    it('lets one probe through while half-open', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+      breaker.recordFailure(0);
+
+      expect(breaker.canRequest(500)).toBe(false);
+      expect(breaker.canRequest(1000)).toBe(true);
+      expect(breaker.canRequest(1001)).toBe(false);
+
+      breaker.recordFailure(1200);
+      expect(breaker.canRequest(2100)).toBe(false);
+      expect(breaker.canRequest(2200)).toBe(true);
+
+      breaker.recordSuccess();
+      expect(breaker.canRequest(2201)).toBe(true);
+      expect(breaker.canRequest(2202)).toBe(true);
+    });
+
+    it('does not let client errors reset the failure count', () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+
+      breaker.recordFailure(0);
+      breaker.recordClientError();
+      breaker.recordFailure(100);
+      expect(breaker.getState(200)).toBe('open');
+
+      // WordPress answering the half-open probe at all closes the circuit
+      expect(breaker.canRequest(1100)).toBe(true);
+      breaker.recordClientError();
+      expect(breaker.getState(1101)).toBe('closed');
+    });
+
+    it('parses Retry-After values', () => {
+      expect(parseRetryAfter('3')).toBe(3000);
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:05 GMT', Date.parse('Wed, 21 Oct 2015 07:28:00 GMT'))).toBe(5000);
+      expect(parseRetryAfter(null)).toBeNull();
+    });
+  });
+
+  describe('createWordPressClient', () => {
+    it('unwraps slug lookups into a single entity', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse([{ id: 5, slug: 'hello-world' }]));
+
+      const client = createWordPressClient(createFetchTransport());
+      const response = await client.posts.getPostBySlug('hello-world');
+
+      expect(response.data).toMatchObject({ id: 5, slug: 'hello-world' });
+      expect(mockFetch.mock.calls[0][0]).toContain('slug=hello-world');
+    });
+
+    it('reports not found for empty slug lookups', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse([]));
+
+      const client = createWordPressClient(createFetchTransport());
+      const response = await client.categories.getCategoryBySlug('missing');
+
+      expect(response.data).toBeNull();
+      expect(response.error).toMatchObject({ code: 'NOT_FOUND', message: 'Category not found' });
+    });
+
+    it('repairs malformed entities in lenient mode', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse([{ id: 5, slug: 'hello-world', title: 'Hello' }, { title: 'No id' }]));
+
+      const client = createWordPressClient(createFetchTransport());
+      const response = await client.posts.getPosts();
+
+      expect(response.error).toBeNull();
+      expect(response.data).toHaveLength(1);
+      expect(response.data?.[0]).toMatchObject({ title: { rendered: 'Hello' }, excerpt: { rendered: '' } });
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('/posts?'), expect.stringContaining('post[1].id'));
+    });
+
+    it('reports an invalid response in strict mode', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse({ id: 3, slug: 'jane', name: 42 }));
+
+      const client = createWordPressClient(createFetchTransport(), { validation: 'strict' });
+      const response = await client.authors.getAuthorById(3);
+
+      expect(response.data).toBeNull();
+      expect(response.error).toMatchObject({ code: 'INVALID_RESPONSE' });
+      expect(response.error?.message).toContain('user.name');
+    });
+  });
+
+  describe('comments', () => {
+    it('queries comments oldest first', () => {
+      const query = buildCommentsQuery({ post: 5, parent: [0] });
+
+      expect(query.get('post')).toBe('5');
+      expect(query.get('parent')).toBe('0');
+      expect(query.get('orderby')).toBe('date_gmt');
+      expect(query.get('order')).toBe('asc');
+    });
+
+    it('sends author details only for anonymous comments', async () => {
+      const saved = { id: 9, post: 5, content: { rendered: '<p>Hi</p>' }, status: 'hold' };
+      mockFetch.mockResolvedValue(jsonResponse(saved, { status: 201 }));
+
+      const client = createWordPressClient(createFetchTransport());
+      const input = { post: 5, content: 'Hi', authorName: 'Jane', authorEmail: 'jane@example.com' };
+
+      const anonymous = await client.comments.createComment(input);
+      expect(anonymous.data).toMatchObject({ id: 9, status: 'hold' });
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({ post: 5, parent: 0, author_name: 'Jane', author_email: 'jane@example.com' });
+
+      await client.comments.createComment(input, 'token');
+      expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe('Bearer token');
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).not.toHaveProperty('author_name');
+    });
+
+    it('loads moderation queues newest first with posts embedded', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse([]));
+
+      const client = createWordPressClient(createFetchTransport());
+      await client.comments.getModerationComments({ status: 'hold', post: 5 }, 'token');
+
+      const url = new URL(mockFetch.mock.calls[0][0]);
+      expect(url.searchParams.get('status')).toBe('hold');
+      expect(url.searchParams.get('order')).toBe('desc');
+      expect(url.searchParams.get('context')).toBe('edit');
+      expect(url.searchParams.get('_embed')).toBe('up');
+      expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer token');
+    });
+
+    it('updates and trashes comments', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ id: 9, post: 5, content: { rendered: '' }, status: 'spam' }));
+
+      const client = createWordPressClient(createFetchTransport());
+      await client.comments.updateCommentStatus(9, 'spam', 'token');
+      await client.comments.trashComment(9, 'token');
+
+      expect(mockFetch.mock.calls[0][0]).toMatch(/\/comments\/9$/);
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ method: 'POST', body: JSON.stringify({ status: 'spam' }) });
+      expect(mockFetch.mock.calls[1][1]).toMatchObject({ method: 'DELETE', headers: { Authorization: 'Bearer token' } });
+    });
+  });
+
+  describe('pages', () => {
+    const pages = [
+      { id: 1, slug: 'about', parent: 0 },
+      { id: 2, slug: 'team', parent: 1 },
+      { id: 3, slug: 'team', parent: 4 },
+      { id: 4, slug: 'careers', parent: 0 },
+    ];
+
+    it('resolves a slug path against the page hierarchy', () => {
+      expect(resolvePagePath(pages, ['about', 'team'])?.map(page => page.id)).toEqual([1, 2]);
+      expect(resolvePagePath(pages, ['careers', 'team'])?.map(page => page.id)).toEqual([4, 3]);
+    });
+
+    it('rejects partial and mismatched paths', () => {
+      expect(resolvePagePath(pages, ['team'])).toBeNull();
+      expect(resolvePagePath(pages, ['about', 'careers'])).toBeNull();
+      expect(resolvePagePath(pages, ['extra', 'about', 'team'])).toBeNull();
+    });
+
+    it('looks up every path segment in a single request', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(pages.map(page => ({ ...page, title: { rendered: page.slug } }))));
+
+      const client = createWordPressClient(createFetchTransport());
+      const response = await client.pages.getPageByPath(['careers', 'team']);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toContain(`slug=${encodeURIComponent('careers,team')}`);
+      expect(response.data?.map(page => page.id)).toEqual([4, 3]);
+    });
+
+    it('reports not found for unknown paths', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse([]));
+
+      const client = createWordPressClient(createFetchTransport());
+      const response = await client.pages.getPageByPath(['privacy']);
+
+      expect(response.error).toMatchObject({ code: 'NOT_FOUND', message: 'Page not found' });
+    });
+  });
+
+  describe('mapResponse', () => {
+    it('maps data and keeps pagination', () => {
+      const mapped = mapResponse({ data: [1, 2], error: null, totalPages: 2, total: 4 }, (items) => items.length);
+      expect(mapped).toEqual({ data: 2, error: null, totalPages: 2, total: 4 });
+    });
+
+    it('leaves error responses untouched', () => {
+      const error = new WordPressAPIError('boom', 'SERVER_ERROR', 500);
+      const mapped = mapResponse<number[], number>({ data: null, error }, (items) => items.length);
+      expect(mapped).toEqual({ data: null, error });
+    });
+  });
+
+  describe('errorCodeFromDigest', () => {
+    it('reads the code back from the digest Next.js passes to error boundaries', () => {
+      const { digest } = new WordPressAPIError('Service Unavailable', 'UNAVAILABLE', 503);
+
+      expect(errorCodeFromDigest(digest)).toBe('UNAVAILABLE');
+      expect(errorCodeFromDigest('1234567890')).toBeNull();
+      expect(errorCodeFromDigest(undefined)).toBeNull();
+    });
+  });
+});
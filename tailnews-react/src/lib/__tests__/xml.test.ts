@@ -0,0 +1,12 @@
+import { decodeHtmlEntities, escapeXml } from '../xml';
+
+describe('xml', () => {
+  it('escapes XML special characters', () => {
+    expect(escapeXml(`Tom & Jerry's "<show>"`)).toBe('Tom &amp; Jerry&apos;s &quot;&lt;show&gt;&quot;');
+  });
+
+  it('decodes numeric and named entities from rendered titles', () => {
+    expect(decodeHtmlEntities('It&#8217;s &#x201C;news&#x201D; &amp; more&hellip;')).toBe('It’s “news” & more…');
+    expect(decodeHtmlEntities('Unknown &foo; stays')).toBe('Unknown &foo; stays');
+  });
+});
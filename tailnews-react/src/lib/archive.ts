@@ -0,0 +1,89 @@
+// Date archive helpers, months are 1-based and computed in UTC
+import { ArchiveMonth } from '@/types/api';
+
+export interface DateRange {
+  after: string;
+  before: string;
+}
+
+// WordPress expects local site time without an offset, e.g. 2024-03-01T00:00:00
+function toWordPressDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 19);
+}
+
+// Range covering a whole month, or a whole year when month is omitted
+// `after` and `before` are exclusive in WordPress, so the range starts one second early
+export function getArchiveRange(year: number, month?: number): DateRange {
+  const start = Date.UTC(year, month ? month - 1 : 0, 1);
+  const end = month ? Date.UTC(year, month, 1) : Date.UTC(year + 1, 0, 1);
+
+  return {
+    after: toWordPressDate(start - 1000),
+    before: toWordPressDate(end),
+  };
+}
+
+// Validate route segments, returning null for anything that isn't a real year/month
+export function parseArchiveParams(year: string, month?: string): { year: number; month?: number } | null {
+  if (!/^\d{4}$/.test(year) || (month !== undefined && !/^\d{1,2}$/.test(month))) {
+    return null;
+  }
+
+  const parsedYear = parseInt(year, 10);
+  const parsedMonth = month !== undefined ? parseInt(month, 10) : undefined;
+
+  if (parsedYear < 1970 || (parsedMonth !== undefined && (parsedMonth < 1 || parsedMonth > 12))) {
+    return null;
+  }
+
+  return { year: parsedYear, month: parsedMonth };
+}
+
+// Months from the given start up to and including the current month, newest first
+export function getMonthsBetween(from: Date, to: Date = new Date()): Array<{ year: number; month: number }> {
+  const months: Array<{ year: number; month: number }> = [];
+  let year = to.getUTCFullYear();
+  let month = to.getUTCMonth() + 1;
+  const fromValue = from.getUTCFullYear() * 12 + from.getUTCMonth();
+
+  while (year * 12 + (month - 1) >= fromValue) {
+    months.push({ year, month });
+    month -= 1;
+    if (month === 0) {
+      month = 12;
+      year -= 1;
+    }
+  }
+
+  return months;
+}
+
+export function getArchivePath(year: number, month?: number): string {
+  return month ? `/archive/${year}/${month.toString().padStart(2, '0')}` : `/archive/${year}`;
+}
+
+export function formatArchiveLabel(year: number, month?: number): string {
+  if (!month) return year.toString();
+
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+// Sum monthly counts into yearly totals, newest first
+export function groupArchiveByYear(months: ArchiveMonth[]): Array<{ year: number; count: number; months: ArchiveMonth[] }> {
+  const years = new Map<number, ArchiveMonth[]>();
+  months.forEach(month => {
+    years.set(month.year, [...(years.get(month.year) || []), month]);
+  });
+
+  return Array.from(years.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([year, yearMonths]) => ({
+      year,
+      count: yearMonths.reduce((sum, month) => sum + month.count, 0),
+      months: yearMonths.sort((a, b) => b.month - a.month),
+    }));
+}
@@ -1,4 +1,5 @@
 // WordPress Authentication API Client
+// Called from the server (auth routes, middleware, previews); the browser goes through session-api.ts
 
 import { 
   LoginCredentials, 
@@ -119,8 +120,8 @@ class AuthAPI {
     };
   }
 
-  // Register new user
-  async register(userData: RegisterData): Promise<AuthResponse> {
+  // Register new user; WordPress only lets users with create_users add accounts
+  async register(userData: RegisterData, token?: string): Promise<AuthResponse> {
     // First create the user
     const userResponse = await this.makeRequest<any>(`${WP_USERS_ENDPOINT}`, {
       method: 'POST',
@@ -132,10 +133,7 @@ class AuthAPI {
         last_name: userData.lastName || '',
         roles: ['subscriber'], // Default role
       }),
-      headers: {
-        // Admin authentication required for user creation
-        Authorization: `Bearer ${this.getStoredToken()}`,
-      },
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
     });
 
     // Then login the newly created user
@@ -243,15 +241,6 @@ class AuthAPI {
     });
   }
 
-  // Logout (client-side token removal)
-  logout(): void {
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('auth_token');
-      localStorage.removeItem('refresh_token');
-      localStorage.removeItem('user_data');
-    }
-  }
-
   // Check if user has specific capability
   hasCapability(user: User, capability: string): boolean {
     return user.capabilities[capability] === true;
@@ -288,49 +277,6 @@ class AuthAPI {
     const currentTime = Date.now() / 1000;
     return decoded.exp < currentTime;
   }
-
-  // Get stored token from localStorage
-  private getStoredToken(): string | null {
-    if (typeof window === 'undefined') return null;
-    return localStorage.getItem('auth_token');
-  }
-
-  // Store token in localStorage
-  storeToken(token: string, refreshToken?: string): void {
-    if (typeof window === 'undefined') return;
-    
-    localStorage.setItem('auth_token', token);
-    if (refreshToken) {
-      localStorage.setItem('refresh_token', refreshToken);
-    }
-  }
-
-  // Store user data in localStorage
-  storeUser(user: User): void {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem('user_data', JSON.stringify(user));
-  }
-
-  // Get stored user data
-  getStoredUser(): User | null {
-    if (typeof window === 'undefined') return null;
-    
-    const userData = localStorage.getItem('user_data');
-    if (!userData) return null;
-    
-    try {
-      return JSON.parse(userData);
-    } catch (error) {
-      console.error('Error parsing stored user data:', error);
-      return null;
-    }
-  }
-
-  // Get stored refresh token
-  getStoredRefreshToken(): string | null {
-    if (typeof window === 'undefined') return null;
-    return localStorage.getItem('refresh_token');
-  }
 }
 
 // Export singleton instance
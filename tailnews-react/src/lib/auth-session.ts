@@ -0,0 +1,133 @@
+// Session handling for the auth routes, WordPress proxy and middleware
+// Tokens live in httpOnly cookies and are only ever read on the server
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthResponse, SessionResponse, User } from '@/types/auth';
+import { authAPI, AuthAPIError } from './auth-api';
+
+export const AUTH_TOKEN_COOKIE = 'auth_token';
+export const REFRESH_TOKEN_COOKIE = 'auth_refresh';
+const REFRESH_MAX_AGE = 30 * 24 * 60 * 60; // 30 days
+
+export const NO_STORE_HEADERS = { 'Cache-Control': 'private, no-store' };
+
+const COOKIE_OPTIONS = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+};
+
+// Satisfied by `cookies()` in route handlers and by `request.cookies` / `response.cookies` in middleware
+export interface CookieReader {
+  get(name: string): { value: string } | undefined;
+}
+
+export interface CookieWriter {
+  set(name: string, value: string, options: typeof COOKIE_OPTIONS & { maxAge?: number }): unknown;
+  delete(name: string): unknown;
+}
+
+export interface Session {
+  token: string;
+  user?: User; // Only when validated
+  refreshed?: AuthResponse; // New tokens that still need to be written to the cookies
+}
+
+// Users looked up per token, so navigating protected pages doesn't validate on every request
+const USER_CACHE_TTL = 60 * 1000;
+const MAX_CACHED_USERS = 500;
+const users = new Map<string, { user: User; expires: number }>();
+
+function getTokenLifetime(token: string): number {
+  const expires = authAPI.decodeToken(token)?.exp;
+  return expires ? Math.max(0, Math.floor(expires - Date.now() / 1000)) : 0;
+}
+
+export function setSessionCookies(cookies: CookieWriter, auth: AuthResponse): void {
+  cookies.set(AUTH_TOKEN_COOKIE, auth.token, { ...COOKIE_OPTIONS, maxAge: getTokenLifetime(auth.token) || auth.expiresIn });
+  if (auth.refreshToken) {
+    cookies.set(REFRESH_TOKEN_COOKIE, auth.refreshToken, { ...COOKIE_OPTIONS, maxAge: REFRESH_MAX_AGE });
+  }
+}
+
+export function clearSessionCookies(cookies: CookieWriter): void {
+  cookies.delete(AUTH_TOKEN_COOKIE);
+  cookies.delete(REFRESH_TOKEN_COOKIE);
+}
+
+export function toSessionResponse(user: User, token: string): SessionResponse {
+  return { user, expiresIn: getTokenLifetime(token) };
+}
+
+async function refreshSession(cookies: CookieReader): Promise<Session | null> {
+  const refreshToken = cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+  if (!refreshToken) return null;
+
+  try {
+    const auth = await authAPI.refreshToken(refreshToken);
+    return { token: auth.token, user: auth.user, refreshed: auth };
+  } catch {
+    return null;
+  }
+}
+
+// An access token that hasn't expired, refreshed when needed; WordPress checks it on use
+export async function getSessionToken(cookies: CookieReader): Promise<Session | null> {
+  const token = cookies.get(AUTH_TOKEN_COOKIE)?.value;
+  if (token && !authAPI.isTokenExpired(token)) return { token };
+  return refreshSession(cookies);
+}
+
+// The signed-in user, validated with WordPress
+export async function getSessionUser(cookies: CookieReader): Promise<Session | null> {
+  const session = await getSessionToken(cookies);
+  if (!session || session.user) return session;
+
+  const cached = users.get(session.token);
+  if (cached && cached.expires > Date.now()) return { ...session, user: cached.user };
+
+  try {
+    const user = await authAPI.validateToken(session.token);
+    if (users.size >= MAX_CACHED_USERS) users.clear();
+    users.set(session.token, { user, expires: Date.now() + USER_CACHE_TTL });
+    return { ...session, user };
+  } catch {
+    users.delete(session.token);
+    // Revoked on the WordPress side, the refresh token may still be good
+    return refreshSession(cookies);
+  }
+}
+
+export function forgetSessionUser(token: string | undefined): void {
+  if (token) users.delete(token);
+}
+
+// Cookies are SameSite=Lax; requests acting on the session must also come from this site
+// Browsers send Sec-Fetch-Site on every request; older ones only send Origin, and only on POST-like requests
+export function isSameOrigin(request: NextRequest): boolean {
+  const site = request.headers.get('Sec-Fetch-Site');
+  if (site) return site === 'same-origin';
+
+  const origin = request.headers.get('Origin');
+  if (!origin) return false;
+
+  try {
+    return new URL(origin).host === (request.headers.get('X-Forwarded-Host') || request.headers.get('Host'));
+  } catch {
+    return false;
+  }
+}
+
+export function authErrorResponse(error: unknown): NextResponse {
+  if (error instanceof AuthAPIError) {
+    // Network failures reaching WordPress surface as a bad gateway
+    return NextResponse.json({ code: error.code, message: error.message }, { status: error.status || 502, headers: NO_STORE_HEADERS });
+  }
+
+  console.error('Auth route failed:', error);
+  return NextResponse.json({ code: 'UNKNOWN_ERROR', message: 'An unexpected error occurred' }, { status: 500, headers: NO_STORE_HEADERS });
+}
+
+export function crossOriginResponse(): NextResponse {
+  return NextResponse.json({ code: 'FORBIDDEN', message: 'Cross-site request rejected' }, { status: 403, headers: NO_STORE_HEADERS });
+}
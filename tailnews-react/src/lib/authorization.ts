@@ -0,0 +1,52 @@
+// Route protection rules, shared by the middleware guard and client-side checks
+import { AccessStatus, CAPABILITIES, RouteRule, User } from '@/types/auth';
+import { authAPI } from './auth-api';
+
+export const LOGIN_PATH = '/login';
+export const FORBIDDEN_PATH = '/forbidden';
+
+// First matching rule wins, so list more specific patterns first
+export const ROUTE_RULES: RouteRule[] = [
+  { pattern: '/dashboard/comments/**', capability: CAPABILITIES.MODERATE_COMMENTS },
+  { pattern: '/dashboard/**', capability: CAPABILITIES.EDIT_POSTS },
+  { pattern: '/my-posts/**', capability: CAPABILITIES.EDIT_POSTS },
+  { pattern: '/settings/**' },
+  { pattern: '/profile/**' },
+  { pattern: '/bookmarks/**' },
+];
+
+function toRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/\/+$/, '')
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\/\*\*/g, '\u0000')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\u0000/g, '(?:/.*)?');
+  return new RegExp(`^${source}/?$`);
+}
+
+export function matchesRoute(pattern: string, pathname: string): boolean {
+  return toRegExp(pattern).test(pathname);
+}
+
+export function findRouteRule(pathname: string, rules: RouteRule[] = ROUTE_RULES): RouteRule | null {
+  return rules.find(rule => matchesRoute(rule.pattern, pathname)) || null;
+}
+
+export function getAccess(user: User | null, rule: Omit<RouteRule, 'pattern'>): AccessStatus {
+  if (!user) return 'unauthenticated';
+  if (rule.capability && !authAPI.hasCapability(user, rule.capability)) return 'forbidden';
+  if (rule.role && !authAPI.hasRole(user, rule.role)) return 'forbidden';
+  return 'allowed';
+}
+
+// Only paths on this site, so the login form can't be used as an open redirect
+export function getSafeRedirect(value: string | null | undefined, fallback: string = '/'): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) return fallback;
+  return value;
+}
+
+export function getLoginHref(redirectTo: string): string {
+  const target = getSafeRedirect(redirectTo);
+  return target === '/' ? LOGIN_PATH : `${LOGIN_PATH}?redirectTo=${encodeURIComponent(target)}`;
+}
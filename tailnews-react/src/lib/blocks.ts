@@ -0,0 +1,193 @@
+// Gutenberg block data: parsing raw block markup and normalising blocks for rendering
+import { ContentBlock, ContentHeading } from '@/types/api';
+import { WordPressBlock } from '@/types/wordpress';
+import { applyHeadingAnchors, processContent } from './content';
+import { collectElements, isSafeUrl, sanitizeHtml } from './sanitize-html';
+
+export const FREEFORM_BLOCK = 'core/freeform';
+
+// <!-- wp:name {"attrs"} --> opens, <!-- /wp:name --> closes, <!-- wp:name /--> is self-closing
+const BLOCK_DELIMITER = /<!--\s+(\/)?wp:([a-z][a-z0-9_-]*(?:\/[a-z][a-z0-9_-]*)?)\s+(\{[\s\S]*?\}\s+)?(\/)?-->/g;
+
+function createBlock(blockName: string | null, attrs: Record<string, unknown> = {}): WordPressBlock {
+  return { blockName, attrs, innerBlocks: [], innerHTML: '', innerContent: [] };
+}
+
+function appendHtml(block: WordPressBlock, html: string): void {
+  if (!html) return;
+  block.innerHTML += html;
+  block.innerContent.push(html);
+}
+
+function parseAttributes(json?: string): Record<string, unknown> {
+  if (!json) return {};
+  try {
+    const attrs = JSON.parse(json);
+    return attrs && typeof attrs === 'object' && !Array.isArray(attrs) ? attrs : {};
+  } catch {
+    return {};
+  }
+}
+
+// Same tree as WordPress' parse_blocks(), for `content.raw`
+export function parseBlocks(document: string): WordPressBlock[] {
+  const output: WordPressBlock[] = [];
+  const stack: WordPressBlock[] = [];
+  let offset = 0;
+
+  const addFreeform = (html: string) => {
+    if (html.trim()) {
+      const block = createBlock(null);
+      appendHtml(block, html);
+      output.push(block);
+    }
+  };
+
+  // A finished block goes into its parent, or to the top level
+  const place = (block: WordPressBlock) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.innerBlocks.push(block);
+      parent.innerContent.push(null);
+    } else {
+      output.push(block);
+    }
+  };
+
+  const addHtml = (html: string) => {
+    const parent = stack[stack.length - 1];
+    if (parent) appendHtml(parent, html);
+    else addFreeform(html);
+  };
+
+  for (const match of document.matchAll(BLOCK_DELIMITER)) {
+    const [delimiter, closer, rawName, json, selfClosing] = match;
+    const name = rawName.includes('/') ? rawName : `core/${rawName}`;
+
+    addHtml(document.slice(offset, match.index));
+    offset = (match.index || 0) + delimiter.length;
+
+    if (closer) {
+      // Closers without an opener are dropped
+      const block = stack.pop();
+      if (block) place(block);
+    } else if (selfClosing) {
+      place(createBlock(name, parseAttributes(json)));
+    } else {
+      stack.push(createBlock(name, parseAttributes(json)));
+    }
+  }
+
+  addHtml(document.slice(offset));
+
+  // Unclosed blocks run to the end of the document
+  while (stack.length > 0) {
+    place(stack.pop() as WordPressBlock);
+  }
+
+  return output;
+}
+
+// Full markup of a block with its inner blocks in place
+export function getBlockHtml(block: WordPressBlock): string {
+  if (typeof block.rendered === 'string') return block.rendered;
+  if (!block.innerContent?.length) return block.innerHTML || '';
+
+  let index = 0;
+  return block.innerContent
+    .map(chunk => (chunk === null ? (block.innerBlocks[index] ? getBlockHtml(block.innerBlocks[index++]) : '') : chunk))
+    .join('');
+}
+
+function innerHtml(html: string, tag: string): string | undefined {
+  return html.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'))?.[1].trim() || undefined;
+}
+
+function toNumber(value?: string): number | undefined {
+  const number = parseInt(value || '', 10);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+// Image details saved in the block markup rather than its attributes
+function getImageAttributes(html: string, safeHtml: string): Record<string, unknown> {
+  const [image] = collectElements(html, ['img']);
+  if (!image?.attributes.src) return {};
+
+  const [link] = collectElements(safeHtml, ['a']);
+  return {
+    url: image.attributes.src,
+    alt: image.attributes.alt || '',
+    width: toNumber(image.attributes.width),
+    height: toNumber(image.attributes.height),
+    caption: innerHtml(safeHtml, 'figcaption'),
+    href: link?.attributes.href,
+  };
+}
+
+// Attributes sourced from markup, keyed by block name; image URLs come from the original
+// markup, anything rendered as HTML from the sanitised copy
+type AttributeSource = (html: string, safeHtml: string, block: WordPressBlock) => Record<string, unknown>;
+
+const ATTRIBUTE_SOURCES: Record<string, AttributeSource> = {
+  'core/image': getImageAttributes,
+  // Galleries before WordPress 5.9 hold plain images instead of image blocks
+  'core/gallery': (html, safeHtml, block) => (block.innerBlocks.length > 0 ? {} : {
+    images: collectElements(html, ['img']).map(image => ({
+      url: image.attributes.src,
+      alt: image.attributes.alt || '',
+      width: toNumber(image.attributes.width),
+      height: toNumber(image.attributes.height),
+    })),
+  }),
+  'core/pullquote': (html, safeHtml) => ({
+    value: innerHtml(innerHtml(safeHtml, 'blockquote') || '', 'p'),
+    citation: innerHtml(safeHtml, 'cite'),
+  }),
+};
+
+// Keys holding URLs, which renderers use as links and image sources
+const URL_ATTRIBUTE = /(?:url|href|src|link)$/i;
+
+// Comment attributes are written by authors just like the markup: URLs must use a safe
+// protocol and every other string is sanitised, since renderers may output it as HTML
+function sanitizeAttribute(value: unknown, key: string): unknown {
+  if (typeof value === 'string') {
+    if (URL_ATTRIBUTE.test(key)) return isSafeUrl(value) ? value : undefined;
+    return sanitizeHtml(value);
+  }
+  if (Array.isArray(value)) return value.map(item => sanitizeAttribute(item, key));
+  if (value && typeof value === 'object') return sanitizeAttributes(value as Record<string, unknown>);
+  return value;
+}
+
+function sanitizeAttributes(attributes: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(attributes).map(([key, value]) => [key, sanitizeAttribute(value, key)]));
+}
+
+// Blocks ready for the renderer; markup and attributes are sanitised like the rest of the content
+export function normalizeBlocks(blocks: WordPressBlock[]): ContentBlock[] {
+  return blocks.flatMap(block => {
+    const html = getBlockHtml(block);
+    if (!block.blockName && !html.trim()) return [];
+
+    const name = block.blockName || FREEFORM_BLOCK;
+    const safeHtml = processContent(html);
+    const source = Object.hasOwn(ATTRIBUTE_SOURCES, name) ? ATTRIBUTE_SOURCES[name] : undefined;
+
+    return [{
+      name,
+      attributes: sanitizeAttributes({ ...block.attrs, ...(source ? source(html, safeHtml, block) : {}) }),
+      html: safeHtml,
+      innerBlocks: normalizeBlocks(block.innerBlocks || []),
+    }];
+  });
+}
+
+// Heading IDs from the post content, so table of contents links work when rendering blocks
+export function anchorBlocks(blocks: ContentBlock[], headings: ContentHeading[]): ContentBlock[] {
+  return blocks.map(block => ({
+    ...block,
+    html: applyHeadingAnchors(block.html, headings),
+    innerBlocks: anchorBlocks(block.innerBlocks, headings),
+  }));
+}
@@ -0,0 +1,88 @@
+// Next.js data cache tags for server fetches and the entities that purge them
+
+// Collection tags shared by many pages
+export const CACHE_TAGS = {
+  posts: 'posts', // Every post response, single or list
+  postsList: 'posts-list',
+  homepage: 'homepage',
+  sitemap: 'sitemap',
+  pages: 'pages',
+  categories: 'categories',
+  tags: 'tags',
+  authors: 'authors',
+  redirects: 'redirects',
+} as const;
+
+// Tags for a single entity, keyed by slug since that is what every cached fetch is made with
+// Slug changes are purged through the webhook's previous_slug
+export const cacheTags = {
+  postSlug: (slug: string) => `post-slug:${slug}`,
+  category: (slug: string) => `category:${slug}`,
+  tag: (slug: string) => `tag:${slug}`,
+  author: (slug: string) => `author:${slug}`,
+};
+
+interface NamedEntity<T extends string> {
+  type: T;
+  id: number;
+  slug: string;
+}
+
+// WordPress entities as described by the revalidation webhook
+export type CacheEntity =
+  | {
+      type: 'post';
+      id: number;
+      slug: string;
+      categories?: string[];
+      tags?: string[];
+      author?: { id: number; slug: string };
+    }
+  | NamedEntity<'category'>
+  | NamedEntity<'tag'>
+  | NamedEntity<'author'>
+  | NamedEntity<'page'>;
+
+type EntityTagResolver<E extends CacheEntity> = (entity: E) => string[];
+
+// Registry of what must be purged when an entity changes
+const entityTags: { [K in CacheEntity['type']]: EntityTagResolver<Extract<CacheEntity, { type: K }>> } = {
+  post: post => [
+    cacheTags.postSlug(post.slug),
+    CACHE_TAGS.postsList,
+    CACHE_TAGS.homepage,
+    CACHE_TAGS.sitemap,
+    ...(post.categories || []).map(cacheTags.category),
+    ...(post.tags || []).map(cacheTags.tag),
+    ...(post.author ? [cacheTags.author(post.author.slug)] : []),
+  ],
+  // Term names are embedded in every post response
+  category: category => [
+    cacheTags.category(category.slug),
+    CACHE_TAGS.categories,
+    CACHE_TAGS.posts,
+    CACHE_TAGS.homepage,
+    CACHE_TAGS.sitemap,
+  ],
+  tag: tag => [
+    cacheTags.tag(tag.slug),
+    CACHE_TAGS.tags,
+    CACHE_TAGS.posts,
+    CACHE_TAGS.homepage,
+    CACHE_TAGS.sitemap,
+  ],
+  author: author => [
+    cacheTags.author(author.slug),
+    CACHE_TAGS.authors,
+    CACHE_TAGS.sitemap,
+  ],
+  page: () => [
+    CACHE_TAGS.pages,
+    CACHE_TAGS.sitemap,
+  ],
+};
+
+export function getEntityCacheTags(entity: CacheEntity): string[] {
+  const resolve = entityTags[entity.type] as EntityTagResolver<CacheEntity>;
+  return Array.from(new Set(resolve(entity)));
+}
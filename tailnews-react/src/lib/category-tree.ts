@@ -0,0 +1,70 @@
+// Build a nested category tree from the flat WordPress categories list
+import { Category, CategoryNode } from '@/types/api';
+
+// Categories whose parent is missing from the list (e.g. hidden or on another page) become roots
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+  const nodes = new Map<number, CategoryNode>();
+  categories.forEach(category => {
+    nodes.set(category.id, { ...category, children: [], totalCount: category.count, depth: 0 });
+  });
+
+  // Parent links accepted so far, used to reject links that would close a cycle
+  const attachedParents = new Map<number, number>();
+  const closesCycle = (parentId: number, childId: number) => {
+    for (let id: number | undefined = parentId; id !== undefined; id = attachedParents.get(id)) {
+      if (id === childId) return true;
+    }
+    return false;
+  };
+
+  const roots: CategoryNode[] = [];
+  nodes.forEach(node => {
+    const parent = node.parent ? nodes.get(node.parent) : undefined;
+    if (parent && !closesCycle(parent.id, node.id)) {
+      parent.children.push(node);
+      attachedParents.set(node.id, parent.id);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  roots.forEach(root => finalizeNode(root, 0));
+  return sortNodes(roots);
+}
+
+// Set depths and aggregate post counts bottom-up
+function finalizeNode(node: CategoryNode, depth: number): number {
+  node.depth = depth;
+  node.totalCount = node.count + node.children.reduce((sum, child) => sum + finalizeNode(child, depth + 1), 0);
+  sortNodes(node.children);
+  return node.totalCount;
+}
+
+function sortNodes(nodes: CategoryNode[]): CategoryNode[] {
+  return nodes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Find a node anywhere in the tree
+export function findCategoryNode(tree: CategoryNode[], id: number): CategoryNode | null {
+  for (const node of tree) {
+    if (node.id === id) return node;
+    const found = findCategoryNode(node.children, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Ancestors of a category ordered from root to direct parent
+export function getCategoryAncestors(categories: Category[], id: number): Category[] {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const ancestors: Category[] = [];
+  const parentOf = (category?: Category) => (category?.parent ? byId.get(category.parent) : undefined);
+  let parent = parentOf(byId.get(id));
+
+  while (parent && parent.id !== id && !ancestors.includes(parent)) {
+    ancestors.unshift(parent);
+    parent = parentOf(parent);
+  }
+
+  return ancestors;
+}
@@ -0,0 +1,64 @@
+// Server side of the comment spam guard: signed form tokens and a per-client rate limit
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { CommentGuardResult, COMMENT_RATE_LIMIT, COMMENT_SPAM_MESSAGE, checkCommentGuard } from './comments';
+
+// Without COMMENTS_SECRET, tokens are only accepted by the server process that issued them
+const SECRET = process.env.COMMENTS_SECRET || randomBytes(32).toString('hex');
+
+// Forms left open longer than this need a reload
+const FORM_TOKEN_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// Proxies in front of the app that append to X-Forwarded-For, e.g. 2 for a CDN in front of a load balancer
+const TRUSTED_PROXY_HOPS = Math.max(1, parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10) || 1);
+
+const MAX_CLIENTS = 5000;
+const submissions = new Map<string, number[]>();
+
+function sign(value: string): string {
+  return createHmac('sha256', SECRET).update(value).digest('hex');
+}
+
+// The time the form was shown, signed so it can't be backdated
+export function createFormToken(now: number = Date.now()): string {
+  const issued = now.toString(36);
+  return `${issued}.${sign(issued)}`;
+}
+
+// When a token was issued, null when it is forged or expired
+export function readFormToken(token: unknown, now: number = Date.now()): number | null {
+  if (typeof token !== 'string') return null;
+
+  const [issued, signature = ''] = token.split('.');
+  const expected = Buffer.from(sign(issued), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  const issuedAt = parseInt(issued, 36);
+  return issuedAt <= now && now - issuedAt < FORM_TOKEN_MAX_AGE ? issuedAt : null;
+}
+
+// Address the outermost trusted proxy saw; entries left of it are whatever the client sent
+export function getClientKey(headers: Headers, hops: number = TRUSTED_PROXY_HOPS): string {
+  const forwarded = (headers.get('X-Forwarded-For') || '').split(',').map(address => address.trim()).filter(Boolean);
+  return forwarded[Math.max(0, forwarded.length - hops)] || headers.get('X-Real-IP') || 'unknown';
+}
+
+export function guardCommentSubmission(client: string, guard: { honeypot?: unknown; token?: unknown }, now: number = Date.now()): CommentGuardResult {
+  const startedAt = readFormToken(guard.token, now);
+  if (startedAt === null) {
+    return { allowed: false, reason: 'spam', message: COMMENT_SPAM_MESSAGE };
+  }
+
+  const honeypot = typeof guard.honeypot === 'string' ? guard.honeypot : '';
+  return checkCommentGuard({ honeypot, startedAt }, submissions.get(client) || [], now);
+}
+
+export function recordClientSubmission(client: string, now: number = Date.now()): void {
+  const recent = (submissions.get(client) || []).filter(time => now - time < COMMENT_RATE_LIMIT.windowMs);
+  if (!submissions.has(client) && submissions.size >= MAX_CLIENTS) submissions.clear();
+  submissions.set(client, [...recent, now]);
+}
+
+export function resetCommentSubmissions(): void {
+  submissions.clear();
+}
@@ -0,0 +1,106 @@
+// Comment threads, optimistic updates and the spam guard shared by the form and /api/comments
+import { Comment, CommentGuardInput, CommentInput } from '@/types/api';
+
+// Reply levels fetched below top-level comments; WordPress allows up to 10
+export const MAX_COMMENT_DEPTH = 10;
+
+// Bots fill forms instantly, people take a few seconds
+export const MIN_COMMENT_FILL_TIME = 3000;
+
+// Submissions allowed per client within the window
+export const COMMENT_RATE_LIMIT = { max: 3, windowMs: 10 * 60 * 1000 };
+
+export const COMMENT_SPAM_MESSAGE = 'Your comment could not be submitted. Please try again.';
+
+const HISTORY_KEY = 'comment_submissions';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Nest replies under their parents; comments whose parent is missing become threads of their own
+export function buildCommentTree(comments: Comment[]): Comment[] {
+  const nodes = new Map(comments.map(comment => [comment.id, { ...comment, replies: [] as Comment[] }]));
+  const threads: Comment[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent) parent.replies.push(node);
+    else threads.push(node);
+  });
+
+  return threads;
+}
+
+// Add a comment under its parent, or as a new thread
+export function insertComment(threads: Comment[], comment: Comment): Comment[] {
+  if (!comment.parentId) return [...threads, comment];
+
+  return threads.map(thread => (thread.id === comment.parentId
+    ? { ...thread, replies: [...thread.replies, comment] }
+    : { ...thread, replies: insertComment(thread.replies, comment) }));
+}
+
+let pendingId = 0;
+
+// Placeholder shown while a submission is in flight, negative IDs never clash with WordPress
+export function createPendingComment(input: CommentInput, author: Comment['author']): Comment {
+  pendingId -= 1;
+
+  return {
+    id: pendingId,
+    postId: input.post,
+    parentId: input.parent || 0,
+    author,
+    date: new Date().toISOString(),
+    content: input.content
+      .split(/\n{2,}/)
+      .map(paragraph => `<p>${paragraph.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>')}</p>`)
+      .join(''),
+    status: 'hold',
+    pending: true,
+    replies: [],
+  };
+}
+
+// Message for the first problem with a submission, null when it can be sent
+export function validateCommentInput(input: CommentInput, anonymous: boolean): string | null {
+  if (!input.content.trim()) return 'Please write a comment.';
+  if (anonymous && !input.authorName?.trim()) return 'Please enter your name.';
+  if (anonymous && !EMAIL_PATTERN.test(input.authorEmail?.trim() || '')) return 'Please enter a valid email address.';
+  return null;
+}
+
+export function getCommentHistory(): number[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const history = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(history) ? history.filter((time): time is number => typeof time === 'number') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function recordCommentSubmission(now: number = Date.now()): void {
+  if (typeof window === 'undefined') return;
+
+  const recent = getCommentHistory().filter(time => now - time < COMMENT_RATE_LIMIT.windowMs);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify([...recent, now]));
+}
+
+export type CommentGuardResult = { allowed: true } | { allowed: false; reason: 'spam' | 'rate_limited'; message: string };
+
+// Cheap spam checks before WordPress' own flood and duplicate checks; the browser runs them against
+// its own history for quick feedback, /api/comments enforces them per client
+export function checkCommentGuard(guard: CommentGuardInput, history: number[], now: number = Date.now()): CommentGuardResult {
+  if (guard.honeypot || (guard.startedAt !== undefined && now - guard.startedAt < MIN_COMMENT_FILL_TIME)) {
+    return { allowed: false, reason: 'spam', message: COMMENT_SPAM_MESSAGE };
+  }
+
+  const recent = history.filter(time => now - time < COMMENT_RATE_LIMIT.windowMs);
+  if (recent.length >= COMMENT_RATE_LIMIT.max) {
+    const wait = Math.ceil((Math.min(...recent) + COMMENT_RATE_LIMIT.windowMs - now) / 60000);
+    return { allowed: false, reason: 'rate_limited', message: `You are commenting too quickly. Please wait ${wait} minute${wait === 1 ? '' : 's'}.` };
+  }
+
+  return { allowed: true };
+}
@@ -0,0 +1,247 @@
+// Post and page content: sanitised, with WordPress URLs rewritten for this site
+import { ContentHeading } from '@/types/api';
+import { getArchivePath } from './archive';
+import { escapeAttribute, HtmlElement, sanitizeHtml } from './sanitize-html';
+import { SITE_URL } from './site';
+import { WORDPRESS_URL } from './wordpress-client';
+import { decodeHtmlEntities } from './xml';
+
+const UPLOADS_PATH = '/wp-content/uploads/';
+
+// Links into these stay on WordPress
+const WORDPRESS_ONLY_PATHS = /^\/(wp-admin|wp-content|wp-includes|wp-json|wp-login\.php|xmlrpc\.php|feed)(\/|$)/;
+
+// Widths from Next.js' default deviceSizes, the image optimizer rejects any other width
+export const CONTENT_IMAGE_WIDTHS = [640, 750, 828, 1080, 1200, 1920];
+const CONTENT_IMAGE_QUALITY = 75;
+const CONTENT_IMAGE_SIZES = '(max-width: 768px) 100vw, 768px';
+
+// Embeds that may be framed, anything else is removed
+const IFRAME_HOSTS = [
+  'www.youtube.com',
+  'www.youtube-nocookie.com',
+  'player.vimeo.com',
+  'open.spotify.com',
+  'w.soundcloud.com',
+  'platform.twitter.com',
+  'embed.podcasts.apple.com',
+  'www.google.com',
+];
+
+function parseUrl(value: string, base: string = WORDPRESS_URL): URL | null {
+  try {
+    return new URL(value, base);
+  } catch {
+    return null;
+  }
+}
+
+const wordpressOrigin = parseUrl(WORDPRESS_URL)?.origin;
+const siteOrigin = parseUrl(SITE_URL)?.origin;
+
+// Map a WordPress permalink path onto the matching route here; unknown paths are kept, pages resolve by path
+// /slug/ may be a page or a post-name permalink, the catch-all route tells them apart
+export function toSitePath(pathname: string): string {
+  const segments = pathname.split('/').filter(Boolean);
+
+  // Archive pagination, e.g. /category/news/page/2/
+  let page = 0;
+  if (segments.length >= 2 && segments[segments.length - 2] === 'page' && /^\d+$/.test(segments[segments.length - 1])) {
+    page = parseInt(segments.splice(-2)[1], 10);
+  }
+  const withPage = (path: string) => (page > 1 ? `${path}?page=${page}` : path);
+
+  const [first, second] = segments;
+  const last = segments[segments.length - 1];
+
+  if (first === 'category' && second) return withPage(`/category/${last}`);
+  if (first === 'tag' && second) return withPage(`/tag/${second}`);
+  if (first === 'author' && second) return withPage(`/author/${second}`);
+
+  // Date permalinks: /2024/, /2024/05/ archives and /2024/05/21/slug/ posts
+  if (first && /^\d{4}$/.test(first)) {
+    if (!/^\d+$/.test(last)) return `/posts/${last}`;
+
+    const month = second ? parseInt(second, 10) : undefined;
+    return withPage(getArchivePath(parseInt(first, 10), month));
+  }
+
+  return withPage(`/${segments.join('/')}`);
+}
+
+// Slug of the post a /slug/ permalink may point to, when no page has that path
+export function getPermalinkPostSlug(segments: string[]): string | null {
+  if (segments.length !== 1) return null;
+
+  // Numbers are date archives, dots are files
+  const [slug] = segments;
+  return /^\d+$/.test(slug) || slug.includes('.') ? null : slug;
+}
+
+function rewriteLink(element: HtmlElement): HtmlElement {
+  const href = element.attributes.href;
+  const url = href && !href.startsWith('#') ? parseUrl(href) : null;
+  if (!url || !['http:', 'https:'].includes(url.protocol)) return element;
+
+  if (url.origin === wordpressOrigin) {
+    if (WORDPRESS_ONLY_PATHS.test(url.pathname)) {
+      return { ...element, attributes: { ...element.attributes, href: url.toString() } };
+    }
+
+    const path = toSitePath(url.pathname);
+    const search = url.search && path.includes('?') ? `&${url.search.slice(1)}` : url.search;
+    return { ...element, attributes: { ...element.attributes, href: `${path}${search}${url.hash}` } };
+  }
+
+  if (url.origin === siteOrigin) return element;
+
+  // External links must not get a handle on this window
+  const rel = new Set((element.attributes.rel || '').split(/\s+/).filter(Boolean));
+  rel.add('noopener');
+  return { ...element, attributes: { ...element.attributes, rel: Array.from(rel).join(' ') } };
+}
+
+// URL served by the Next.js image optimizer, as next/image would request it
+export function getOptimizedImageUrl(src: string, width: number, quality: number = CONTENT_IMAGE_QUALITY): string {
+  return `/_next/image?url=${encodeURIComponent(src)}&w=${width}&q=${quality}`;
+}
+
+// Images in the WordPress media library, which next/image is configured to load
+export function isWordPressUpload(src: string): boolean {
+  const url = parseUrl(src);
+  return Boolean(url && url.origin === wordpressOrigin && url.pathname.startsWith(UPLOADS_PATH));
+}
+
+function optimizeImage(element: HtmlElement): HtmlElement {
+  const { src, width, sizes } = element.attributes;
+  const url = src ? parseUrl(src) : null;
+  if (!url || !isWordPressUpload(src)) return element;
+
+  // No upscaling beyond the intrinsic width, the smallest width is always offered
+  const intrinsic = parseInt(width || '', 10);
+  const widths = CONTENT_IMAGE_WIDTHS.filter((candidate, index) => index === 0 || Number.isNaN(intrinsic) || candidate <= intrinsic);
+  const source = url.toString();
+
+  return {
+    ...element,
+    attributes: {
+      ...element.attributes,
+      src: getOptimizedImageUrl(source, widths[widths.length - 1]),
+      srcset: widths.map(candidate => `${getOptimizedImageUrl(source, candidate)} ${candidate}w`).join(', '),
+      sizes: sizes || CONTENT_IMAGE_SIZES,
+      loading: element.attributes.loading || 'lazy',
+      decoding: 'async',
+    },
+  };
+}
+
+// Player URL for an embed block's page URL; only providers we can frame safely
+export function getEmbedSrc(value: string): string | null {
+  const url = parseUrl(value, 'https://invalid.invalid');
+  if (!url || url.protocol !== 'https:') return null;
+
+  const host = url.hostname.replace(/^(www|m)\./, '');
+  const youtubeId = host === 'youtu.be' ? url.pathname.slice(1) : host === 'youtube.com' ? url.searchParams.get('v') : null;
+  if (youtubeId && /^[\w-]{6,}$/.test(youtubeId)) {
+    return `https://www.youtube-nocookie.com/embed/${youtubeId}`;
+  }
+
+  const vimeoId = host === 'vimeo.com' ? url.pathname.match(/^\/(\d+)/)?.[1] : null;
+  if (vimeoId) {
+    return `https://player.vimeo.com/video/${vimeoId}`;
+  }
+
+  return null;
+}
+
+function lazyLoadIframe(element: HtmlElement): HtmlElement | null {
+  const url = element.attributes.src ? parseUrl(element.attributes.src) : null;
+  if (!url || url.protocol !== 'https:' || !IFRAME_HOSTS.includes(url.hostname)) return null;
+
+  return { ...element, attributes: { ...element.attributes, src: url.toString(), loading: 'lazy' } };
+}
+
+const ELEMENT_TRANSFORMS: Record<string, (element: HtmlElement) => HtmlElement | null> = {
+  a: rewriteLink,
+  img: optimizeImage,
+  iframe: lazyLoadIframe,
+};
+
+// Rendered WordPress HTML made safe to inject with dangerouslySetInnerHTML
+export function processContent(html: string): string {
+  if (!html) return '';
+
+  return sanitizeHtml(html, {
+    transform: element => (ELEMENT_TRANSFORMS[element.tag] ? ELEMENT_TRANSFORMS[element.tag](element) : element),
+  });
+}
+
+// Headings listed in the table of contents; content is sanitised, so tags are well-formed
+const HEADING_PATTERN = /<h([23])((?:\s[^>]*)?)>([\s\S]*?)<\/h\1>/g;
+const WORDS_PER_MINUTE = 200;
+
+function textContent(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+// Anchor-friendly ID from heading text, e.g. "Why it matters?" -> why-it-matters
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+type HeadingMatch = Omit<ContentHeading, 'id'> & { id?: string };
+
+// Rewrite h2/h3 tags with the id chosen for each; headings without text are left alone
+function mapHeadings(html: string, choose: (heading: HeadingMatch) => string | undefined): string {
+  return html.replace(HEADING_PATTERN, (tag, level: string, attributes: string, inner: string) => {
+    const text = textContent(inner);
+    if (!text) return tag;
+
+    // Serialised by the sanitiser as ` name="value"`, values never contain quotes
+    const parsed = Array.from(attributes.matchAll(/\s([^\s=]+)(?:="([^"]*)")?/g));
+    const current = parsed.find(([, name]) => name === 'id')?.[2];
+    const others = parsed.filter(([, name]) => name !== 'id').map(([attribute]) => attribute).join('');
+    const id = choose({ id: current ? decodeHtmlEntities(current) : undefined, text, level: Number(level) });
+    if (!id) return tag;
+
+    return `<h${level} id="${escapeAttribute(id)}"${others}>${inner}</h${level}>`;
+  });
+}
+
+// Give every h2/h3 a stable, unique ID and list them in document order; IDs set in the editor are kept
+export function addHeadingAnchors(html: string): { html: string; headings: ContentHeading[] } {
+  const headings: ContentHeading[] = [];
+  const used = new Set<string>();
+
+  const anchored = mapHeadings(html, ({ id: current, text, level }) => {
+    const base = current || slugify(text) || 'section';
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+
+    used.add(id);
+    headings.push({ id, text, level });
+    return id;
+  });
+
+  return { html: anchored, headings };
+}
+
+// Apply IDs from addHeadingAnchors to another rendering of the same content, matched by heading text
+export function applyHeadingAnchors(html: string, headings: ContentHeading[]): string {
+  if (headings.length === 0) return html;
+  return mapHeadings(html, ({ text, level }) => headings.find(heading => heading.text === text && heading.level === level)?.id);
+}
+
+// Estimated minutes to read, never less than one
+export function getReadingTime(html: string): number {
+  // Tags separate words, e.g. between paragraphs
+  const words = textContent(html.replace(/</g, ' <')).split(' ').filter(Boolean).length;
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+}
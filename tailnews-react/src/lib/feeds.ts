@@ -0,0 +1,240 @@
+// RSS 2.0, Atom and JSON Feed output for the site and its archives
+import { Metadata } from 'next';
+import { Article } from '@/types/api';
+import { SITE_LANGUAGE, SITE_NAME, SITE_URL } from './site';
+import { decodeHtmlEntities, escapeXml } from './xml';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+// full: the whole article body, excerpt: the summary only
+export type FeedContentMode = 'full' | 'excerpt';
+
+export type FeedScope =
+  | { type: 'site' }
+  | { type: 'category' | 'tag' | 'author'; slug: string };
+
+export interface FeedSource {
+  title: string;
+  description: string;
+  path: string; // HTML page the feed belongs to, e.g. /category/news
+  posts: Article[];
+}
+
+export const FEED_SIZE = 20;
+export const FEED_CONTENT_MODE: FeedContentMode = process.env.FEED_CONTENT === 'full' ? 'full' : 'excerpt';
+
+const FEED_FILES: Record<FeedFormat, string> = {
+  rss: 'feed.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+};
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml',
+  atom: 'application/atom+xml',
+  json: 'application/feed+json',
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+};
+
+function absoluteUrl(path: string): string {
+  return `${SITE_URL}${path === '/' ? '' : path}`;
+}
+
+export function getFeedUrl(path: string, format: FeedFormat): string {
+  return `${absoluteUrl(path)}/${FEED_FILES[format]}`;
+}
+
+// `<link rel="alternate">` tags for a page's feeds, the site feed is always listed first
+export function getFeedAlternates(path: string = '/', title?: string): NonNullable<Metadata['alternates']>['types'] {
+  const feeds = [{ path: '/', title: SITE_NAME }, ...(path !== '/' && title ? [{ path, title: `${title} | ${SITE_NAME}` }] : [])];
+
+  return Object.fromEntries((Object.keys(FEED_FILES) as FeedFormat[]).map(format => [
+    FEED_CONTENT_TYPES[format],
+    feeds.map(feed => ({ url: getFeedUrl(feed.path, format), title: feed.title })),
+  ]));
+}
+
+export function getImageType(url: string): string {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || '';
+  return IMAGE_TYPES[extension] || 'image/jpeg';
+}
+
+// Normalised feed entry built from transformPost output
+interface FeedItem {
+  url: string;
+  title: string;
+  summary: string;
+  content: string;
+  published: Date;
+  modified: Date;
+  author?: string;
+  categories: string[];
+  image?: { url: string; type: string };
+}
+
+// Content links and images are site-relative, feed readers need them absolute
+function absoluteContent(html: string): string {
+  return html
+    .replace(/(\s(?:href|src)=")\/(?!\/)/g, `$1${SITE_URL}/`)
+    .replace(/(\ssrcset=")([^"]*)"/g, (_, attribute: string, srcset: string) =>
+      `${attribute}${srcset.replace(/(^|,\s*)\/(?!\/)/g, `$1${SITE_URL}/`)}"`);
+}
+
+// First of the values that is a valid date; lenient validation lets posts through with empty dates
+function firstValidDate(...values: (string | undefined)[]): Date | null {
+  return values.map(value => new Date(value || '')).find(date => !isNaN(date.getTime())) || null;
+}
+
+// Posts without any usable date are left out, they would make the whole feed fail to serialise
+function toFeedItem(post: Article): FeedItem | null {
+  const published = firstValidDate(post.published, post.date, post.modified);
+  if (!published) return null;
+
+  return {
+    url: absoluteUrl(`/posts/${post.slug}`),
+    title: decodeHtmlEntities(post.title),
+    summary: decodeHtmlEntities(post.excerpt || ''),
+    content: absoluteContent(post.content || ''),
+    published,
+    modified: firstValidDate(post.modified) || published,
+    author: post.author?.name,
+    categories: [post.category?.name, ...(post.tags || []).map(tag => tag.name)]
+      .filter((name): name is string => Boolean(name))
+      .map(decodeHtmlEntities),
+    image: post.featuredImage ? { url: post.featuredImage.url, type: getImageType(post.featuredImage.url) } : undefined,
+  };
+}
+
+function toFeedItems(posts: Article[]): FeedItem[] {
+  return posts.map(toFeedItem).filter((item): item is FeedItem => item !== null);
+}
+
+function lastUpdated(items: FeedItem[]): Date {
+  return items.reduce((latest, item) => (item.modified > latest ? item.modified : latest), items[0]?.modified || new Date());
+}
+
+// `]]>` would close the section early, so split it across two sections
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+export function buildRssFeed(source: FeedSource, mode: FeedContentMode = FEED_CONTENT_MODE): string {
+  const items = toFeedItems(source.posts);
+
+  const entries = items.map(item => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+    `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+    ...(item.author ? [`      <dc:creator>${escapeXml(item.author)}</dc:creator>`] : []),
+    ...item.categories.map(category => `      <category>${escapeXml(category)}</category>`),
+    `      <description>${cdata(item.summary)}</description>`,
+    ...(mode === 'full' ? [`      <content:encoded>${cdata(item.content)}</content:encoded>`] : []),
+    // Length is required but unknown without fetching the image, 0 is the accepted placeholder
+    ...(item.image ? [`      <enclosure url="${escapeXml(item.image.url)}" length="0" type="${item.image.type}" />`] : []),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(source.title)}</title>`,
+    `    <link>${escapeXml(absoluteUrl(source.path))}</link>`,
+    `    <description>${escapeXml(source.description)}</description>`,
+    `    <language>${SITE_LANGUAGE}</language>`,
+    `    <lastBuildDate>${lastUpdated(items).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(getFeedUrl(source.path, 'rss'))}" rel="self" type="${FEED_CONTENT_TYPES.rss}" />`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+  ].join('\n');
+}
+
+export function buildAtomFeed(source: FeedSource, mode: FeedContentMode = FEED_CONTENT_MODE): string {
+  const items = toFeedItems(source.posts);
+
+  const entries = items.map(item => [
+    '  <entry>',
+    `    <id>${escapeXml(item.url)}</id>`,
+    `    <title type="text">${escapeXml(item.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+    `    <published>${item.published.toISOString()}</published>`,
+    `    <updated>${item.modified.toISOString()}</updated>`,
+    ...(item.author ? [`    <author><name>${escapeXml(item.author)}</name></author>`] : []),
+    ...item.categories.map(category => `    <category term="${escapeXml(category)}" />`),
+    `    <summary type="text">${escapeXml(item.summary)}</summary>`,
+    ...(mode === 'full' ? [`    <content type="html">${escapeXml(item.content)}</content>`] : []),
+    ...(item.image ? [`    <link rel="enclosure" type="${item.image.type}" href="${escapeXml(item.image.url)}" />`] : []),
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${SITE_LANGUAGE}">`,
+    `  <id>${escapeXml(absoluteUrl(source.path))}</id>`,
+    `  <title type="text">${escapeXml(source.title)}</title>`,
+    `  <subtitle type="text">${escapeXml(source.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(absoluteUrl(source.path))}" />`,
+    `  <link rel="self" type="${FEED_CONTENT_TYPES.atom}" href="${escapeXml(getFeedUrl(source.path, 'atom'))}" />`,
+    `  <updated>${lastUpdated(items).toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+  ].join('\n');
+}
+
+// JSON Feed 1.1, https://www.jsonfeed.org/version/1.1/
+export function buildJsonFeed(source: FeedSource, mode: FeedContentMode = FEED_CONTENT_MODE): string {
+  const items = toFeedItems(source.posts);
+
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: source.title,
+    home_page_url: absoluteUrl(source.path),
+    feed_url: getFeedUrl(source.path, 'json'),
+    description: source.description,
+    language: SITE_LANGUAGE,
+    items: items.map(item => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      ...(mode === 'full' ? { content_html: item.content } : { content_text: item.summary }),
+      summary: item.summary,
+      image: item.image?.url,
+      date_published: item.published.toISOString(),
+      date_modified: item.modified.toISOString(),
+      authors: item.author ? [{ name: item.author }] : undefined,
+      tags: item.categories.length > 0 ? item.categories : undefined,
+      attachments: item.image ? [{ url: item.image.url, mime_type: item.image.type }] : undefined,
+    })),
+  }, null, 2);
+}
+
+const FEED_BUILDERS: Record<FeedFormat, (source: FeedSource, mode?: FeedContentMode) => string> = {
+  rss: buildRssFeed,
+  atom: buildAtomFeed,
+  json: buildJsonFeed,
+};
+
+// Route handler response, 404 when the category, tag or author does not exist
+export function feedResponse(format: FeedFormat, source: FeedSource | null): Response {
+  if (!source) {
+    return new Response('Feed not found', { status: 404 });
+  }
+
+  return new Response(FEED_BUILDERS[format](source), {
+    headers: {
+      'Content-Type': `${FEED_CONTENT_TYPES[format]}; charset=utf-8`,
+    },
+  });
+}
@@ -0,0 +1,111 @@
+// Open Graph images rendered with next/og
+import { ImageResponse } from 'next/og';
+import { SITE_NAME, SITE_URL } from './site';
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+export const OG_IMAGE_CONTENT_TYPE = 'image/png';
+
+// Brand red first, the rest are picked per category so a category always gets the same colour
+const CATEGORY_COLORS = ['#dc2626', '#2563eb', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#ca8a04'];
+
+// The renderer only decodes these formats
+const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif'];
+
+export function getCategoryColor(slug?: string): string {
+  if (!slug) return CATEGORY_COLORS[0];
+
+  let hash = 0;
+  for (const char of slug) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return CATEGORY_COLORS[hash % CATEGORY_COLORS.length];
+}
+
+// Image id derived from the post's modified time, so the URL changes whenever the post does
+export function getOgImageVersion(modified?: string): string {
+  const time = modified ? new Date(modified).getTime() : NaN;
+  return Number.isNaN(time) ? 'default' : time.toString(36);
+}
+
+// Inline a remote image as a data URL; unsupported or unreachable images are skipped instead of failing the render
+export async function loadOgImage(url?: string): Promise<string | null> {
+  if (!url) return null;
+
+  try {
+    const response = await fetch(url);
+    const type = response.headers.get('Content-Type')?.split(';')[0] || '';
+    if (!response.ok || !SUPPORTED_IMAGE_TYPES.includes(type)) return null;
+
+    const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+    return `data:${type};base64,${data}`;
+  } catch {
+    return null;
+  }
+}
+
+export interface OgCardOptions {
+  title: string;
+  eyebrow?: string; // Category name or archive type above the title
+  color?: string;
+  background?: string | null; // Data URL of a featured image
+  author?: { name: string; avatar?: string | null };
+}
+
+function OgCard({ title, eyebrow, color = CATEGORY_COLORS[0], background, author }: OgCardOptions) {
+  const siteHost = SITE_URL.replace(/^https?:\/\//, '');
+
+  return (
+    <div style={{ display: 'flex', width: '100%', height: '100%', position: 'relative', backgroundColor: '#111827' }}>
+      {background && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={background} alt="" width={OG_IMAGE_SIZE.width} height={OG_IMAGE_SIZE.height} style={{ position: 'absolute', objectFit: 'cover' }} />
+      )}
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          width: '100%',
+          height: '100%',
+          padding: '56px 64px',
+          borderLeft: `16px solid ${color}`,
+          backgroundImage: background ? 'linear-gradient(to top, rgba(0,0,0,0.9), rgba(0,0,0,0.35))' : 'none',
+          color: '#ffffff',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', fontSize: 32, fontWeight: 700 }}>
+          <span style={{ color }}>{SITE_NAME}</span>
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          {eyebrow && (
+            <div style={{ display: 'flex', marginBottom: 20 }}>
+              <span style={{ backgroundColor: color, padding: '6px 16px', fontSize: 26, fontWeight: 700, textTransform: 'uppercase' }}>
+                {eyebrow}
+              </span>
+            </div>
+          )}
+          <div style={{ display: 'flex', fontSize: title.length > 80 ? 52 : 64, fontWeight: 800, lineHeight: 1.15 }}>
+            {title}
+          </div>
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: 28, color: '#d1d5db' }}>
+          <div style={{ display: 'flex', alignItems: 'center' }}>
+            {author?.avatar && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={author.avatar} alt="" width={56} height={56} style={{ borderRadius: 28, marginRight: 16 }} />
+            )}
+            {author && <span>{author.name}</span>}
+          </div>
+          <span>{siteHost}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ImageResponse is served with an immutable Cache-Control, the versioned id keeps it fresh
+export function renderOgImage(options: OgCardOptions): ImageResponse {
+  return new ImageResponse(<OgCard {...options} />, OG_IMAGE_SIZE);
+}
@@ -0,0 +1,60 @@
+// Walk every page of a WordPress collection using X-WP-TotalPages
+import { isInvalidPageError } from './wordpress-errors';
+import { WPTransport } from './wordpress-client';
+
+export interface PaginateOptions {
+  perPage?: number; // Items per request, WordPress caps this at 100
+  concurrency?: number; // Pages fetched in parallel after the first
+  startPage?: number; // First page to fetch, 1-based
+  maxPages?: number; // Upper bound on pages fetched, starting at startPage
+}
+
+const DEFAULT_PAGINATE_OPTIONS: Required<Omit<PaginateOptions, 'maxPages'>> = {
+  perPage: 100,
+  concurrency: 4,
+  startPage: 1,
+};
+
+function pageEndpoint(endpoint: string, page: number, perPage: number): string {
+  const [path, query = ''] = endpoint.split('?');
+  const searchParams = new URLSearchParams(query);
+  searchParams.set('per_page', perPage.toString());
+  searchParams.set('page', page.toString());
+  return `${path}?${searchParams.toString()}`;
+}
+
+// Yields each page's items in order; the first page reveals the total, the rest are fetched in bounded batches
+export async function* paginate<T>(transport: WPTransport, endpoint: string, options: PaginateOptions = {}): AsyncGenerator<T[]> {
+  const { perPage, concurrency, startPage } = { ...DEFAULT_PAGINATE_OPTIONS, ...options };
+
+  const first = await transport.request<T[]>(pageEndpoint(endpoint, startPage, perPage));
+  if (!first.data) {
+    if (isInvalidPageError(first.error)) return;
+    throw first.error;
+  }
+  yield first.data;
+
+  const totalPages = first.totalPages || 1;
+  const lastPage = options.maxPages ? Math.min(totalPages, startPage + options.maxPages - 1) : totalPages;
+
+  for (let page = startPage + 1; page <= lastPage; page += concurrency) {
+    const pages = Array.from({ length: Math.min(concurrency, lastPage - page + 1) }, (_, index) => page + index);
+    const responses = await Promise.all(pages.map(pageNumber => transport.request<T[]>(pageEndpoint(endpoint, pageNumber, perPage))));
+
+    for (const response of responses) {
+      if (!response.data) throw response.error;
+      yield response.data;
+    }
+  }
+}
+
+// Collect every item of a paginated collection into one list
+export async function collectPages<T>(transport: WPTransport, endpoint: string, options: PaginateOptions = {}): Promise<T[]> {
+  const items: T[] = [];
+
+  for await (const page of paginate<T>(transport, endpoint, options)) {
+    items.push(...page);
+  }
+
+  return items;
+}
@@ -0,0 +1,90 @@
+// Draft and revision previews for authenticated editors
+import { cache } from 'react';
+import { Article } from '@/types/api';
+import { User, CAPABILITIES } from '@/types/auth';
+import { WordPressPost, WordPressRevision } from '@/types/wordpress';
+import { authAPI } from './auth-api';
+import { transformPost } from './transforms';
+import { createFetchTransport, createWordPressClient } from './wordpress-client';
+import { isNotFoundError } from './wordpress-errors';
+
+// httpOnly cookie holding the editor's JWT while draft mode is enabled
+export const PREVIEW_TOKEN_COOKIE = 'wp_preview_token';
+export const PREVIEW_MAX_AGE = 60 * 60; // 1 hour
+
+export interface PreviewPost {
+  post: Article;
+  status: WordPressPost['status'];
+  isAutosave: boolean;
+}
+
+// Only users who can edit posts may preview unpublished content
+export async function validatePreviewToken(token: string): Promise<User | null> {
+  try {
+    const user = await authAPI.validateToken(token);
+    return authAPI.hasCapability(user, CAPABILITIES.EDIT_POSTS) ? user : null;
+  } catch {
+    return null;
+  }
+}
+
+// Authenticated client that bypasses every cache layer
+function createPreviewClient(token: string) {
+  return createWordPressClient(createFetchTransport({
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+    init: {
+      cache: 'no-store',
+    },
+    retry: false,
+    circuitBreaker: false,
+    staleIfError: false,
+  }));
+}
+
+// Overlay the newest autosave when it is more recent than the stored post
+export function applyAutosave(post: WordPressPost, autosaves: WordPressRevision[]): { post: WordPressPost; isAutosave: boolean } {
+  const latest = [...autosaves].sort((a, b) => b.modified_gmt.localeCompare(a.modified_gmt))[0];
+
+  if (!latest || latest.modified_gmt <= post.modified_gmt) {
+    return { post, isAutosave: false };
+  }
+
+  return {
+    post: {
+      ...post,
+      title: { ...post.title, rendered: latest.title.rendered },
+      // Block data describes the saved version, so the autosave renders from its HTML
+      content: { ...post.content, rendered: latest.content.rendered, raw: undefined },
+      blocks: undefined,
+      excerpt: { ...post.excerpt, rendered: latest.excerpt.rendered },
+      modified: latest.modified,
+      modified_gmt: latest.modified_gmt,
+    },
+    isAutosave: true,
+  };
+}
+
+// Get any post the editor can see (draft, pending, scheduled) with its latest autosave applied
+// Cached per request so metadata and page rendering share one uncached fetch
+export const getPreviewPost = cache(async (id: number, token: string): Promise<PreviewPost | null> => {
+  const client = createPreviewClient(token);
+  const [postResponse, autosavesResponse] = await Promise.all([
+    client.posts.getPostById(id),
+    client.posts.getPostAutosaves(id),
+  ]);
+
+  if (!postResponse.data) {
+    if (isNotFoundError(postResponse.error)) return null;
+    throw postResponse.error;
+  }
+
+  const { post, isAutosave } = applyAutosave(postResponse.data, autosavesResponse.data || []);
+
+  return {
+    post: transformPost(post),
+    status: post.status,
+    isAutosave,
+  };
+});
@@ -0,0 +1,84 @@
+// Redirects managed by editors in WordPress (Yoast SEO Premium or RankMath)
+import { z } from 'zod';
+import { notFound, permanentRedirect, redirect } from 'next/navigation';
+import { isWordPressUrl } from './seo';
+
+// Opt-in, the endpoint comes from a small WordPress snippet (see README)
+export const REDIRECTS_ENABLED = process.env.WORDPRESS_REDIRECTS === 'true';
+
+export interface Redirect {
+  from: string; // Path on this site, or a pattern when `regex` is set
+  to: string;
+  status: number; // 301, 302, 307, 308, or 410 for removed content
+  regex?: boolean;
+}
+
+const redirectSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().default(''),
+  status: z.coerce.number().int().default(301),
+  regex: z.boolean().optional(),
+});
+
+// Invalid entries are dropped rather than failing the whole list
+export function parseRedirects(data: unknown): Redirect[] {
+  if (!Array.isArray(data)) return [];
+
+  return data.flatMap(item => {
+    const result = redirectSchema.safeParse(item);
+    return result.success ? [result.data] : [];
+  });
+}
+
+// Plugins store paths with or without slashes, match them the same way
+export function normalizePath(path: string): string {
+  const trimmed = path.replace(/^https?:\/\/[^/]+/, '').split(/[?#]/)[0].replace(/^\/+|\/+$/g, '');
+  return `/${trimmed}`;
+}
+
+// Targets on the WordPress host are rewritten to the same path on this site
+function resolveTarget(to: string): string {
+  if (!to) return '/';
+  if (/^https?:\/\//.test(to) && !isWordPressUrl(to)) return to;
+
+  const url = new URL(to, 'http://localhost');
+  return `${url.pathname}${url.search}${url.hash}`;
+}
+
+// Exact matches win over patterns, patterns are tried in order
+export function findRedirect(redirects: Redirect[], path: string): Redirect | null {
+  const current = normalizePath(path);
+
+  const exact = redirects.find(item => !item.regex && normalizePath(item.from) === current);
+  if (exact) {
+    return { ...exact, to: resolveTarget(exact.to) };
+  }
+
+  for (const item of redirects.filter(entry => entry.regex)) {
+    try {
+      const pattern = new RegExp(item.from);
+      if (pattern.test(current)) {
+        return { ...item, to: resolveTarget(current.replace(pattern, item.to)) };
+      }
+    } catch {
+      // Patterns written for PHP may not compile in JavaScript
+    }
+  }
+
+  return null;
+}
+
+// Throw the matching Next.js navigation, does nothing without a redirect
+export function followRedirect(match: Redirect | null): void {
+  if (!match) return;
+
+  if (match.status === 410 || match.status === 451) {
+    notFound();
+  }
+
+  if (match.status === 301 || match.status === 308) {
+    permanentRedirect(match.to);
+  }
+
+  redirect(match.to);
+}
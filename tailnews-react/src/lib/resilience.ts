@@ -0,0 +1,176 @@
+// Retry, backoff and circuit breaker primitives for WordPress API calls
+
+export interface RetryOptions {
+  retries: number; // Number of retries after the first attempt
+  baseDelay: number; // Initial backoff delay in milliseconds
+  maxDelay: number; // Upper bound for a single backoff delay
+  retryOn: number[]; // HTTP statuses that are worth retrying
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelay: 300,
+  maxDelay: 5000,
+  retryOn: [408, 429, 500, 502, 503, 504],
+};
+
+// Statuses whose Retry-After header we honour
+const RETRY_AFTER_STATUSES = [429, 503];
+
+// Methods that can be safely retried
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export function isIdempotent(method: string = 'GET'): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase());
+}
+
+// Exponential backoff with full jitter
+export function computeBackoff(attempt: number, options: Pick<RetryOptions, 'baseDelay' | 'maxDelay'>): number {
+  const exponential = Math.min(options.maxDelay, options.baseDelay * 2 ** attempt);
+  return Math.round(Math.random() * exponential);
+}
+
+// Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+}
+
+// Delay before the next attempt, preferring the server's Retry-After hint
+export function getRetryDelay(
+  attempt: number,
+  options: Pick<RetryOptions, 'baseDelay' | 'maxDelay'>,
+  status?: number,
+  retryAfter?: string | null
+): number {
+  if (status && RETRY_AFTER_STATUSES.includes(status)) {
+    const hinted = parseRetryAfter(retryAfter);
+    if (hinted !== null) {
+      return Math.min(hinted, options.maxDelay);
+    }
+  }
+
+  return computeBackoff(attempt, options);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Circuit breaker
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before opening
+  resetTimeout: number; // Milliseconds to wait before probing again
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeout: 30000,
+};
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probeStartedAt: number | null = null; // Set while the half-open probe is in flight
+
+  constructor(private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS) {}
+
+  // Whether a request may go through; an expired open circuit lets a single probe through at a time
+  canRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.options.resetTimeout) {
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'closed') return true;
+    if (this.state === 'open') return false;
+
+    // A probe that never reported back doesn't hold the circuit forever
+    if (this.probeStartedAt !== null && now - this.probeStartedAt < this.options.resetTimeout) {
+      return false;
+    }
+
+    this.probeStartedAt = now;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probeStartedAt = null;
+  }
+
+  // WordPress answered with a client error: it is up, but that says nothing about a run of failures
+  recordClientError(): void {
+    if (this.state === 'half-open') this.recordSuccess();
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.failures += 1;
+    this.probeStartedAt = null;
+
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  getState(now: number = Date.now()): CircuitState {
+    if (this.state === 'open' && now - this.openedAt >= this.options.resetTimeout) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  reset(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = 0;
+    this.probeStartedAt = null;
+  }
+}
+
+// One breaker per origin so a down WordPress host doesn't affect others
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+function getOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+// Options only apply when the breaker for an origin is first created
+export function getCircuitBreaker(url: string, options?: CircuitBreakerOptions): CircuitBreaker {
+  const origin = getOrigin(url);
+  let breaker = circuitBreakers.get(origin);
+
+  if (!breaker) {
+    breaker = new CircuitBreaker(options);
+    circuitBreakers.set(origin, breaker);
+  }
+
+  return breaker;
+}
+
+export function getCircuitState(url: string): CircuitState {
+  return circuitBreakers.get(getOrigin(url))?.getState() || 'closed';
+}
+
+export function resetCircuitBreakers(): void {
+  circuitBreakers.forEach(breaker => breaker.reset());
+}
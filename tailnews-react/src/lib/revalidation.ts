@@ -0,0 +1,137 @@
+// On-demand ISR revalidation triggered by signed WordPress webhooks
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { getArchivePath } from './archive';
+import { CacheEntity, getEntityCacheTags } from './cache-tags';
+
+export const REVALIDATE_SIGNATURE_HEADER = 'x-wp-signature';
+
+// WordPress renames trashed posts to `<slug>__trashed` (`-2` etc. on clashes), the site only ever knew `<slug>`
+const postSlugSchema = z.string().min(1).transform(slug => slug.replace(/__trashed(?:-\d+)?$/, '') || slug);
+
+// Actions mirror the WordPress hooks the webhook is sent from
+const postSchema = z.object({
+  id: z.number().int(),
+  slug: postSlugSchema,
+  previous_slug: postSlugSchema.optional(),
+  date: z.string().optional(),
+  author: z.object({
+    id: z.number().int(),
+    slug: z.string().min(1),
+  }).optional(),
+  categories: z.array(z.string()).default([]),
+  tags: z.array(z.string()).default([]),
+});
+
+const termSchema = z.object({
+  id: z.number().int(),
+  taxonomy: z.enum(['category', 'post_tag']),
+  slug: z.string().min(1),
+  previous_slug: z.string().optional(),
+});
+
+const payloadSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.enum(['save_post', 'trash_post', 'delete_post']), post: postSchema }),
+  z.object({ action: z.enum(['edit_term', 'delete_term']), term: termSchema }),
+]);
+
+export type RevalidationPayload = z.infer<typeof payloadSchema>;
+
+export interface RevalidationTarget {
+  path: string;
+  type?: 'page' | 'layout';
+}
+
+// Signature is a hex HMAC-SHA256 of the raw request body, optionally prefixed with `sha256=`
+export function signPayload(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+export function verifySignature(body: string, signature: string | null, secret: string): boolean {
+  if (!signature || !secret) return false;
+
+  const expected = Buffer.from(signPayload(body, secret), 'hex');
+  const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+
+  // timingSafeEqual throws on length mismatch
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+export function parseRevalidationPayload(value: unknown): { payload: RevalidationPayload | null; error?: string } {
+  const result = payloadSchema.safeParse(value);
+  if (result.success) {
+    return { payload: result.data };
+  }
+
+  return {
+    payload: null,
+    error: result.error.issues.map(issue => `${issue.path.join('.') || 'payload'}: ${issue.message}`).join('; '),
+  };
+}
+
+// Archive pages for the year and month a post was published in
+function getArchivePaths(date?: string): string[] {
+  const match = date?.match(/^(\d{4})-(\d{2})/);
+  if (!match) return [];
+
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+  return [getArchivePath(year), getArchivePath(year, month)];
+}
+
+// Every page that can render the entity described by the payload
+export function getRevalidationTargets(payload: RevalidationPayload): RevalidationTarget[] {
+  const paths = new Set<string>(['/', '/sitemap_index.xml', '/news-sitemap.xml']);
+
+  if ('post' in payload) {
+    const { post } = payload;
+
+    paths.add(`/posts/${post.slug}`);
+    if (post.previous_slug && post.previous_slug !== post.slug) {
+      paths.add(`/posts/${post.previous_slug}`);
+    }
+    post.categories.forEach(slug => paths.add(`/category/${slug}`));
+    post.tags.forEach(slug => paths.add(`/tag/${slug}`));
+    if (post.categories.length > 0) {
+      paths.add('/categories');
+    }
+    if (post.author) {
+      paths.add(`/author/${post.author.slug}`);
+    }
+    getArchivePaths(post.date).forEach(path => paths.add(path));
+
+    return Array.from(paths, path => ({ path }));
+  }
+
+  const { term } = payload;
+  const base = term.taxonomy === 'category' ? '/category' : '/tag';
+
+  paths.add(`${base}/${term.slug}`);
+  if (term.previous_slug && term.previous_slug !== term.slug) {
+    paths.add(`${base}/${term.previous_slug}`);
+  }
+  if (term.taxonomy === 'category') {
+    paths.add('/categories');
+  }
+
+  // Term names and links are shown on every article
+  return [...Array.from(paths, path => ({ path })), { path: '/posts/[slug]', type: 'page' }];
+}
+
+// Current and previous identities of the changed entity
+function getPayloadEntities(payload: RevalidationPayload): CacheEntity[] {
+  if ('post' in payload) {
+    const { previous_slug, ...post } = payload.post;
+    const entity: CacheEntity = { ...post, type: 'post' };
+    return previous_slug ? [entity, { ...entity, slug: previous_slug }] : [entity];
+  }
+
+  const { previous_slug, taxonomy, id, slug } = payload.term;
+  const entity: CacheEntity = { type: taxonomy === 'category' ? 'category' : 'tag', id, slug };
+  return previous_slug ? [entity, { ...entity, slug: previous_slug }] : [entity];
+}
+
+// Data cache tags to purge for the payload
+export function getRevalidationTags(payload: RevalidationPayload): string[] {
+  return Array.from(new Set(getPayloadEntities(payload).flatMap(getEntityCacheTags)));
+}
@@ -0,0 +1,177 @@
+// Allow-list HTML sanitiser for WordPress content
+// Output is rebuilt from the tokens that pass the allow-list, so markup that fails to
+// parse ends up as escaped text rather than reaching the page
+import { decodeHtmlEntities } from './xml';
+
+export interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+}
+
+// Runs on every allowed element, returning null removes the tag but keeps its content
+export type ElementTransform = (element: HtmlElement) => HtmlElement | null;
+
+export interface SanitizeOptions {
+  transform?: ElementTransform;
+}
+
+const GLOBAL_ATTRIBUTES = ['class', 'id', 'title', 'lang', 'dir'];
+
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: [], br: [], hr: [], div: [], span: [], section: [],
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  strong: [], b: [], em: [], i: [], u: [], s: [], del: ['datetime'], ins: ['datetime'],
+  mark: [], small: [], sub: [], sup: [], abbr: [], cite: [], q: ['cite'],
+  code: [], pre: [], kbd: [], samp: [], var: [], blockquote: ['cite'],
+  ul: [], ol: ['start', 'reversed', 'type'], li: ['value'], dl: [], dt: [], dd: [],
+  a: ['href', 'target', 'rel', 'name'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height', 'loading', 'decoding'],
+  figure: [], figcaption: [], picture: [],
+  source: ['src', 'srcset', 'sizes', 'type', 'media'],
+  video: ['src', 'poster', 'controls', 'muted', 'loop', 'playsinline', 'preload', 'width', 'height'],
+  audio: ['src', 'controls', 'muted', 'loop', 'preload'],
+  track: ['src', 'kind', 'srclang', 'label', 'default'],
+  iframe: ['src', 'width', 'height', 'title', 'allow', 'allowfullscreen', 'loading', 'referrerpolicy'],
+  table: [], thead: [], tbody: [], tfoot: [], tr: [], caption: [], colgroup: [],
+  col: ['span'], th: ['colspan', 'rowspan', 'scope'], td: ['colspan', 'rowspan'],
+  details: ['open'], summary: [], time: ['datetime'],
+};
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'source', 'track', 'col', 'wbr']);
+
+// Dropped together with everything inside them
+const DROPPED_WITH_CONTENT = new Set([
+  'script', 'style', 'template', 'noscript', 'textarea', 'title', 'xmp', 'noembed', 'noframes',
+  'object', 'embed', 'applet', 'svg', 'math', 'select', 'button', 'head',
+]);
+
+// Content is raw text up to the closing tag, never markup
+const RAW_TEXT_TAGS = new Set([...DROPPED_WITH_CONTENT, 'iframe']);
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite', 'poster']);
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<[!?][^>]*>?|<\/([a-zA-Z][\w:-]*)[^>]*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s/>"'=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]*))?)*)\s*\/?>/g;
+const ATTRIBUTE_PATTERN = /([^\s/>"'=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+export function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Relative URLs and the allowed protocols only; whitespace and control characters are ignored by browsers
+export function isSafeUrl(value: string): boolean {
+  const url = value.replace(/[\u0000-\u0020\u007f]/g, '');
+  const scheme = url.match(/^([a-z][a-z0-9+.-]*):/i);
+  return !scheme || SAFE_PROTOCOLS.includes(`${scheme[1].toLowerCase()}:`);
+}
+
+function isSafeSrcset(value: string): boolean {
+  return value.split(',').every(candidate => isSafeUrl(candidate.trim().split(/\s+/)[0] || ''));
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (Object.hasOwn(attributes, name)) continue;
+    attributes[name] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attributes;
+}
+
+function filterAttributes(tag: string, attributes: Record<string, string>): Record<string, string> {
+  const allowed = [...GLOBAL_ATTRIBUTES, ...ALLOWED_TAGS[tag]];
+
+  return Object.fromEntries(Object.entries(attributes).filter(([name, value]) => {
+    if (!allowed.includes(name)) return false;
+    if (URL_ATTRIBUTES.has(name)) return isSafeUrl(value);
+    if (name === 'srcset') return isSafeSrcset(value);
+    if (name === 'target') return value === '_blank';
+    return true;
+  }));
+}
+
+function openTag({ tag, attributes }: HtmlElement): string {
+  const serialized = Object.entries(attributes)
+    .map(([name, value]) => (value === '' ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`))
+    .join('');
+  return `<${tag}${serialized}>`;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function sanitizeHtml(html: string, options: SanitizeOptions = {}): string {
+  const output: string[] = [];
+  const open: string[] = []; // Emitted tags still waiting for their closing tag
+  let position = 0;
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TOKEN_PATTERN.exec(html)) !== null) {
+    output.push(escapeText(html.slice(position, match.index)));
+    position = TOKEN_PATTERN.lastIndex;
+
+    const [, closeName, openName, attributeSource = ''] = match;
+
+    if (openName) {
+      const tag = openName.toLowerCase();
+
+      // Skip raw text to its closing tag, or to the end when it is never closed
+      if (RAW_TEXT_TAGS.has(tag)) {
+        const close = html.toLowerCase().indexOf(`</${tag}`, position);
+        const end = close === -1 ? html.length : html.indexOf('>', close) + 1 || html.length;
+        position = end;
+        TOKEN_PATTERN.lastIndex = end;
+        if (DROPPED_WITH_CONTENT.has(tag)) continue;
+      }
+
+      if (!Object.hasOwn(ALLOWED_TAGS, tag)) continue;
+
+      const element = { tag, attributes: filterAttributes(tag, parseAttributes(attributeSource)) };
+      const result = options.transform ? options.transform(element) : element;
+      if (!result) continue;
+
+      output.push(openTag(result));
+      if (tag === 'iframe') {
+        output.push('</iframe>');
+      } else if (!VOID_TAGS.has(tag)) {
+        open.push(tag);
+      }
+      continue;
+    }
+
+    if (closeName) {
+      // Close anything left open inside it; stray closing tags are dropped
+      const index = open.lastIndexOf(closeName.toLowerCase());
+      if (index !== -1) {
+        output.push(...open.splice(index).reverse().map(tag => `</${tag}>`));
+      }
+    }
+
+    // Comments, doctypes and processing instructions are dropped
+  }
+
+  output.push(escapeText(html.slice(position)));
+  output.push(...open.reverse().map(tag => `</${tag}>`));
+
+  return output.join('');
+}
+
+// Allowed elements of the given tags, in document order
+export function collectElements(html: string, tags: string[]): HtmlElement[] {
+  const elements: HtmlElement[] = [];
+
+  sanitizeHtml(html, {
+    transform: element => {
+      if (tags.includes(element.tag)) elements.push(element);
+      return element;
+    },
+  });
+
+  return elements;
+}
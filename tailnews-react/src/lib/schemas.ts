@@ -0,0 +1,237 @@
+// Runtime schemas for WordPress REST API responses
+import { z } from 'zod';
+import { WordPressPost, WordPressPage, WordPressCategory, WordPressTag, WordPressAuthor, WordPressMedia, WordPressComment } from '@/types/wordpress';
+
+// strict: any schema violation fails the response
+// lenient: recoverable fields fall back to defaults, unrecoverable items are dropped from lists
+export type ValidationMode = 'strict' | 'lenient';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  data: T | null;
+  issues: ValidationIssue[];
+}
+
+// Some plugins flatten `{ rendered }` fields to plain strings
+const rendered = (lenient: boolean) => {
+  const schema = z.preprocess(
+    value => (typeof value === 'string' ? { rendered: value } : value),
+    z.object({
+      rendered: z.string(),
+      protected: z.boolean().optional(),
+    }).passthrough()
+  );
+  return lenient ? schema.catch({ rendered: '' }) : schema;
+};
+
+const links = z.record(z.array(z.object({ href: z.string() }).passthrough()));
+
+// Build the entity schemas, applying fallbacks only in lenient mode
+function buildSchemas(lenient: boolean) {
+  const withDefault = <T extends z.ZodTypeAny>(schema: T, fallback: z.output<T>) =>
+    lenient ? schema.catch(fallback) : schema;
+
+  // Identity fields never get defaults: an entity without them is unusable
+  const id = z.number().int();
+  const slug = z.string();
+
+  const post = z.object({
+    id,
+    slug,
+    date: withDefault(z.string(), ''),
+    date_gmt: withDefault(z.string(), ''),
+    modified: withDefault(z.string(), ''),
+    modified_gmt: withDefault(z.string(), ''),
+    status: withDefault(z.string(), 'publish'),
+    type: withDefault(z.string(), 'post'),
+    link: withDefault(z.string(), ''),
+    title: rendered(lenient),
+    content: rendered(lenient),
+    excerpt: rendered(lenient),
+    author: withDefault(z.number(), 0),
+    featured_media: withDefault(z.number(), 0),
+    comment_status: withDefault(z.enum(['open', 'closed']), 'closed'),
+    ping_status: withDefault(z.enum(['open', 'closed']), 'closed'),
+    sticky: withDefault(z.boolean(), false),
+    template: withDefault(z.string(), ''),
+    format: withDefault(z.string(), 'standard'),
+    meta: withDefault(z.union([z.record(z.unknown()), z.array(z.unknown())]), {}),
+    categories: withDefault(z.array(z.number()), []),
+    tags: withDefault(z.array(z.number()), []),
+    _links: withDefault(links, {}),
+    _embedded: withDefault(z.record(z.unknown()).optional(), undefined),
+  }).passthrough();
+
+  const page = z.object({
+    id,
+    slug,
+    date: withDefault(z.string(), ''),
+    date_gmt: withDefault(z.string(), ''),
+    modified: withDefault(z.string(), ''),
+    modified_gmt: withDefault(z.string(), ''),
+    status: withDefault(z.string(), 'publish'),
+    type: withDefault(z.string(), 'page'),
+    link: withDefault(z.string(), ''),
+    title: rendered(lenient),
+    content: rendered(lenient),
+    excerpt: rendered(lenient),
+    author: withDefault(z.number(), 0),
+    featured_media: withDefault(z.number(), 0),
+    parent: withDefault(z.number(), 0),
+    menu_order: withDefault(z.number(), 0),
+    comment_status: withDefault(z.enum(['open', 'closed']), 'closed'),
+    template: withDefault(z.string(), ''),
+    meta: withDefault(z.union([z.record(z.unknown()), z.array(z.unknown())]), {}),
+    _links: withDefault(links, {}),
+    _embedded: withDefault(z.record(z.unknown()).optional(), undefined),
+  }).passthrough();
+
+  const term = {
+    id,
+    slug,
+    name: withDefault(z.string(), ''),
+    count: withDefault(z.number(), 0),
+    description: withDefault(z.string(), ''),
+    link: withDefault(z.string(), ''),
+    meta: withDefault(z.union([z.record(z.unknown()), z.array(z.unknown())]), {}),
+    _links: withDefault(links, {}),
+  };
+
+  const category = z.object({
+    ...term,
+    taxonomy: withDefault(z.literal('category'), 'category'),
+    parent: withDefault(z.number(), 0),
+  }).passthrough();
+
+  const tag = z.object({
+    ...term,
+    taxonomy: withDefault(z.literal('post_tag'), 'post_tag'),
+  }).passthrough();
+
+  const user = z.object({
+    id,
+    slug,
+    name: withDefault(z.string(), ''),
+    url: withDefault(z.string(), ''),
+    description: withDefault(z.string(), ''),
+    link: withDefault(z.string(), ''),
+    avatar_urls: withDefault(z.record(z.string()), {}),
+    meta: withDefault(z.union([z.record(z.unknown()), z.array(z.unknown())]), {}),
+    _links: withDefault(links, {}),
+  }).passthrough();
+
+  const media = z.object({
+    id,
+    slug: withDefault(z.string(), ''),
+    date: withDefault(z.string(), ''),
+    modified: withDefault(z.string(), ''),
+    title: rendered(lenient),
+    caption: rendered(lenient),
+    description: rendered(lenient),
+    alt_text: withDefault(z.string(), ''),
+    media_type: withDefault(z.enum(['image', 'video', 'audio', 'file']), 'file'),
+    mime_type: withDefault(z.string(), ''),
+    source_url: z.string(),
+    media_details: withDefault(z.record(z.unknown()), {}),
+    _links: withDefault(links, {}),
+  }).passthrough();
+
+  const comment = z.object({
+    id,
+    post: z.number(),
+    parent: withDefault(z.number(), 0),
+    author: withDefault(z.number(), 0),
+    author_name: withDefault(z.string(), ''),
+    author_url: withDefault(z.string(), ''),
+    author_avatar_urls: withDefault(z.record(z.string()), {}),
+    date: withDefault(z.string(), ''),
+    date_gmt: withDefault(z.string(), ''),
+    content: rendered(lenient),
+    link: withDefault(z.string(), ''),
+    status: withDefault(z.string(), 'approved'),
+    type: withDefault(z.string(), 'comment'),
+    _links: withDefault(links, {}),
+  }).passthrough();
+
+  return { post, page, category, tag, user, media, comment };
+}
+
+const strictSchemas = buildSchemas(false);
+const lenientSchemas = buildSchemas(true);
+
+export type EntityKind = keyof typeof strictSchemas;
+
+export interface EntityTypes {
+  post: WordPressPost;
+  page: WordPressPage;
+  category: WordPressCategory;
+  tag: WordPressTag;
+  user: WordPressAuthor;
+  media: WordPressMedia;
+  comment: WordPressComment;
+}
+
+function toIssues(error: z.ZodError, prefix: string): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: [prefix, ...issue.path].filter(part => part !== '').join('.'),
+    message: issue.message,
+  }));
+}
+
+// Validate a single entity; strict issues are always reported, even when lenient mode recovers
+export function validateEntity<K extends EntityKind>(
+  kind: K,
+  value: unknown,
+  mode: ValidationMode = 'lenient',
+  path: string = kind
+): ValidationResult<EntityTypes[K]> {
+  const strict = strictSchemas[kind].safeParse(value);
+  if (strict.success) {
+    return { data: strict.data as unknown as EntityTypes[K], issues: [] };
+  }
+
+  const issues = toIssues(strict.error, path);
+  if (mode === 'strict') {
+    return { data: null, issues };
+  }
+
+  const lenient = lenientSchemas[kind].safeParse(value);
+  return {
+    data: lenient.success ? lenient.data as unknown as EntityTypes[K] : null,
+    issues,
+  };
+}
+
+// Validate a list; in lenient mode items that cannot be recovered are dropped
+export function validateList<K extends EntityKind>(
+  kind: K,
+  value: unknown,
+  mode: ValidationMode = 'lenient'
+): ValidationResult<EntityTypes[K][]> {
+  if (!Array.isArray(value)) {
+    return { data: null, issues: [{ path: kind, message: 'Expected array' }] };
+  }
+
+  const items: EntityTypes[K][] = [];
+  const issues: ValidationIssue[] = [];
+
+  value.forEach((item, index) => {
+    const result = validateEntity(kind, item, mode, `${kind}[${index}]`);
+    issues.push(...result.issues);
+    if (result.data) items.push(result.data);
+  });
+
+  if (mode === 'strict' && issues.length > 0) {
+    return { data: null, issues };
+  }
+
+  return { data: items, issues };
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+}
@@ -0,0 +1,195 @@
+// Editor-set SEO metadata from Yoast SEO or RankMath, mapped onto Next.js Metadata
+import { Metadata } from 'next';
+import { SeoMeta } from '@/types/api';
+import { YoastHeadJson } from '@/types/wordpress';
+import { WORDPRESS_URL } from './wordpress-client';
+import { decodeHtmlEntities } from './xml';
+
+// Yoast data arrives on every REST response; RankMath needs a request to its headless endpoint
+export type SeoPlugin = 'yoast' | 'rankmath';
+export const SEO_PLUGIN: SeoPlugin = process.env.SEO_PLUGIN === 'rankmath' ? 'rankmath' : 'yoast';
+
+type Robots = NonNullable<SeoMeta['robots']>;
+
+const IMAGE_PREVIEWS: Robots['maxImagePreview'][] = ['none', 'standard', 'large'];
+
+function toNumber(value?: string | number): number | undefined {
+  const number = typeof value === 'number' ? value : parseInt(value || '', 10);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function toImagePreview(value?: string): Robots['maxImagePreview'] {
+  return IMAGE_PREVIEWS.find(preview => preview === value);
+}
+
+function text(value?: string): string | undefined {
+  const decoded = value ? decodeHtmlEntities(value).trim() : '';
+  return decoded || undefined;
+}
+
+// Drop empty sections so callers can tell "not set" from "set"
+function compact(seo: SeoMeta): SeoMeta | undefined {
+  const result: SeoMeta = { ...seo };
+  if (result.openGraph && !result.openGraph.title && !result.openGraph.description && result.openGraph.images.length === 0) {
+    delete result.openGraph;
+  }
+  if (result.twitter && !result.twitter.card && !result.twitter.title && !result.twitter.description && !result.twitter.image) {
+    delete result.twitter;
+  }
+  for (const key of Object.keys(result) as (keyof SeoMeta)[]) {
+    if (result[key] === undefined) delete result[key];
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+function toTwitterCard(card?: string): NonNullable<SeoMeta['twitter']>['card'] {
+  return card === 'summary' || card === 'summary_large_image' ? card : undefined;
+}
+
+export function fromYoastHead(head: YoastHeadJson): SeoMeta | undefined {
+  return compact({
+    title: text(head.title),
+    description: text(head.description),
+    canonical: head.canonical || undefined,
+    robots: head.robots ? {
+      index: head.robots.index !== 'noindex',
+      follow: head.robots.follow !== 'nofollow',
+      maxSnippet: toNumber(head.robots['max-snippet']?.replace('max-snippet:', '')),
+      maxImagePreview: toImagePreview(head.robots['max-image-preview']?.replace('max-image-preview:', '')),
+      maxVideoPreview: toNumber(head.robots['max-video-preview']?.replace('max-video-preview:', '')),
+    } : undefined,
+    openGraph: {
+      title: text(head.og_title),
+      description: text(head.og_description),
+      images: (head.og_image || []).filter(image => image.url).map(image => ({
+        url: image.url,
+        width: image.width,
+        height: image.height,
+      })),
+    },
+    twitter: {
+      card: toTwitterCard(head.twitter_card),
+      title: text(head.twitter_title),
+      description: text(head.twitter_description),
+      image: head.twitter_image || undefined,
+    },
+  });
+}
+
+// robots meta content, e.g. "noindex, follow, max-image-preview:large"
+export function parseRobots(content: string): Robots {
+  const directives = content.split(',').map(directive => directive.trim().toLowerCase());
+  const value = (name: string) => directives.find(directive => directive.startsWith(`${name}:`))?.slice(name.length + 1);
+
+  return {
+    index: !directives.includes('noindex') && !directives.includes('none'),
+    follow: !directives.includes('nofollow') && !directives.includes('none'),
+    maxSnippet: toNumber(value('max-snippet')),
+    maxImagePreview: toImagePreview(value('max-image-preview')),
+    maxVideoPreview: toNumber(value('max-video-preview')),
+  };
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(["'])([\s\S]*?)\2/g)) {
+    attributes[match[1].toLowerCase()] = match[3];
+  }
+  return attributes;
+}
+
+// RankMath's headless endpoint returns the rendered <head> markup
+export function parseHeadHtml(html: string): SeoMeta | undefined {
+  const meta: Record<string, string> = {};
+  const images: NonNullable<SeoMeta['openGraph']>['images'] = [];
+  let canonical: string | undefined;
+
+  for (const match of html.matchAll(/<(meta|link)\s[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0]);
+
+    if (match[1].toLowerCase() === 'link') {
+      if (attributes.rel === 'canonical') canonical = attributes.href;
+      continue;
+    }
+
+    const key = attributes.property || attributes.name;
+    if (!key || attributes.content === undefined) continue;
+
+    // Width, height and alt describe the most recent og:image
+    if (key === 'og:image') {
+      images.push({ url: attributes.content });
+    } else if (key.startsWith('og:image:') && images.length > 0) {
+      const image = images[images.length - 1];
+      if (key === 'og:image:width') image.width = toNumber(attributes.content);
+      if (key === 'og:image:height') image.height = toNumber(attributes.content);
+      if (key === 'og:image:alt') image.alt = text(attributes.content);
+    } else if (!(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  return compact({
+    title: text(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]),
+    description: text(meta.description),
+    canonical,
+    robots: meta.robots ? parseRobots(meta.robots) : undefined,
+    openGraph: {
+      title: text(meta['og:title']),
+      description: text(meta['og:description']),
+      images: images.map(image => (image.url.startsWith('http') ? image : { ...image, url: new URL(image.url, WORDPRESS_URL).toString() })),
+    },
+    twitter: {
+      card: toTwitterCard(meta['twitter:card']),
+      title: text(meta['twitter:title']),
+      description: text(meta['twitter:description']),
+      image: meta['twitter:image'] || undefined,
+    },
+  });
+}
+
+// Plugins compute canonicals against WordPress, whose URLs differ from ours; only
+// canonicals pointing elsewhere are an editor's choice
+export function isWordPressUrl(url: string): boolean {
+  try {
+    return new URL(url).origin === new URL(WORDPRESS_URL).origin;
+  } catch {
+    return false;
+  }
+}
+
+// Overlay editor-set values on the page's own metadata, which fills anything left unset
+export function seoMetadata(seo: SeoMeta | undefined, fallback: Metadata): Metadata {
+  if (!seo) return fallback;
+
+  const { openGraph, twitter, robots } = seo;
+  const canonical = seo.canonical && !isWordPressUrl(seo.canonical) ? seo.canonical : undefined;
+
+  return {
+    ...fallback,
+    title: seo.title ? { absolute: seo.title } : fallback.title,
+    description: seo.description || fallback.description,
+    robots: robots ? {
+      index: robots.index,
+      follow: robots.follow,
+      'max-snippet': robots.maxSnippet,
+      'max-image-preview': robots.maxImagePreview,
+      'max-video-preview': robots.maxVideoPreview,
+    } : fallback.robots,
+    alternates: canonical ? { ...fallback.alternates, canonical } : fallback.alternates,
+    openGraph: {
+      ...fallback.openGraph,
+      title: openGraph?.title || seo.title || fallback.openGraph?.title,
+      description: openGraph?.description || seo.description || fallback.openGraph?.description,
+      // Only set images when the editor chose one, so generated images still apply otherwise
+      ...(openGraph?.images.length ? { images: openGraph.images } : {}),
+    },
+    twitter: {
+      ...fallback.twitter,
+      ...(twitter?.card ? { card: twitter.card } : {}),
+      title: twitter?.title || openGraph?.title || seo.title || fallback.twitter?.title,
+      description: twitter?.description || openGraph?.description || seo.description || fallback.twitter?.description,
+      ...(twitter?.image ? { images: [twitter.image] } : {}),
+    },
+  };
+}
@@ -1,274 +1,344 @@
 // Server-side WordPress API functions for SSR/SSG
-import { WordPressPost, WordPressCategory, WordPressAuthor, WordPressMedia } from '@/types/wordpress';
-import { Article, Category, Author } from '@/types/api';
-import { transformPost, transformCategory, transformAuthor } from './transforms';
-
-// WordPress API Configuration for server-side
-const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL || 'https://your-wordpress-site.com/wp-json/wp/v2';
-
-// Server-side fetch with better error handling and timeout
-async function serverFetch<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-  try {
-    const url = `${WORDPRESS_API_URL}${endpoint}`;
-    const response = await fetch(url, {
-      headers: {
-        'Content-Type': 'application/json',
-        'User-Agent': 'Tailnews-React/1.0',
-        ...options.headers,
-      },
-      signal: controller.signal,
-      // Add cache control for better performance
-      next: {
-        revalidate: process.env.NODE_ENV === 'development' ? 0 : 60, // Revalidate every minute in production
-      },
-      ...options,
-    });
+import { WordPressPost, WordPressPage, WordPressCategory, WordPressTag, WordPressAuthor } from '@/types/wordpress';
+import { Article, Page, Category, CategoryNode, Tag, ArchiveMonth, Author, SeoMeta, PostsParams, PagesParams, CategoriesParams, TagsParams, AuthorsParams, PaginationParams } from '@/types/api';
+import { transformPost, transformPage, transformCategory, transformTag, transformAuthor, toUTCDate } from './transforms';
+import { createWordPressClient, serverRootTransport, serverTransport, withCacheTags } from './wordpress-client';
+import { isInvalidPageError, isNotFoundError } from './wordpress-errors';
+import { buildCategoryTree } from './category-tree';
+import { getArchiveRange, getMonthsBetween } from './archive';
+import { CACHE_TAGS, cacheTags } from './cache-tags';
+import { PaginateOptions, collectPages } from './paginate';
+import { NEWS_SITEMAP_LIMIT, getNewsWindow } from './sitemap';
+import { decodeHtmlEntities } from './xml';
+import { FEED_SIZE, FeedScope, FeedSource } from './feeds';
+import { SITE_DESCRIPTION, SITE_NAME } from './site';
+import { SEO_PLUGIN, parseHeadHtml } from './seo';
+import { REDIRECTS_ENABLED, Redirect, findRedirect, parseRedirects } from './redirects';
+
+// Server-side transport whose fetches carry Next.js cache tags, so webhooks can purge exactly what changed
+function taggedTransport(...tags: string[]) {
+  return withCacheTags(serverTransport, tags);
+}
 
-    clearTimeout(timeoutId);
+// Server-side client, shares query building and error handling with the browser API
+function taggedClient(...tags: string[]) {
+  return createWordPressClient(taggedTransport(...tags));
+}
 
-    if (!response.ok) {
-      throw new Error(`WordPress API Error: ${response.status} ${response.statusText}`);
-    }
+// RankMath has no REST field, its head is rendered per permalink; Yoast data is already on the entity
+async function withRankMathSeo<T extends { seo?: SeoMeta }>(entity: T, link: string, tags: string[]): Promise<T> {
+  if (SEO_PLUGIN !== 'rankmath' || entity.seo || !link) return entity;
 
-    return await response.json();
-  } catch (error) {
-    clearTimeout(timeoutId);
-    
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        throw new Error('WordPress API request timeout');
-      }
-      throw error;
-    }
-    throw new Error('Unknown WordPress API error');
-  }
+  const seo = await serverSeoAPI.getRankMathHead(link, tags);
+  return seo ? { ...entity, seo } : entity;
 }
 
 // Server-side Posts API
 export const serverPostsAPI = {
   // Get all posts with server-side rendering support
-  async getPosts(params: {
-    page?: number;
-    per_page?: number;
-    categories?: number[];
-    tags?: number[];
-    author?: number;
-    search?: string;
-    orderby?: 'date' | 'title' | 'menu_order';
-    order?: 'asc' | 'desc';
-    status?: 'publish' | 'draft' | 'private';
-  } = {}): Promise<{ posts: Article[]; totalPages: number; total: number }> {
-    const searchParams = new URLSearchParams();
-    
-    // Set default values
-    searchParams.set('_embed', 'true');
-    searchParams.set('per_page', (params.per_page || 10).toString());
-    searchParams.set('page', (params.page || 1).toString());
-    searchParams.set('orderby', params.orderby || 'date');
-    searchParams.set('order', params.order || 'desc');
-    searchParams.set('status', params.status || 'publish');
-
-    // Add optional filters
-    if (params.categories?.length) {
-      searchParams.set('categories', params.categories.join(','));
-    }
-    if (params.tags?.length) {
-      searchParams.set('tags', params.tags.join(','));
-    }
-    if (params.author) {
-      searchParams.set('author', params.author.toString());
+  // A missing or out-of-range page is empty; other failures throw once retries and stale data are exhausted,
+  // so the page renders the error boundary instead of caching empty sections
+  async getPosts(params: PostsParams = {}, tags: string[] = []): Promise<{ posts: Article[]; totalPages: number; total: number }> {
+    const response = await taggedClient(CACHE_TAGS.posts, CACHE_TAGS.postsList, ...tags).posts.getPosts(params);
+
+    if (!response.data) {
+      if (isNotFoundError(response.error) || isInvalidPageError(response.error)) return { posts: [], totalPages: 1, total: 0 };
+      throw response.error;
     }
-    if (params.search) {
-      searchParams.set('search', params.search);
+
+    return {
+      posts: response.data.map(transformPost),
+      totalPages: response.totalPages || 1,
+      total: response.total || 0,
+    };
+  },
+
+  // Get single post by slug for SSR
+  // Resolves to null only when the post does not exist; other failures throw so the
+  // page renders the error boundary instead of caching a 404
+  async getPostBySlug(slug: string): Promise<Article | null> {
+    const tags = [CACHE_TAGS.posts, cacheTags.postSlug(slug)];
+    const response = await taggedClient(...tags).posts.getPostBySlug(slug);
+
+    if (!response.data) {
+      if (isNotFoundError(response.error)) return null;
+      throw response.error;
     }
 
+    return withRankMathSeo(transformPost(response.data), response.data.link, tags);
+  },
+
+  // Number of published posts, read from X-WP-Total
+  async getPostCount(tags: string[] = []): Promise<number> {
     try {
-      const response = await fetch(`${WORDPRESS_API_URL}/posts?${searchParams.toString()}`, {
-        headers: { 'Content-Type': 'application/json' },
-        next: { revalidate: 60 },
-      });
+      const response = await taggedTransport(CACHE_TAGS.posts, CACHE_TAGS.postsList, ...tags).request<Pick<WordPressPost, 'id'>[]>('/posts?per_page=1&_fields=id');
+      return response.total || 0;
+    } catch (error) {
+      console.error('Server post count error:', error);
+      return 0;
+    }
+  },
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch posts: ${response.statusText}`);
-      }
+  // Slugs, UTC last-modified dates and featured images of published posts for sitemaps, a page range bounds large sites
+  // Failures throw so a sitemap is never served with posts silently missing
+  async getPostSitemapEntries(range: Pick<PaginateOptions, 'startPage' | 'maxPages'> = {}, tags: string[] = []): Promise<{ slug: string; modified: string; image?: string }[]> {
+    const posts = await collectPages<Pick<WordPressPost, 'slug' | 'date' | 'modified_gmt' | '_embedded'>>(
+      taggedTransport(CACHE_TAGS.posts, CACHE_TAGS.postsList, ...tags),
+      '/posts?orderby=date&order=desc&_embed=wp:featuredmedia&_fields=slug,date,modified_gmt,_links,_embedded',
+      range
+    );
+
+    return posts.map(post => ({
+      slug: post.slug,
+      modified: toUTCDate(post.modified_gmt, post.date),
+      image: post._embedded?.['wp:featuredmedia']?.[0]?.source_url || undefined,
+    }));
+  },
 
-      const posts: WordPressPost[] = await response.json();
-      const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1');
-      const total = parseInt(response.headers.get('X-WP-Total') || '0');
+  // Posts published in the Google News window, newest first, with plain text titles
+  async getNewsSitemapEntries(tags: string[] = []): Promise<{ slug: string; title: string; published: string }[]> {
+    const { cutoff, after } = getNewsWindow();
+    const posts = await collectPages<Pick<WordPressPost, 'slug' | 'title' | 'date_gmt'>>(
+      taggedTransport(CACHE_TAGS.posts, CACHE_TAGS.postsList, ...tags),
+      `/posts?orderby=date&order=desc&after=${after}&_fields=slug,title,date_gmt`,
+      { maxPages: NEWS_SITEMAP_LIMIT / 100 }
+    );
+
+    return posts
+      .map(post => ({ slug: post.slug, title: decodeHtmlEntities(post.title.rendered), published: toUTCDate(post.date_gmt) }))
+      .filter(post => new Date(post.published) >= cutoff);
+  },
 
-      return {
-        posts: posts.map(transformPost),
-        totalPages,
-        total,
-      };
-    } catch (error) {
-      console.error('Server posts API error:', error);
-      return { posts: [], totalPages: 1, total: 0 };
+  // Get featured posts for homepage SSR, failures throw like getPosts
+  async getFeaturedPosts(limit: number = 5, tags: string[] = []): Promise<Article[]> {
+    const response = await taggedClient(CACHE_TAGS.posts, CACHE_TAGS.postsList, ...tags).posts.getFeaturedPosts(limit);
+
+    if (!response.data) {
+      if (isNotFoundError(response.error)) return [];
+      throw response.error;
     }
+
+    return response.data.map(transformPost);
   },
 
-  // Get single post by slug for SSR
-  async getPostBySlug(slug: string): Promise<Article | null> {
-    try {
-      const posts = await serverFetch<WordPressPost[]>(`/posts?slug=${slug}&_embed=true`);
-      
-      if (posts && posts.length > 0) {
-        return transformPost(posts[0]);
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Server post by slug error:', error);
-      return null;
+  // Get posts by category for SSR
+  async getPostsByCategory(categorySlug: string, params: PaginationParams = {}): Promise<{ posts: Article[]; category: Category | null; totalPages: number; total: number }> {
+    // First get the category, a missing category resolves to null while other failures throw
+    const category = await serverCategoriesAPI.getCategoryBySlug(categorySlug);
+
+    if (!category) {
+      return { posts: [], category: null, totalPages: 1, total: 0 };
     }
+
+    // Then get posts for that category
+    const result = await serverPostsAPI.getPosts({
+      categories: [category.id],
+      page: params.page,
+      per_page: params.per_page,
+    }, [cacheTags.category(categorySlug)]);
+
+    return {
+      ...result,
+      category,
+    };
   },
 
-  // Get featured posts for homepage SSR
-  async getFeaturedPosts(limit: number = 5): Promise<Article[]> {
+  // Get posts by tag for SSR
+  async getPostsByTag(tagSlug: string, params: PaginationParams = {}): Promise<{ posts: Article[]; tag: Tag | null; totalPages: number; total: number }> {
+    // First get the tag, a missing tag resolves to null while other failures throw
+    const tag = await serverTagsAPI.getTagBySlug(tagSlug);
+
+    if (!tag) {
+      return { posts: [], tag: null, totalPages: 1, total: 0 };
+    }
+
+    // Then get posts for that tag
+    const result = await serverPostsAPI.getPosts({
+      tags: [tag.id],
+      page: params.page,
+      per_page: params.per_page,
+    }, [cacheTags.tag(tagSlug)]);
+
+    return {
+      ...result,
+      tag,
+    };
+  },
+};
+
+// Server-side Pages API
+export const serverPagesAPI = {
+  // Get all published pages for SSR
+  async getPages(params: PagesParams = {}): Promise<Page[]> {
     try {
-      const posts = await serverFetch<WordPressPost[]>(`/posts?sticky=true&per_page=${limit}&_embed=true`);
-      return posts.map(transformPost);
+      const response = await taggedClient(CACHE_TAGS.pages).pages.getPages(params);
+      return response.data ? response.data.map(page => transformPage(page)) : [];
     } catch (error) {
-      console.error('Server featured posts error:', error);
+      console.error('Server pages error:', error);
       return [];
     }
   },
 
-  // Get posts by category for SSR
-  async getPostsByCategory(categorySlug: string, params: {
-    page?: number;
-    per_page?: number;
-  } = {}): Promise<{ posts: Article[]; category: Category | null; totalPages: number; total: number }> {
-    try {
-      // First get the category
-      const categories = await serverFetch<WordPressCategory[]>(`/categories?slug=${categorySlug}`);
-      const category = categories.length > 0 ? transformCategory(categories[0]) : null;
+  // Get page by its full slug path for SSR, null only when no page has that path
+  async getPageByPath(path: string[]): Promise<Page | null> {
+    const response = await taggedClient(CACHE_TAGS.pages).pages.getPageByPath(path);
 
-      if (!category) {
-        return { posts: [], category: null, totalPages: 1, total: 0 };
-      }
+    if (!response.data) {
+      if (isNotFoundError(response.error)) return null;
+      throw response.error;
+    }
 
-      // Then get posts for that category
-      const result = await serverPostsAPI.getPosts({
-        categories: [category.id],
-        page: params.page,
-        per_page: params.per_page,
-      });
+    const chain = response.data;
+    const page = chain[chain.length - 1];
+    return withRankMathSeo(transformPage(page, chain.slice(0, -1)), page.link, [CACHE_TAGS.pages]);
+  },
 
-      return {
-        ...result,
-        category,
-      };
-    } catch (error) {
-      console.error('Server posts by category error:', error);
-      return { posts: [], category: null, totalPages: 1, total: 0 };
+  // Get page by slug for SSR, resolving its ancestors for breadcrumbs
+  async getPageBySlug(slug: string): Promise<Page | null> {
+    const response = await taggedClient(CACHE_TAGS.pages).pages.getPageBySlug(slug);
+
+    if (!response.data) {
+      if (isNotFoundError(response.error)) return null;
+      throw response.error;
+    }
+
+    const ancestors = await taggedClient(CACHE_TAGS.pages).pages.getPageAncestors(response.data);
+    if (!ancestors.data) {
+      throw ancestors.error;
     }
+
+    return withRankMathSeo(transformPage(response.data, ancestors.data), response.data.link, [CACHE_TAGS.pages]);
   },
 };
 
 // Server-side Categories API
 export const serverCategoriesAPI = {
   // Get all categories for SSR
-  async getCategories(params: {
-    page?: number;
-    per_page?: number;
-    hide_empty?: boolean;
-    parent?: number;
-  } = {}): Promise<Category[]> {
-    const searchParams = new URLSearchParams();
-    searchParams.set('per_page', (params.per_page || 100).toString());
-    searchParams.set('page', (params.page || 1).toString());
-    searchParams.set('hide_empty', (params.hide_empty !== false).toString());
-    
-    if (params.parent !== undefined) {
-      searchParams.set('parent', params.parent.toString());
-    }
-
+  async getCategories(params: CategoriesParams = {}, tags: string[] = []): Promise<Category[]> {
     try {
-      const categories = await serverFetch<WordPressCategory[]>(`/categories?${searchParams.toString()}`);
-      return categories.map(transformCategory);
+      const response = await taggedClient(CACHE_TAGS.categories, ...tags).categories.getCategories(params);
+      return response.data ? response.data.map(transformCategory) : [];
     } catch (error) {
       console.error('Server categories error:', error);
       return [];
     }
   },
 
-  // Get category by slug for SSR
+  // Get every category, including empty parents, for building the hierarchy
+  async getAllCategories(): Promise<Category[]> {
+    return serverCategoriesAPI.getCategories({ per_page: 100, hide_empty: false });
+  },
+
+  // Get categories nested by parent with aggregated post counts
+  async getCategoryTree(): Promise<CategoryNode[]> {
+    const categories = await serverCategoriesAPI.getAllCategories();
+    return buildCategoryTree(categories);
+  },
+
+  // Get category by slug for SSR, null only when the category does not exist
   async getCategoryBySlug(slug: string): Promise<Category | null> {
+    const tags = [CACHE_TAGS.categories, cacheTags.category(slug)];
+    const response = await taggedClient(...tags).categories.getCategoryBySlug(slug);
+
+    if (!response.data) {
+      if (isNotFoundError(response.error)) return null;
+      throw response.error;
+    }
+
+    return withRankMathSeo(transformCategory(response.data), response.data.link, tags);
+  },
+};
+
+// Server-side Tags API
+export const serverTagsAPI = {
+  // Get all tags for SSR
+  async getTags(params: TagsParams = {}, tags: string[] = []): Promise<Tag[]> {
     try {
-      const categories = await serverFetch<WordPressCategory[]>(`/categories?slug=${slug}`);
-      
-      if (categories && categories.length > 0) {
-        return transformCategory(categories[0]);
-      }
-      
-      return null;
+      const response = await taggedClient(CACHE_TAGS.tags, ...tags).tags.getTags(params);
+      return response.data ? response.data.map(transformTag) : [];
     } catch (error) {
-      console.error('Server category by slug error:', error);
-      return null;
+      console.error('Server tags error:', error);
+      return [];
     }
   },
+
+  // Get tag by slug for SSR, null only when the tag does not exist
+  async getTagBySlug(slug: string): Promise<Tag | null> {
+    const tags = [CACHE_TAGS.tags, cacheTags.tag(slug)];
+    const response = await taggedClient(...tags).tags.getTagBySlug(slug);
+
+    if (!response.data) {
+      if (isNotFoundError(response.error)) return null;
+      throw response.error;
+    }
+
+    return withRankMathSeo(transformTag(response.data), response.data.link, tags);
+  },
 };
 
 // Server-side Authors API  
 export const serverAuthorsAPI = {
   // Get all authors for SSR
-  async getAuthors(params: {
-    page?: number;
-    per_page?: number;
-  } = {}): Promise<Author[]> {
-    const searchParams = new URLSearchParams();
-    searchParams.set('per_page', (params.per_page || 100).toString());
-    searchParams.set('page', (params.page || 1).toString());
-
+  async getAuthors(params: AuthorsParams = {}): Promise<Author[]> {
     try {
-      const authors = await serverFetch<WordPressAuthor[]>(`/users?${searchParams.toString()}`);
-      return authors.map(transformAuthor);
+      const response = await taggedClient(CACHE_TAGS.authors).authors.getAuthors(params);
+      return response.data ? response.data.map(transformAuthor) : [];
     } catch (error) {
       console.error('Server authors error:', error);
       return [];
     }
   },
 
-  // Get author by slug for SSR
+  // Get author by slug for SSR, null only when the author does not exist
   async getAuthorBySlug(slug: string): Promise<Author | null> {
-    try {
-      const authors = await serverFetch<WordPressAuthor[]>(`/users?slug=${slug}`);
-      
-      if (authors && authors.length > 0) {
-        return transformAuthor(authors[0]);
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('Server author by slug error:', error);
-      return null;
+    const tags = [CACHE_TAGS.authors, cacheTags.author(slug)];
+    const response = await taggedClient(...tags).authors.getAuthorBySlug(slug);
+
+    if (!response.data) {
+      if (isNotFoundError(response.error)) return null;
+      throw response.error;
+    }
+
+    return withRankMathSeo(transformAuthor(response.data), response.data.link, tags);
+  },
+
+  // Get posts by author slug for SSR, a missing author resolves to null while other failures throw
+  async getPostsByAuthorSlug(authorSlug: string, params: PaginationParams = {}): Promise<{ posts: Article[]; author: Author | null; totalPages: number; total: number }> {
+    const author = await serverAuthorsAPI.getAuthorBySlug(authorSlug);
+
+    if (!author) {
+      return { posts: [], author: null, totalPages: 1, total: 0 };
     }
+
+    const result = await serverPostsAPI.getPosts({
+      author: author.id,
+      page: params.page,
+      per_page: params.per_page,
+    }, [cacheTags.author(authorSlug)]);
+
+    return {
+      ...result,
+      author,
+    };
   },
 
   // Get posts by author for SSR
-  async getPostsByAuthor(authorId: number, params: {
-    page?: number;
-    per_page?: number;
-  } = {}): Promise<{ posts: Article[]; author: Author | null; totalPages: number; total: number }> {
+  async getPostsByAuthor(authorId: number, params: PaginationParams = {}): Promise<{ posts: Article[]; author: Author | null; totalPages: number; total: number }> {
     try {
       // First get the author
-      const author = await serverFetch<WordPressAuthor>(`/users/${authorId}`);
-      const transformedAuthor = author ? transformAuthor(author) : null;
+      const authorResponse = await taggedClient(CACHE_TAGS.authors).authors.getAuthorById(authorId);
+      const author = authorResponse.data ? transformAuthor(authorResponse.data) : null;
 
       // Then get posts by that author
       const result = await serverPostsAPI.getPosts({
         author: authorId,
         page: params.page,
         per_page: params.per_page,
-      });
+      }, author ? [cacheTags.author(author.slug)] : []);
 
       return {
         ...result,
-        author: transformedAuthor,
+        author,
       };
     } catch (error) {
       console.error('Server posts by author error:', error);
@@ -277,38 +347,147 @@ export const serverAuthorsAPI = {
   },
 };
 
+// Server-side date archives
+export const serverArchiveAPI = {
+  // Get posts published in a year, or in a single month of it
+  // Empty only when WordPress has no posts in the range; failures throw like getPosts
+  async getPostsByDate(year: number, month?: number, params: PaginationParams = {}): Promise<{ posts: Article[]; totalPages: number; total: number }> {
+    return serverPostsAPI.getPosts({
+      ...getArchiveRange(year, month),
+      page: params.page,
+      per_page: params.per_page,
+    });
+  },
+
+  // Post counts for the most recent months that have posts, newest first
+  async getArchiveMonths(limit: number = 12, tags: string[] = []): Promise<ArchiveMonth[]> {
+    try {
+      const transport = taggedTransport(CACHE_TAGS.posts, CACHE_TAGS.postsList, ...tags);
+
+      // The oldest post bounds how far back there is anything to count
+      const oldest = await transport.request<Pick<WordPressPost, 'date'>[]>('/posts?per_page=1&orderby=date&order=asc&_fields=date');
+      const firstDate = oldest.data?.[0]?.date;
+      if (!firstDate) return [];
+
+      const months = getMonthsBetween(new Date(`${firstDate.slice(0, 7)}-01T00:00:00Z`));
+      const counts: ArchiveMonth[] = [];
+
+      // WordPress has no per-month count endpoint, so read X-WP-Total for each month in small batches
+      // Empty months are skipped, so keep going back until there are enough with posts
+      for (let index = 0; index < months.length && counts.length < limit; index += 6) {
+        const batch = await Promise.all(months.slice(index, index + 6).map(async ({ year, month }) => {
+          const query = new URLSearchParams({ ...getArchiveRange(year, month), per_page: '1', _fields: 'id' });
+          const response = await transport.request<Pick<WordPressPost, 'id'>[]>(`/posts?${query.toString()}`);
+          return { year, month, count: response.total || 0 };
+        }));
+        counts.push(...batch.filter(month => month.count > 0));
+      }
+
+      return counts.slice(0, limit);
+    } catch (error) {
+      console.error('Server archive months error:', error);
+      return [];
+    }
+  },
+};
+
+// Server-side feeds
+export const serverFeedsAPI = {
+  // Latest posts for the site or an archive, null when the category, tag or author does not exist
+  async getFeed(scope: FeedScope): Promise<FeedSource | null> {
+    const pagination = { per_page: FEED_SIZE };
+
+    if (scope.type === 'category') {
+      const { posts, category } = await serverPostsAPI.getPostsByCategory(scope.slug, pagination);
+      return category && {
+        title: `${category.name} | ${SITE_NAME}`,
+        description: category.description || `Latest articles in the ${category.name} category.`,
+        path: `/category/${category.slug}`,
+        posts,
+      };
+    }
+
+    if (scope.type === 'tag') {
+      const { posts, tag } = await serverPostsAPI.getPostsByTag(scope.slug, pagination);
+      return tag && {
+        title: `${tag.name} | ${SITE_NAME}`,
+        description: tag.description || `Latest articles tagged ${tag.name}.`,
+        path: `/tag/${tag.slug}`,
+        posts,
+      };
+    }
+
+    if (scope.type === 'author') {
+      const { posts, author } = await serverAuthorsAPI.getPostsByAuthorSlug(scope.slug, pagination);
+      return author && {
+        title: `${author.name} | ${SITE_NAME}`,
+        description: author.description || `Latest articles by ${author.name}.`,
+        path: `/author/${author.slug}`,
+        posts,
+      };
+    }
+
+    const { posts } = await serverPostsAPI.getPosts(pagination);
+    return { title: SITE_NAME, description: SITE_DESCRIPTION, path: '/', posts };
+  },
+};
+
+// Server-side SEO plugin data
+export const serverSeoAPI = {
+  // Head rendered by RankMath's headless endpoint for a WordPress permalink, null when unavailable
+  async getRankMathHead(url: string, tags: string[] = []): Promise<SeoMeta | null> {
+    const response = await withCacheTags(serverRootTransport, tags)
+      .request<{ success?: boolean; head?: string }>(`/rankmath/v1/getHead?url=${encodeURIComponent(url)}`);
+
+    return response.data?.success && response.data.head ? parseHeadHtml(response.data.head) || null : null;
+  },
+};
+
+// Server-side redirects, served by the tailnews/v1/redirects endpoint (see README)
+export const serverRedirectsAPI = {
+  async getRedirects(): Promise<Redirect[]> {
+    if (!REDIRECTS_ENABLED) return [];
+
+    const response = await withCacheTags(serverRootTransport, [CACHE_TAGS.redirects]).request<unknown>('/tailnews/v1/redirects');
+    return parseRedirects(response.data);
+  },
+
+  // Redirect for a path on this site, null when there is none
+  async findRedirect(path: string): Promise<Redirect | null> {
+    return findRedirect(await serverRedirectsAPI.getRedirects(), path);
+  },
+};
+
 // Homepage data fetcher for SSR
 export async function getHomepageData(): Promise<{
   featuredPosts: Article[];
   recentPosts: Article[];
   categories: Category[];
+  tags: Tag[];
+  archiveMonths: ArchiveMonth[];
 }> {
-  try {
-    const [featuredPosts, recentPostsResult, categories] = await Promise.all([
-      serverPostsAPI.getFeaturedPosts(5),
-      serverPostsAPI.getPosts({ per_page: 12 }), // Get more for different sections
-      serverCategoriesAPI.getCategories({ per_page: 10 }),
-    ]);
-
-    return {
-      featuredPosts,
-      recentPosts: recentPostsResult.posts,
-      categories,
-    };
-  } catch (error) {
-    console.error('Homepage data fetch error:', error);
-    return {
-      featuredPosts: [],
-      recentPosts: [],
-      categories: [],
-    };
-  }
+  // Post failures throw so an outage renders the error boundary rather than an empty homepage
+  const [featuredPosts, recentPostsResult, categories, tags, archiveMonths] = await Promise.all([
+    serverPostsAPI.getFeaturedPosts(5, [CACHE_TAGS.homepage]),
+    serverPostsAPI.getPosts({ per_page: 12 }, [CACHE_TAGS.homepage]), // Get more for different sections
+    serverCategoriesAPI.getCategories({ per_page: 10 }, [CACHE_TAGS.homepage]),
+    serverTagsAPI.getTags({ per_page: 30, orderby: 'count', order: 'desc' }, [CACHE_TAGS.homepage]), // Popular tags for the sidebar cloud
+    serverArchiveAPI.getArchiveMonths(12, [CACHE_TAGS.homepage]),
+  ]);
+
+  return {
+    featuredPosts,
+    recentPosts: recentPostsResult.posts,
+    categories,
+    tags,
+    archiveMonths,
+  };
 }
 
-// Generate static paths helpers
+// Generate static paths helpers, walking every page of the collection
 export async function getAllPostSlugs(): Promise<string[]> {
   try {
-    const posts = await serverFetch<WordPressPost[]>('/posts?per_page=100&_fields=slug');
+    const posts = await collectPages<Pick<WordPressPost, 'slug'>>(taggedTransport(CACHE_TAGS.posts, CACHE_TAGS.postsList, CACHE_TAGS.sitemap), '/posts?_fields=slug');
     return posts.map(post => post.slug);
   } catch (error) {
     console.error('Error fetching post slugs:', error);
@@ -318,7 +497,7 @@ export async function getAllPostSlugs(): Promise<string[]> {
 
 export async function getAllCategorySlugs(): Promise<string[]> {
   try {
-    const categories = await serverFetch<WordPressCategory[]>('/categories?per_page=100&_fields=slug');
+    const categories = await collectPages<Pick<WordPressCategory, 'slug'>>(taggedTransport(CACHE_TAGS.categories, CACHE_TAGS.sitemap), '/categories?_fields=slug');
     return categories.map(category => category.slug);
   } catch (error) {
     console.error('Error fetching category slugs:', error);
@@ -326,12 +505,45 @@ export async function getAllCategorySlugs(): Promise<string[]> {
   }
 }
 
+export async function getAllTagSlugs(): Promise<string[]> {
+  try {
+    const tags = await collectPages<Pick<WordPressTag, 'slug'>>(taggedTransport(CACHE_TAGS.tags, CACHE_TAGS.sitemap), '/tags?_fields=slug');
+    return tags.map(tag => tag.slug);
+  } catch (error) {
+    console.error('Error fetching tag slugs:', error);
+    return [];
+  }
+}
+
 export async function getAllAuthorSlugs(): Promise<string[]> {
   try {
-    const authors = await serverFetch<WordPressAuthor[]>('/users?per_page=100&_fields=slug');
+    const authors = await collectPages<Pick<WordPressAuthor, 'slug'>>(taggedTransport(CACHE_TAGS.authors, CACHE_TAGS.sitemap), '/users?_fields=slug');
     return authors.map(author => author.slug);
   } catch (error) {
     console.error('Error fetching author slugs:', error);
     return [];
   }
-}
\ No newline at end of file
+}
+
+// Full slug paths of all published pages, e.g. [['about'], ['about', 'team']]
+export async function getAllPagePaths(): Promise<string[][]> {
+  try {
+    const pages = await collectPages<Pick<WordPressPage, 'id' | 'slug' | 'parent'>>(taggedTransport(CACHE_TAGS.pages, CACHE_TAGS.sitemap), '/pages?_fields=id,slug,parent');
+    const pagesById = new Map(pages.map(page => [page.id, page]));
+
+    return pages.map(page => {
+      const path = [page.slug];
+      let parent = pagesById.get(page.parent);
+
+      while (parent && path.length < 10) {
+        path.unshift(parent.slug);
+        parent = pagesById.get(parent.parent);
+      }
+
+      return path;
+    });
+  } catch (error) {
+    console.error('Error fetching page paths:', error);
+    return [];
+  }
+}
@@ -0,0 +1,63 @@
+// Browser client for the auth routes; the session lives in httpOnly cookies, so no tokens pass through here
+import { LoginCredentials, RegisterData, SessionResponse, User } from '@/types/auth';
+import { AuthAPIError } from './auth-api';
+
+export const AUTH_ROUTES_PATH = '/api/auth';
+// WordPress REST API as the signed-in user, see app/api/wp
+export const WORDPRESS_PROXY_PATH = '/api/wp';
+
+async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${AUTH_ROUTES_PATH}${path}`, {
+      credentials: 'same-origin',
+      ...options,
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+  } catch {
+    throw new AuthAPIError('Network error - please check your connection', 'NETWORK_ERROR', 0);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new AuthAPIError(data.message || 'Authentication request failed', data.code || 'AUTH_ERROR', response.status, data);
+  }
+
+  return data;
+}
+
+export const sessionAPI = {
+  login(credentials: LoginCredentials): Promise<SessionResponse> {
+    return request('/login', { method: 'POST', body: JSON.stringify(credentials) });
+  },
+
+  register(data: RegisterData): Promise<SessionResponse> {
+    return request('/register', { method: 'POST', body: JSON.stringify(data) });
+  },
+
+  refresh(): Promise<SessionResponse> {
+    return request('/refresh', { method: 'POST' });
+  },
+
+  async logout(): Promise<void> {
+    await request('/logout', { method: 'POST' });
+  },
+
+  // Current session, null when signed out
+  async getSession(): Promise<SessionResponse | null> {
+    try {
+      return await request<SessionResponse>('/me');
+    } catch (error) {
+      if (error instanceof AuthAPIError && error.status === 401) return null;
+      throw error;
+    }
+  },
+
+  async updateUser(userData: Partial<User>): Promise<User> {
+    const session = await request<SessionResponse>('/me', { method: 'PATCH', body: JSON.stringify(userData) });
+    return session.user;
+  },
+};
@@ -0,0 +1,6 @@
+// Site identity used by sitemaps, feeds and structured data
+export const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || 'https://your-site.com';
+export const SITE_NAME = process.env.NEXT_PUBLIC_SITE_NAME || 'Tailnews React';
+export const SITE_DESCRIPTION = process.env.NEXT_PUBLIC_SITE_DESCRIPTION || 'Modern React news application with WordPress backend';
+export const SITE_LANGUAGE = process.env.NEXT_PUBLIC_SITE_LANGUAGE || 'en';
+export const SITE_LOGO = process.env.NEXT_PUBLIC_SITE_LOGO || `${SITE_URL}/icon-512x512.png`;
@@ -0,0 +1,89 @@
+// Sitemap splitting and XML helpers
+import { PaginateOptions } from './paginate';
+import { SITE_NAME, SITE_LANGUAGE, SITE_URL } from './site';
+import { escapeXml } from './xml';
+
+// Sitemap 0 holds everything except posts, the rest hold posts newest first
+export const POSTS_PER_SITEMAP = 5000; // Well under the 50,000 URL limit of the protocol
+const WORDPRESS_PAGE_SIZE = 100;
+
+export function getSitemapIds(totalPosts: number): { id: number }[] {
+  const postSitemaps = Math.max(1, Math.ceil(totalPosts / POSTS_PER_SITEMAP));
+  return Array.from({ length: postSitemaps + 1 }, (_, id) => ({ id }));
+}
+
+// WordPress pages of 100 posts covered by a post sitemap
+export function getPostSitemapRange(id: number): Required<Pick<PaginateOptions, 'startPage' | 'maxPages'>> {
+  const maxPages = POSTS_PER_SITEMAP / WORDPRESS_PAGE_SIZE;
+  return { startPage: (id - 1) * maxPages + 1, maxPages };
+}
+
+// Next.js serves sitemaps from generateSitemaps at /sitemap/<id>.xml
+export function getSitemapUrl(id: number, baseUrl: string = SITE_URL): string {
+  return `${baseUrl}/sitemap/${id}.xml`;
+}
+
+export function buildSitemapIndex(sitemaps: { url: string; lastModified?: string }[]): string {
+  const entries = sitemaps.map(({ url, lastModified }) => [
+    '  <sitemap>',
+    `    <loc>${escapeXml(url)}</loc>`,
+    ...(lastModified ? [`    <lastmod>${lastModified}</lastmod>`] : []),
+    '  </sitemap>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    '</sitemapindex>',
+  ].join('\n');
+}
+
+// Google News only accepts articles from the last two days, at most 1,000 per sitemap
+export const NEWS_WINDOW_HOURS = 48;
+export const NEWS_SITEMAP_LIMIT = 1000;
+const HOUR = 60 * 60 * 1000;
+
+// `after` is matched in the site's timezone, so query a day wider (rounded to the hour to keep
+// the request cacheable) and filter on date_gmt against the exact cutoff
+export function getNewsWindow(now: number = Date.now()): { cutoff: Date; after: string } {
+  const cutoff = now - NEWS_WINDOW_HOURS * HOUR;
+  const after = Math.floor((cutoff - 24 * HOUR) / HOUR) * HOUR;
+
+  return {
+    cutoff: new Date(cutoff),
+    after: new Date(after).toISOString().slice(0, 19),
+  };
+}
+
+export interface NewsSitemapEntry {
+  url: string;
+  title: string; // Plain text
+  published: string; // UTC ISO date
+}
+
+export function buildNewsSitemap(
+  entries: NewsSitemapEntry[],
+  publication: { name: string; language: string } = { name: SITE_NAME, language: SITE_LANGUAGE }
+): string {
+  const urls = entries.slice(0, NEWS_SITEMAP_LIMIT).map(entry => [
+    '  <url>',
+    `    <loc>${escapeXml(entry.url)}</loc>`,
+    '    <news:news>',
+    '      <news:publication>',
+    `        <news:name>${escapeXml(publication.name)}</news:name>`,
+    `        <news:language>${escapeXml(publication.language)}</news:language>`,
+    '      </news:publication>',
+    `      <news:publication_date>${entry.published}</news:publication_date>`,
+    `      <news:title>${escapeXml(entry.title)}</news:title>`,
+    '    </news:news>',
+    '  </url>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">',
+    ...urls,
+    '</urlset>',
+  ].join('\n');
+}
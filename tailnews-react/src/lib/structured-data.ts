@@ -0,0 +1,129 @@
+// Schema.org JSON-LD builders
+import { Article, Author } from '@/types/api';
+import { SITE_DESCRIPTION, SITE_LOGO, SITE_NAME, SITE_URL } from './site';
+import { decodeHtmlEntities } from './xml';
+
+export type JsonLd = Record<string, unknown>;
+
+export interface BreadcrumbItem {
+  name: string;
+  path?: string; // Crumbs without a page are left out, except the current one
+}
+
+function absoluteUrl(path: string): string {
+  return `${SITE_URL}${path === '/' ? '' : path}`;
+}
+
+// `</script>` inside a string would end the script tag early
+export function serializeJsonLd(data: JsonLd | JsonLd[]): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+export function organizationSchema(): JsonLd {
+  return {
+    '@type': 'Organization',
+    name: SITE_NAME,
+    url: SITE_URL,
+    logo: {
+      '@type': 'ImageObject',
+      url: SITE_LOGO,
+    },
+  };
+}
+
+function personSchema(author: Pick<Author, 'name' | 'slug'>): JsonLd {
+  return {
+    '@type': 'Person',
+    name: author.name,
+    url: absoluteUrl(`/author/${author.slug}`),
+  };
+}
+
+export function websiteSchema(): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'WebSite',
+    name: SITE_NAME,
+    description: SITE_DESCRIPTION,
+    url: SITE_URL,
+    publisher: organizationSchema(),
+    potentialAction: {
+      '@type': 'SearchAction',
+      target: {
+        '@type': 'EntryPoint',
+        urlTemplate: `${SITE_URL}/search?q={search_term_string}`,
+      },
+      'query-input': 'required name=search_term_string',
+    },
+  };
+}
+
+export function newsArticleSchema(post: Article): JsonLd {
+  const url = absoluteUrl(`/posts/${post.slug}`);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'NewsArticle',
+    mainEntityOfPage: { '@type': 'WebPage', '@id': url },
+    url,
+    headline: decodeHtmlEntities(post.title),
+    description: post.excerpt ? decodeHtmlEntities(post.excerpt) : undefined,
+    image: post.featuredImage ? [post.featuredImage.url] : undefined,
+    datePublished: post.published || post.date,
+    dateModified: post.modified || post.published || post.date,
+    author: post.author ? [personSchema(post.author)] : undefined,
+    publisher: organizationSchema(),
+    articleSection: post.category?.name,
+    keywords: post.tags?.length ? post.tags.map(tag => tag.name).join(', ') : undefined,
+  };
+}
+
+export function breadcrumbSchema(items: BreadcrumbItem[]): JsonLd {
+  const crumbs = items.filter((item, index) => item.path || index === items.length - 1);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: crumbs.map((item, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: decodeHtmlEntities(item.name),
+      item: item.path ? absoluteUrl(item.path) : undefined,
+    })),
+  };
+}
+
+// Archive page listing posts, `offset` is the number of posts on earlier pages
+export function collectionPageSchema(page: { name: string; description?: string; path: string; posts: Article[]; offset?: number }): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'CollectionPage',
+    name: page.name,
+    description: page.description || undefined,
+    url: absoluteUrl(page.path),
+    isPartOf: { '@type': 'WebSite', name: SITE_NAME, url: SITE_URL },
+    mainEntity: {
+      '@type': 'ItemList',
+      itemListElement: page.posts.map((post, index) => ({
+        '@type': 'ListItem',
+        position: (page.offset || 0) + index + 1,
+        url: absoluteUrl(`/posts/${post.slug}`),
+        name: decodeHtmlEntities(post.title),
+      })),
+    },
+  };
+}
+
+export function profilePageSchema(author: Author): JsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'ProfilePage',
+    mainEntity: {
+      ...personSchema(author),
+      identifier: author.slug,
+      description: author.description || undefined,
+      image: author.avatar,
+      sameAs: [author.url, ...(author.socialLinks || []).map(link => link.url)].filter(Boolean),
+    },
+  };
+}
@@ -1,6 +1,23 @@
-import { WordPressPost, WordPressCategory, WordPressAuthor, WordPressTag } from '@/types/wordpress';
-import { Article, Category, Author, Tag } from '@/types/api';
+import { WordPressPost, WordPressPage, WordPressCategory, WordPressAuthor, WordPressTag, WordPressComment } from '@/types/wordpress';
+import { Article, Page, Category, Author, Tag, Comment, ContentHeading } from '@/types/api';
 import { wpUtils } from './wordpress-api';
+import { fromYoastHead } from './seo';
+import { addHeadingAnchors, getReadingTime, processContent } from './content';
+import { anchorBlocks, normalizeBlocks, parseBlocks } from './blocks';
+import { buildCommentTree } from './comments';
+import { decodeHtmlEntities } from './xml';
+
+// WordPress *_gmt fields are UTC but carry no offset
+export function toUTCDate(gmt: string | undefined, fallback: string = ''): string {
+  return gmt ? `${gmt}Z` : fallback;
+}
+
+// Block structure from the blocks REST field, or parsed from raw content when WordPress sent it
+function getPostBlocks(post: WordPressPost, headings: ContentHeading[]): Article['blocks'] {
+  if (post.blocks?.length) return anchorBlocks(normalizeBlocks(post.blocks), headings);
+  if (post.content.raw) return anchorBlocks(normalizeBlocks(parseBlocks(post.content.raw)), headings);
+  return undefined;
+}
 
 // Transform WordPress post to Article interface
 export function transformPost(post: WordPressPost): Article {
@@ -8,14 +25,20 @@ export function transformPost(post: WordPressPost): Article {
   const author = wpUtils.getAuthor(post);
   const categories = wpUtils.getCategories(post);
   const tags = wpUtils.getTags(post);
+  const { html: content, headings } = addHeadingAnchors(processContent(post.content.rendered));
 
   return {
     id: post.id,
     title: post.title.rendered,
     excerpt: wpUtils.createExcerpt(post.excerpt.rendered),
-    content: post.content.rendered,
+    content,
+    blocks: getPostBlocks(post, headings),
+    headings,
+    readingTime: getReadingTime(content),
     slug: post.slug,
     date: post.date,
+    published: toUTCDate(post.date_gmt, post.date),
+    modified: toUTCDate(post.modified_gmt, post.modified),
     featuredImage: featuredImage ? {
       url: featuredImage.url,
       alt: featuredImage.alt,
@@ -37,6 +60,37 @@ export function transformPost(post: WordPressPost): Article {
       id: tag.id,
     })),
     isSticky: post.sticky,
+    commentsOpen: post.comment_status === 'open',
+    commentCount: post.comment_count,
+    seo: post.yoast_head_json ? fromYoastHead(post.yoast_head_json) : undefined,
+  };
+}
+
+// Transform WordPress page to Page interface, ancestors ordered from root to direct parent
+export function transformPage(page: WordPressPage, ancestors: WordPressPage[] = []): Page {
+  const featuredImage = wpUtils.getFeaturedImage(page);
+  const ancestorPaths = ancestors.map((ancestor, index) => ({
+    id: ancestor.id,
+    title: ancestor.title.rendered,
+    path: ancestors.slice(0, index + 1).map(item => item.slug).join('/'),
+  }));
+
+  return {
+    id: page.id,
+    title: page.title.rendered,
+    excerpt: wpUtils.createExcerpt(page.excerpt.rendered),
+    content: processContent(page.content.rendered),
+    slug: page.slug,
+    path: [...ancestors.map(ancestor => ancestor.slug), page.slug].join('/'),
+    date: page.date,
+    modified: page.modified,
+    parent: page.parent || undefined,
+    featuredImage: featuredImage ? {
+      url: featuredImage.url,
+      alt: featuredImage.alt,
+    } : undefined,
+    ancestors: ancestorPaths,
+    seo: page.yoast_head_json ? fromYoastHead(page.yoast_head_json) : undefined,
   };
 }
 
@@ -49,9 +103,39 @@ export function transformCategory(category: WordPressCategory): Category {
     description: category.description,
     count: category.count,
     parent: category.parent || undefined,
+    seo: category.yoast_head_json ? fromYoastHead(category.yoast_head_json) : undefined,
   };
 }
 
+// User meta keys holding social profiles (as registered by Yoast and similar plugins)
+const SOCIAL_NETWORKS: Record<string, { label: string; profileUrl?: string }> = {
+  twitter: { label: 'Twitter', profileUrl: 'https://twitter.com/' },
+  facebook: { label: 'Facebook' },
+  instagram: { label: 'Instagram' },
+  linkedin: { label: 'LinkedIn' },
+  youtube: { label: 'YouTube' },
+  github: { label: 'GitHub', profileUrl: 'https://github.com/' },
+  mastodon: { label: 'Mastodon' },
+};
+
+// Extract social profile links from user meta, expanding bare handles where possible
+export function getSocialLinks(author: WordPressAuthor): Array<{ network: string; url: string }> {
+  const meta = author.meta && !Array.isArray(author.meta) ? author.meta : {};
+
+  return Object.entries(SOCIAL_NETWORKS).flatMap(([key, network]) => {
+    const value = typeof meta[key] === 'string' ? meta[key].trim() : '';
+    if (!value) return [];
+
+    if (/^https?:\/\//.test(value)) {
+      return [{ network: network.label, url: value }];
+    }
+
+    return network.profileUrl
+      ? [{ network: network.label, url: `${network.profileUrl}${value.replace(/^@/, '')}` }]
+      : [];
+  });
+}
+
 // Transform WordPress author to Author interface
 export function transformAuthor(author: WordPressAuthor): Author {
   return {
@@ -61,6 +145,8 @@ export function transformAuthor(author: WordPressAuthor): Author {
     description: author.description,
     avatar: author.avatar_urls?.['96'] || author.avatar_urls?.['48'],
     url: author.url,
+    socialLinks: getSocialLinks(author),
+    seo: author.yoast_head_json ? fromYoastHead(author.yoast_head_json) : undefined,
   };
 }
 
@@ -72,6 +158,30 @@ export function transformTag(tag: WordPressTag): Tag {
     slug: tag.slug,
     description: tag.description,
     count: tag.count,
+    seo: tag.yoast_head_json ? fromYoastHead(tag.yoast_head_json) : undefined,
+  };
+}
+
+// Transform WordPress comment to Comment interface
+export function transformComment(comment: WordPressComment): Comment {
+  const post = comment._embedded?.up?.[0];
+
+  return {
+    id: comment.id,
+    postId: comment.post,
+    parentId: comment.parent,
+    author: {
+      id: comment.author || undefined,
+      name: comment.author_name || 'Anonymous',
+      url: comment.author_url || undefined,
+      avatar: comment.author_avatar_urls?.['96'] || comment.author_avatar_urls?.['48'],
+      email: comment.author_email || undefined,
+    },
+    post: post ? { id: post.id, title: decodeHtmlEntities(post.title.rendered), slug: post.slug } : undefined,
+    date: toUTCDate(comment.date_gmt, comment.date),
+    content: processContent(comment.content.rendered),
+    status: comment.status,
+    replies: [],
   };
 }
 
@@ -92,9 +202,15 @@ export function transformTags(tags: WordPressTag[]): Tag[] {
   return tags.map(transformTag);
 }
 
+// Comments as threads, replies nested under their parents
+export function transformComments(comments: WordPressComment[]): Comment[] {
+  return buildCommentTree(comments.map(transformComment));
+}
+
 // Transform utilities object
 export const transformUtils = {
   post: transformPost,
+  page: transformPage,
   category: transformCategory,
   author: transformAuthor,
   tag: transformTag,
@@ -1,305 +1,122 @@
-import { WordPressPost, WordPressCategory, WordPressTag, WordPressAuthor, WordPressMedia } from '@/types/wordpress';
-
-// WordPress API Configuration
-const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL || 'https://your-wordpress-site.com/wp-json/wp/v2';
-
-// API Response wrapper for better error handling
-interface APIResponse<T> {
-  data: T | null;
-  error: string | null;
-  totalPages?: number;
-  total?: number;
-}
-
-// Generic API fetch function with error handling
-async function apiRequest<T>(endpoint: string, options: RequestInit = {}): Promise<APIResponse<T>> {
-  try {
-    const url = `${WORDPRESS_API_URL}${endpoint}`;
-    const response = await fetch(url, {
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-      ...options,
-    });
+import { WordPressPost, WordPressPage, WordPressCategory, WordPressTag, WordPressAuthor, WordPressComment } from '@/types/wordpress';
+import { API_ERROR_CODES, APIResponse, Comment, CommentGuardInput, CommentInput, CommentModerationAction, CommentModerationParams, PaginationParams } from '@/types/api';
+import { createWordPressClient, createFetchTransport, browserTransport } from './wordpress-client';
+import { WORDPRESS_PROXY_PATH } from './session-api';
+import { WordPressAPIError } from './wordpress-errors';
+import { checkCommentGuard, getCommentHistory, MAX_COMMENT_DEPTH, recordCommentSubmission } from './comments';
 
-    if (!response.ok) {
-      throw new Error(`WordPress API Error: ${response.status} ${response.statusText}`);
-    }
+// Browser-side client, shares query building and error handling with the server API
+const client = createWordPressClient(browserTransport);
+
+// Comment submissions, see app/api/comments
+const commentsTransport = createFetchTransport({ baseUrl: '/api', staleIfError: false });
 
-    const data = await response.json();
-    
-    // Extract pagination info from headers
-    const totalPages = parseInt(response.headers.get('X-WP-TotalPages') || '1');
-    const total = parseInt(response.headers.get('X-WP-Total') || '0');
-
-    return {
-      data,
-      error: null,
-      totalPages,
-      total,
-    };
-  } catch (error) {
-    console.error('WordPress API request failed:', error);
-    return {
-      data: null,
-      error: error instanceof Error ? error.message : 'Unknown API error',
-    };
-  }
-}
+// Requests as the signed-in user through the proxy, which attaches their token on the server
+// Never answered from another user's cached response
+const authenticatedClient = createWordPressClient(createFetchTransport({ baseUrl: WORDPRESS_PROXY_PATH, staleIfError: false }));
 
 // Posts API
-export const postsAPI = {
-  // Get all posts with pagination and filtering
-  async getPosts(params: {
-    page?: number;
-    per_page?: number;
-    categories?: number[];
-    tags?: number[];
-    author?: number;
-    search?: string;
-    orderby?: 'date' | 'title' | 'menu_order';
-    order?: 'asc' | 'desc';
-    status?: 'publish' | 'draft' | 'private';
-  } = {}): Promise<APIResponse<WordPressPost[]>> {
-    const searchParams = new URLSearchParams();
-    
-    // Set default values
-    searchParams.set('_embed', 'true'); // Include featured media and author
-    searchParams.set('per_page', (params.per_page || 10).toString());
-    searchParams.set('page', (params.page || 1).toString());
-    searchParams.set('orderby', params.orderby || 'date');
-    searchParams.set('order', params.order || 'desc');
-    searchParams.set('status', params.status || 'publish');
-
-    // Add optional filters
-    if (params.categories?.length) {
-      searchParams.set('categories', params.categories.join(','));
-    }
-    if (params.tags?.length) {
-      searchParams.set('tags', params.tags.join(','));
-    }
-    if (params.author) {
-      searchParams.set('author', params.author.toString());
-    }
-    if (params.search) {
-      searchParams.set('search', params.search);
-    }
+export const postsAPI = client.posts;
 
-    return apiRequest<WordPressPost[]>(`/posts?${searchParams.toString()}`);
-  },
+// Pages API
+export const pagesAPI = client.pages;
 
-  // Get single post by slug
-  async getPostBySlug(slug: string): Promise<APIResponse<WordPressPost>> {
-    const response = await apiRequest<WordPressPost[]>(`/posts?slug=${slug}&_embed=true`);
-    
-    if (response.data && response.data.length > 0) {
-      return {
-        data: response.data[0],
-        error: null,
-      };
-    }
-    
-    return {
-      data: null,
-      error: 'Post not found',
-    };
-  },
+// Categories API
+export const categoriesAPI = client.categories;
 
-  // Get post by ID
-  async getPostById(id: number): Promise<APIResponse<WordPressPost>> {
-    return apiRequest<WordPressPost>(`/posts/${id}?_embed=true`);
-  },
+// Tags API
+export const tagsAPI = client.tags;
 
-  // Get featured posts (sticky posts)
-  async getFeaturedPosts(limit: number = 5): Promise<APIResponse<WordPressPost[]>> {
-    return apiRequest<WordPressPost[]>(`/posts?sticky=true&per_page=${limit}&_embed=true`);
-  },
+// Authors API
+export const authorsAPI = client.authors;
 
-  // Get related posts by category
-  async getRelatedPosts(postId: number, categoryIds: number[], limit: number = 5): Promise<APIResponse<WordPressPost[]>> {
-    const categoryQuery = categoryIds.join(',');
-    return apiRequest<WordPressPost[]>(
-      `/posts?categories=${categoryQuery}&exclude=${postId}&per_page=${limit}&_embed=true`
-    );
-  },
-};
+// Media API
+export const mediaAPI = client.media;
 
-// Categories API
-export const categoriesAPI = {
-  // Get all categories
-  async getCategories(params: {
-    page?: number;
-    per_page?: number;
-    hide_empty?: boolean;
-    parent?: number;
-  } = {}): Promise<APIResponse<WordPressCategory[]>> {
-    const searchParams = new URLSearchParams();
-    searchParams.set('per_page', (params.per_page || 100).toString());
-    searchParams.set('page', (params.page || 1).toString());
-    searchParams.set('hide_empty', (params.hide_empty !== false).toString());
-    
-    if (params.parent !== undefined) {
-      searchParams.set('parent', params.parent.toString());
-    }
+// Comments API
+export const commentsAPI = {
+  ...client.comments,
 
-    return apiRequest<WordPressCategory[]>(`/categories?${searchParams.toString()}`);
-  },
+  // A page of top-level comments together with every reply below them
+  async getCommentThreads(postId: number, params: PaginationParams = {}): Promise<APIResponse<WordPressComment[]>> {
+    const threads = await client.comments.getComments({ ...params, post: postId, parent: [0] });
+    if (!threads.data) return threads;
 
-  // Get category by slug
-  async getCategoryBySlug(slug: string): Promise<APIResponse<WordPressCategory>> {
-    const response = await apiRequest<WordPressCategory[]>(`/categories?slug=${slug}`);
-    
-    if (response.data && response.data.length > 0) {
-      return {
-        data: response.data[0],
-        error: null,
-      };
-    }
-    
-    return {
-      data: null,
-      error: 'Category not found',
-    };
-  },
+    const comments = [...threads.data];
+    let parents = threads.data.map(comment => comment.id);
 
-  // Get posts by category slug
-  async getPostsByCategory(categorySlug: string, params: {
-    page?: number;
-    per_page?: number;
-  } = {}): Promise<APIResponse<WordPressPost[]>> {
-    // First get the category ID
-    const categoryResponse = await this.getCategoryBySlug(categorySlug);
-    if (!categoryResponse.data) {
-      return {
-        data: null,
-        error: 'Category not found',
-      };
-    }
+    // One level of replies per round, following the thread as deep as WordPress allows
+    for (let depth = 1; depth <= MAX_COMMENT_DEPTH && parents.length > 0; depth++) {
+      const replies: WordPressComment[] = [];
 
-    // Then get posts for that category
-    return postsAPI.getPosts({
-      categories: [categoryResponse.data.id],
-      page: params.page,
-      per_page: params.per_page,
-    });
-  },
-};
+      for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+        const response = await client.comments.getComments({ post: postId, parent: parents, per_page: 100, page });
+        if (!response.data) return { data: null, error: response.error };
 
-// Tags API
-export const tagsAPI = {
-  // Get all tags
-  async getTags(params: {
-    page?: number;
-    per_page?: number;
-    hide_empty?: boolean;
-  } = {}): Promise<APIResponse<WordPressTag[]>> {
-    const searchParams = new URLSearchParams();
-    searchParams.set('per_page', (params.per_page || 100).toString());
-    searchParams.set('page', (params.page || 1).toString());
-    searchParams.set('hide_empty', (params.hide_empty !== false).toString());
-
-    return apiRequest<WordPressTag[]>(`/tags?${searchParams.toString()}`);
-  },
+        replies.push(...response.data);
+        totalPages = response.totalPages || 1;
+      }
 
-  // Get tag by slug
-  async getTagBySlug(slug: string): Promise<APIResponse<WordPressTag>> {
-    const response = await apiRequest<WordPressTag[]>(`/tags?slug=${slug}`);
-    
-    if (response.data && response.data.length > 0) {
-      return {
-        data: response.data[0],
-        error: null,
-      };
+      comments.push(...replies);
+      parents = replies.map(reply => reply.id);
     }
-    
-    return {
-      data: null,
-      error: 'Tag not found',
-    };
-  },
-};
 
-// Authors API
-export const authorsAPI = {
-  // Get all authors
-  async getAuthors(params: {
-    page?: number;
-    per_page?: number;
-  } = {}): Promise<APIResponse<WordPressAuthor[]>> {
-    const searchParams = new URLSearchParams();
-    searchParams.set('per_page', (params.per_page || 100).toString());
-    searchParams.set('page', (params.page || 1).toString());
-
-    return apiRequest<WordPressAuthor[]>(`/users?${searchParams.toString()}`);
+    return { ...threads, data: comments };
   },
 
-  // Get author by ID
-  async getAuthorById(id: number): Promise<APIResponse<WordPressAuthor>> {
-    return apiRequest<WordPressAuthor>(`/users/${id}`);
+  // Dates the comment form for the server's fill-time check
+  async getFormToken(): Promise<string | null> {
+    const response = await commentsTransport.request<{ token: string }>('/comments');
+    return response.data?.token || null;
   },
 
-  // Get author by slug
-  async getAuthorBySlug(slug: string): Promise<APIResponse<WordPressAuthor>> {
-    const response = await apiRequest<WordPressAuthor[]>(`/users?slug=${slug}`);
-    
-    if (response.data && response.data.length > 0) {
-      return {
-        data: response.data[0],
-        error: null,
-      };
+  // Submit a comment through /api/comments, which enforces the spam guard and signs in from the session
+  // The same checks run here first for quick feedback; the result may be held for moderation
+  async submitComment(input: CommentInput, guard: CommentGuardInput = {}): Promise<APIResponse<WordPressComment>> {
+    const check = checkCommentGuard(guard, getCommentHistory());
+    if (!check.allowed) {
+      const code = check.reason === 'rate_limited' ? API_ERROR_CODES.RATE_LIMITED : API_ERROR_CODES.BAD_REQUEST;
+      return { data: null, error: new WordPressAPIError(check.message, code, check.reason === 'rate_limited' ? 429 : 400) };
     }
-    
-    return {
-      data: null,
-      error: 'Author not found',
-    };
-  },
 
-  // Get posts by author
-  async getPostsByAuthor(authorId: number, params: {
-    page?: number;
-    per_page?: number;
-  } = {}): Promise<APIResponse<WordPressPost[]>> {
-    return postsAPI.getPosts({
-      author: authorId,
-      page: params.page,
-      per_page: params.per_page,
+    const response = await commentsTransport.request<WordPressComment>('/comments', {
+      method: 'POST',
+      body: JSON.stringify({ ...input, honeypot: guard.honeypot, token: guard.token }),
     });
+    if (response.data) recordCommentSubmission();
+
+    return response;
   },
 };
 
-// Media API
-export const mediaAPI = {
-  // Get media by ID
-  async getMediaById(id: number): Promise<APIResponse<WordPressMedia>> {
-    return apiRequest<WordPressMedia>(`/media/${id}`);
+// Comment moderation, requires the moderate_comments capability
+export const commentModerationAPI = {
+  async getComments(params: CommentModerationParams): Promise<APIResponse<WordPressComment[]>> {
+    return authenticatedClient.comments.getModerationComments(params);
+  },
+
+  async moderateComment(id: number, action: CommentModerationAction): Promise<APIResponse<WordPressComment>> {
+    if (action === 'trash') {
+      return authenticatedClient.comments.trashComment(id);
+    }
+    return authenticatedClient.comments.updateCommentStatus(id, action === 'approve' ? 'approved' : action);
   },
 
-  // Get all media
-  async getMedia(params: {
-    page?: number;
-    per_page?: number;
-    media_type?: 'image' | 'video' | 'audio' | 'file';
-  } = {}): Promise<APIResponse<WordPressMedia[]>> {
-    const searchParams = new URLSearchParams();
-    searchParams.set('per_page', (params.per_page || 20).toString());
-    searchParams.set('page', (params.page || 1).toString());
-    
-    if (params.media_type) {
-      searchParams.set('media_type', params.media_type);
+  // Reply as the moderator; like wp-admin, replying to a held comment approves it
+  async replyToComment(comment: Comment, content: string): Promise<APIResponse<WordPressComment>> {
+    if (comment.status === 'hold') {
+      const approved = await authenticatedClient.comments.updateCommentStatus(comment.id, 'approved');
+      if (approved.error) return approved;
     }
 
-    return apiRequest<WordPressMedia[]>(`/media?${searchParams.toString()}`);
+    return authenticatedClient.comments.createComment({ post: comment.postId, parent: comment.id, content });
   },
 };
 
 // Search API
 export const searchAPI = {
   // Global search across posts, pages, and other content
-  async search(query: string, params: {
-    page?: number;
-    per_page?: number;
+  async search(query: string, params: PaginationParams & {
     type?: 'post' | 'page';
   } = {}): Promise<APIResponse<WordPressPost[]>> {
     return postsAPI.getPosts({
@@ -312,8 +129,8 @@ export const searchAPI = {
 
 // Utility functions
 export const wpUtils = {
-  // Extract featured image from WordPress post
-  getFeaturedImage(post: WordPressPost): { url: string; alt: string } | null {
+  // Extract featured image from WordPress post or page
+  getFeaturedImage(post: WordPressPost | WordPressPage): { url: string; alt: string } | null {
     if (post._links?.['wp:featuredmedia']?.[0]) {
       const embedded = post._embedded;
       if (embedded?.['wp:featuredmedia']?.[0]) {
@@ -0,0 +1,722 @@
+// Typed WordPress REST client shared by the browser and server APIs
+import { WordPressPost, WordPressPage, WordPressRevision, WordPressCategory, WordPressTag, WordPressAuthor, WordPressMedia, WordPressComment } from '@/types/wordpress';
+import { API_ERROR_CODES, APIResponse, PostsParams, PagesParams, CategoriesParams, TagsParams, AuthorsParams, MediaParams, CommentsParams, CommentInput } from '@/types/api';
+import { WordPressAPIError, toAPIError, notFoundError, isNotFoundError } from './wordpress-errors';
+import { EntityKind, EntityTypes, ValidationMode, ValidationResult, validateEntity, validateList, formatIssues } from './schemas';
+import {
+  RetryOptions,
+  CircuitBreakerOptions,
+  DEFAULT_RETRY_OPTIONS,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  isIdempotent,
+  getRetryDelay,
+  getCircuitBreaker,
+  sleep,
+} from './resilience';
+
+// WordPress API Configuration
+export const WORDPRESS_API_URL = process.env.NEXT_PUBLIC_WORDPRESS_API_URL || 'https://your-wordpress-site.com/wp-json/wp/v2';
+// REST root for plugin namespaces outside wp/v2, and the WordPress site itself
+export const WORDPRESS_REST_URL = WORDPRESS_API_URL.replace(/\/wp\/v2\/?$/, '');
+export const WORDPRESS_URL = WORDPRESS_REST_URL.replace(/\/wp-json\/?$/, '');
+
+const DEFAULT_TIMEOUT = 10000; // 10 seconds
+
+// A transport performs a single request against the WordPress REST API
+export interface WPTransport {
+  request<T>(endpoint: string, options?: RequestInit): Promise<APIResponse<T>>;
+}
+
+export interface FetchTransportOptions {
+  baseUrl?: string;
+  timeout?: number;
+  headers?: Record<string, string>;
+  // Extra fetch options merged into every request (e.g. Next.js `next` cache config)
+  init?: RequestInit;
+  // Retry policy for idempotent requests, `false` disables retries
+  retry?: Partial<RetryOptions> | false;
+  // Circuit breaker thresholds, `false` disables the breaker
+  circuitBreaker?: Partial<CircuitBreakerOptions> | false;
+  // Serve the last good response on failure; disable for authenticated requests so private data is never shared
+  staleIfError?: boolean;
+}
+
+// Last good responses, served when the circuit is open or retries are exhausted
+const STALE_CACHE_SIZE = 200;
+const staleCache = new Map<string, APIResponse<unknown>>();
+
+function rememberResponse(url: string, response: APIResponse<unknown>): void {
+  staleCache.delete(url);
+  staleCache.set(url, response);
+
+  if (staleCache.size > STALE_CACHE_SIZE) {
+    const oldest = staleCache.keys().next().value;
+    if (oldest !== undefined) staleCache.delete(oldest);
+  }
+}
+
+function staleResponse<T>(url: string): APIResponse<T> | null {
+  const cached = staleCache.get(url);
+  return cached ? { ...(cached as APIResponse<T>), stale: true } : null;
+}
+
+export function clearStaleCache(): void {
+  staleCache.clear();
+}
+
+// Result of a single fetch attempt
+type AttemptResult =
+  | { ok: true; response: Response }
+  | { ok: false; error: WordPressAPIError; retryAfter?: string | null };
+
+// Create a fetch based transport with timeout, retries, circuit breaker and consistent error shape
+export function createFetchTransport(transportOptions: FetchTransportOptions = {}): WPTransport {
+  const {
+    baseUrl = WORDPRESS_API_URL,
+    timeout = DEFAULT_TIMEOUT,
+    headers = {},
+    init = {},
+    staleIfError = true,
+  } = transportOptions;
+
+  const retryOptions: RetryOptions = transportOptions.retry === false
+    ? { ...DEFAULT_RETRY_OPTIONS, retries: 0 }
+    : { ...DEFAULT_RETRY_OPTIONS, ...transportOptions.retry };
+
+  const breaker = transportOptions.circuitBreaker === false
+    ? null
+    : getCircuitBreaker(baseUrl, { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...transportOptions.circuitBreaker });
+
+  async function attempt(url: string, options: RequestInit): Promise<AttemptResult> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(url, {
+        signal: controller.signal,
+        ...init,
+        ...options,
+        // Per-request cache tags extend the transport's Next.js cache config instead of replacing it
+        ...(init.next || options.next ? { next: { ...init.next, ...options.next } } : {}),
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+          ...options.headers,
+        },
+      });
+
+      if (!response.ok) {
+        // Preserve the WordPress error body ({ code, message, data: { status } }) when there is one
+        const body = await response.json().catch(() => undefined);
+
+        return {
+          ok: false,
+          error: WordPressAPIError.fromResponse(response.status, response.statusText, body),
+          retryAfter: response.headers?.get('Retry-After'),
+        };
+      }
+
+      return { ok: true, response };
+    } catch (error) {
+      return { ok: false, error: toAPIError(error) };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  return {
+    async request<T>(endpoint: string, options: RequestInit = {}): Promise<APIResponse<T>> {
+      const url = `${baseUrl}${endpoint}`;
+      const idempotent = isIdempotent(options.method);
+
+      // Short-circuit to stale data while WordPress is known to be down
+      if (breaker && !breaker.canRequest()) {
+        return (idempotent && staleIfError && staleResponse<T>(url)) || {
+          data: null,
+          error: new WordPressAPIError('WordPress API temporarily unavailable', API_ERROR_CODES.UNAVAILABLE, 503),
+        };
+      }
+
+      const maxAttempts = idempotent ? retryOptions.retries + 1 : 1;
+      let result: AttemptResult = { ok: false, error: toAPIError(undefined) };
+
+      for (let attemptIndex = 0; attemptIndex < maxAttempts; attemptIndex++) {
+        result = await attempt(url, options);
+
+        // Client errors (other than throttling) won't succeed on retry
+        const retryable = !result.ok && (result.error.status === 0 || retryOptions.retryOn.includes(result.error.status));
+        if (result.ok || !retryable || attemptIndex === maxAttempts - 1) {
+          break;
+        }
+
+        await sleep(getRetryDelay(attemptIndex, retryOptions, result.error.status, result.retryAfter));
+      }
+
+      if (result.ok) {
+        try {
+          const data = await result.response.json();
+
+          // Extract pagination info from headers
+          const totalPages = parseInt(result.response.headers?.get('X-WP-TotalPages') || '1');
+          const total = parseInt(result.response.headers?.get('X-WP-Total') || '0');
+
+          const response: APIResponse<T> = {
+            data,
+            error: null,
+            totalPages,
+            total,
+          };
+
+          breaker?.recordSuccess();
+          if (idempotent && staleIfError) rememberResponse(url, response);
+
+          return response;
+        } catch (error) {
+          result = {
+            ok: false,
+            error: new WordPressAPIError('Invalid response from WordPress API', API_ERROR_CODES.INVALID_RESPONSE, result.response.status, undefined, error),
+          };
+        }
+      }
+
+      console.error('WordPress API request failed:', result.error);
+
+      // Only server-side and network failures count against the circuit; a 4xx leaves the count alone
+      if (result.error.status === 0 || result.error.status >= 500) {
+        breaker?.recordFailure();
+      } else {
+        breaker?.recordClientError();
+      }
+
+      return (idempotent && staleIfError && !isNotFoundError(result.error) && staleResponse<T>(url)) || {
+        data: null,
+        error: result.error,
+      };
+    },
+  };
+}
+
+// Browser transport used by the SWR hooks
+export const browserTransport = createFetchTransport();
+
+// Server transport used for SSR/SSG with Next.js data cache
+const SERVER_TRANSPORT_OPTIONS: FetchTransportOptions = {
+  retry: {
+    retries: 3,
+  },
+  headers: {
+    'User-Agent': 'Tailnews-React/1.0',
+  },
+  init: {
+    next: {
+      revalidate: process.env.NODE_ENV === 'development' ? 0 : 60, // Revalidate every minute in production
+    },
+  },
+};
+
+export const serverTransport = createFetchTransport(SERVER_TRANSPORT_OPTIONS);
+
+// Same caching, rooted at /wp-json for plugin endpoints such as rankmath/v1
+export const serverRootTransport = createFetchTransport({ ...SERVER_TRANSPORT_OPTIONS, baseUrl: WORDPRESS_REST_URL });
+
+// Wrap a transport so every request carries the given Next.js cache tags
+export function withCacheTags(transport: WPTransport, tags: string[]): WPTransport {
+  return {
+    request<T>(endpoint: string, options: RequestInit = {}): Promise<APIResponse<T>> {
+      return transport.request<T>(endpoint, {
+        ...options,
+        next: {
+          ...options.next,
+          tags: Array.from(new Set([...(options.next?.tags || []), ...tags])),
+        },
+      });
+    },
+  };
+}
+
+// Query builders
+export function buildPostsQuery(params: PostsParams = {}): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  // Set default values
+  searchParams.set('_embed', 'true'); // Include featured media and author
+  searchParams.set('per_page', (params.per_page || 10).toString());
+  searchParams.set('page', (params.page || 1).toString());
+  searchParams.set('orderby', params.orderby || 'date');
+  searchParams.set('order', params.order || 'desc');
+  searchParams.set('status', params.status || 'publish');
+
+  // Add optional filters
+  if (params.slug) {
+    searchParams.set('slug', params.slug);
+  }
+  if (params.categories?.length) {
+    searchParams.set('categories', params.categories.join(','));
+  }
+  if (params.tags?.length) {
+    searchParams.set('tags', params.tags.join(','));
+  }
+  if (params.author) {
+    searchParams.set('author', params.author.toString());
+  }
+  if (params.search) {
+    searchParams.set('search', params.search);
+  }
+  if (params.sticky !== undefined) {
+    searchParams.set('sticky', params.sticky.toString());
+  }
+  if (params.exclude?.length) {
+    searchParams.set('exclude', params.exclude.join(','));
+  }
+  if (params.after) {
+    searchParams.set('after', params.after);
+  }
+  if (params.before) {
+    searchParams.set('before', params.before);
+  }
+
+  return searchParams;
+}
+
+export function buildPagesQuery(params: PagesParams = {}): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  searchParams.set('_embed', 'true');
+  searchParams.set('per_page', (params.per_page || 100).toString());
+  searchParams.set('page', (params.page || 1).toString());
+  searchParams.set('orderby', params.orderby || 'menu_order');
+  searchParams.set('order', params.order || 'asc');
+  searchParams.set('status', 'publish');
+
+  if (params.slug?.length) {
+    searchParams.set('slug', params.slug.join(','));
+  }
+  if (params.parent !== undefined) {
+    searchParams.set('parent', params.parent.toString());
+  }
+  if (params.search) {
+    searchParams.set('search', params.search);
+  }
+
+  return searchParams;
+}
+
+export function buildCategoriesQuery(params: CategoriesParams = {}): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  searchParams.set('per_page', (params.per_page || 100).toString());
+  searchParams.set('page', (params.page || 1).toString());
+  searchParams.set('hide_empty', (params.hide_empty !== false).toString());
+
+  if (params.parent !== undefined) {
+    searchParams.set('parent', params.parent.toString());
+  }
+  if (params.orderby) {
+    searchParams.set('orderby', params.orderby);
+  }
+  if (params.order) {
+    searchParams.set('order', params.order);
+  }
+
+  return searchParams;
+}
+
+export function buildTagsQuery(params: TagsParams = {}): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  searchParams.set('per_page', (params.per_page || 100).toString());
+  searchParams.set('page', (params.page || 1).toString());
+  searchParams.set('hide_empty', (params.hide_empty !== false).toString());
+
+  if (params.orderby) {
+    searchParams.set('orderby', params.orderby);
+  }
+  if (params.order) {
+    searchParams.set('order', params.order);
+  }
+
+  return searchParams;
+}
+
+export function buildAuthorsQuery(params: AuthorsParams = {}): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  searchParams.set('per_page', (params.per_page || 100).toString());
+  searchParams.set('page', (params.page || 1).toString());
+
+  if (params.orderby) {
+    searchParams.set('orderby', params.orderby);
+  }
+  if (params.order) {
+    searchParams.set('order', params.order);
+  }
+  if (params.has_published_posts !== undefined) {
+    searchParams.set('has_published_posts', params.has_published_posts.toString());
+  }
+
+  return searchParams;
+}
+
+export function buildMediaQuery(params: MediaParams = {}): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  searchParams.set('per_page', (params.per_page || 20).toString());
+  searchParams.set('page', (params.page || 1).toString());
+
+  if (params.media_type) {
+    searchParams.set('media_type', params.media_type);
+  }
+
+  return searchParams;
+}
+
+export function buildCommentsQuery(params: CommentsParams = {}): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  searchParams.set('per_page', (params.per_page || 10).toString());
+  searchParams.set('page', (params.page || 1).toString());
+  searchParams.set('orderby', 'date_gmt');
+  searchParams.set('order', params.order || 'asc');
+
+  if (params.post) {
+    searchParams.set('post', params.post.toString());
+  }
+  if (params.parent?.length) {
+    searchParams.set('parent', params.parent.join(','));
+  }
+  if (params.status) {
+    searchParams.set('status', params.status);
+  }
+  if (params.search) {
+    searchParams.set('search', params.search);
+  }
+
+  return searchParams;
+}
+
+// Unwrap the first item of a slug lookup into a single-entity response
+function firstOrNotFound<T>(response: APIResponse<T[]>, notFoundMessage: string): APIResponse<T> {
+  if (response.data && response.data.length > 0) {
+    return {
+      data: response.data[0],
+      error: null,
+    };
+  }
+
+  return {
+    data: null,
+    error: response.error || notFoundError(notFoundMessage),
+  };
+}
+
+// Page slugs are only unique among siblings, so a path is matched against the whole ancestry
+// Returns the chain of pages from root to leaf, or null when no page has exactly this path
+export function resolvePagePath<T extends { id: number; slug: string; parent: number }>(pages: T[], path: string[]): T[] | null {
+  const pagesById = new Map(pages.map(page => [page.id, page]));
+  const leaves = pages.filter(page => page.slug === path[path.length - 1]);
+
+  for (const leaf of leaves) {
+    const chain = [leaf];
+
+    while (chain[0].parent && chain.length < path.length) {
+      const parent = pagesById.get(chain[0].parent);
+      if (!parent) break;
+      chain.unshift(parent);
+    }
+
+    if (!chain[0].parent && chain.length === path.length && chain.every((page, index) => page.slug === path[index])) {
+      return chain;
+    }
+  }
+
+  return null;
+}
+
+// Map the data of a response while keeping error and pagination info
+export function mapResponse<T, R>(response: APIResponse<T>, mapper: (data: T) => R): APIResponse<R> {
+  return {
+    ...response,
+    data: response.data !== null ? mapper(response.data) : null,
+  };
+}
+
+export interface WordPressClientOptions {
+  // Runtime schema validation of responses, `false` trusts the API as-is
+  validation?: ValidationMode | false;
+}
+
+// Create a WordPress client bound to a transport
+export function createWordPressClient(transport: WPTransport, clientOptions: WordPressClientOptions = {}) {
+  const { validation = 'lenient' } = clientOptions;
+
+  // Validate response data, reporting offending field paths
+  function checked<T>(
+    endpoint: string,
+    response: APIResponse<unknown>,
+    validate: (value: unknown, mode: ValidationMode) => ValidationResult<T>
+  ): APIResponse<T> {
+    if (response.data === null || validation === false) {
+      return response as APIResponse<T>;
+    }
+
+    const result = validate(response.data, validation);
+
+    if (result.issues.length > 0) {
+      console.warn(`WordPress response validation failed for ${endpoint}:`, formatIssues(result.issues));
+    }
+
+    if (result.data === null) {
+      return {
+        data: null,
+        error: new WordPressAPIError(
+          `Invalid response from WordPress API: ${formatIssues(result.issues.slice(0, 5))}`,
+          API_ERROR_CODES.INVALID_RESPONSE,
+          200,
+          undefined,
+          { issues: result.issues }
+        ),
+      };
+    }
+
+    return { ...response, data: result.data };
+  }
+
+  async function requestEntity<K extends EntityKind>(kind: K, endpoint: string): Promise<APIResponse<EntityTypes[K]>> {
+    const response = await transport.request<unknown>(endpoint);
+    return checked(endpoint, response, (value, mode) => validateEntity(kind, value, mode));
+  }
+
+  async function requestList<K extends EntityKind>(kind: K, endpoint: string): Promise<APIResponse<EntityTypes[K][]>> {
+    const response = await transport.request<unknown>(endpoint);
+    return checked(endpoint, response, (value, mode) => validateList(kind, value, mode));
+  }
+
+  const posts = {
+    // Get all posts with pagination and filtering
+    async getPosts(params: PostsParams = {}): Promise<APIResponse<WordPressPost[]>> {
+      return requestList('post', `/posts?${buildPostsQuery(params).toString()}`);
+    },
+
+    // Get single post by slug
+    async getPostBySlug(slug: string): Promise<APIResponse<WordPressPost>> {
+      const response = await posts.getPosts({ slug, per_page: 1 });
+      return firstOrNotFound(response, 'Post not found');
+    },
+
+    // Get post by ID
+    async getPostById(id: number): Promise<APIResponse<WordPressPost>> {
+      return requestEntity('post', `/posts/${id}?_embed=true`);
+    },
+
+    // Get autosaves of a post, requires an authenticated transport
+    async getPostAutosaves(id: number): Promise<APIResponse<WordPressRevision[]>> {
+      return transport.request<WordPressRevision[]>(`/posts/${id}/autosaves`);
+    },
+
+    // Get featured posts (sticky posts)
+    async getFeaturedPosts(limit: number = 5): Promise<APIResponse<WordPressPost[]>> {
+      return posts.getPosts({ sticky: true, per_page: limit });
+    },
+
+    // Get related posts by category
+    async getRelatedPosts(postId: number, categoryIds: number[], limit: number = 5): Promise<APIResponse<WordPressPost[]>> {
+      return posts.getPosts({ categories: categoryIds, exclude: [postId], per_page: limit });
+    },
+  };
+
+  const pages = {
+    // Get all published pages
+    async getPages(params: PagesParams = {}): Promise<APIResponse<WordPressPage[]>> {
+      return requestList('page', `/pages?${buildPagesQuery(params).toString()}`);
+    },
+
+    // Get page by ID
+    async getPageById(id: number): Promise<APIResponse<WordPressPage>> {
+      return requestEntity('page', `/pages/${id}?_embed=true`);
+    },
+
+    // Get page by slug, ignoring its position in the hierarchy
+    async getPageBySlug(slug: string): Promise<APIResponse<WordPressPage>> {
+      const response = await pages.getPages({ slug: [slug], per_page: 1 });
+      return firstOrNotFound(response, 'Page not found');
+    },
+
+    // Resolve a slug path like ['about', 'team'] to the chain of pages from root to leaf
+    async getPageByPath(path: string[]): Promise<APIResponse<WordPressPage[]>> {
+      if (path.length === 0) {
+        return { data: null, error: notFoundError('Page not found') };
+      }
+
+      // A single request for every page sharing a slug with the path covers all candidate ancestries
+      const response = await pages.getPages({ slug: Array.from(new Set(path)) });
+      if (!response.data) {
+        return { data: null, error: response.error };
+      }
+
+      const chain = resolvePagePath(response.data, path);
+      return chain
+        ? { data: chain, error: null }
+        : { data: null, error: notFoundError('Page not found') };
+    },
+
+    // Walk up the parent chain of a page, returning ancestors from root to direct parent
+    async getPageAncestors(page: WordPressPage, maxDepth: number = 10): Promise<APIResponse<WordPressPage[]>> {
+      const ancestors: WordPressPage[] = [];
+      let parentId = page.parent;
+
+      while (parentId && ancestors.length < maxDepth) {
+        const response = await pages.getPageById(parentId);
+        if (!response.data) {
+          return { data: null, error: response.error };
+        }
+
+        ancestors.unshift(response.data);
+        parentId = response.data.parent;
+      }
+
+      return { data: ancestors, error: null };
+    },
+  };
+
+  const categories = {
+    // Get all categories
+    async getCategories(params: CategoriesParams = {}): Promise<APIResponse<WordPressCategory[]>> {
+      return requestList('category', `/categories?${buildCategoriesQuery(params).toString()}`);
+    },
+
+    // Get category by slug
+    async getCategoryBySlug(slug: string): Promise<APIResponse<WordPressCategory>> {
+      const response = await requestList('category', `/categories?slug=${encodeURIComponent(slug)}`);
+      return firstOrNotFound(response, 'Category not found');
+    },
+
+    // Get posts by category slug
+    async getPostsByCategory(categorySlug: string, params: PostsParams = {}): Promise<APIResponse<WordPressPost[]>> {
+      // First get the category ID
+      const categoryResponse = await categories.getCategoryBySlug(categorySlug);
+      if (!categoryResponse.data) {
+        return {
+          data: null,
+          error: categoryResponse.error,
+        };
+      }
+
+      // Then get posts for that category
+      return posts.getPosts({ ...params, categories: [categoryResponse.data.id] });
+    },
+  };
+
+  const tags = {
+    // Get all tags
+    async getTags(params: TagsParams = {}): Promise<APIResponse<WordPressTag[]>> {
+      return requestList('tag', `/tags?${buildTagsQuery(params).toString()}`);
+    },
+
+    // Get tag by slug
+    async getTagBySlug(slug: string): Promise<APIResponse<WordPressTag>> {
+      const response = await requestList('tag', `/tags?slug=${encodeURIComponent(slug)}`);
+      return firstOrNotFound(response, 'Tag not found');
+    },
+  };
+
+  const authors = {
+    // Get all authors
+    async getAuthors(params: AuthorsParams = {}): Promise<APIResponse<WordPressAuthor[]>> {
+      return requestList('user', `/users?${buildAuthorsQuery(params).toString()}`);
+    },
+
+    // Get author by ID
+    async getAuthorById(id: number): Promise<APIResponse<WordPressAuthor>> {
+      return requestEntity('user', `/users/${id}`);
+    },
+
+    // Get author by slug
+    async getAuthorBySlug(slug: string): Promise<APIResponse<WordPressAuthor>> {
+      const response = await requestList('user', `/users?slug=${encodeURIComponent(slug)}`);
+      return firstOrNotFound(response, 'Author not found');
+    },
+
+    // Get posts by author
+    async getPostsByAuthor(authorId: number, params: PostsParams = {}): Promise<APIResponse<WordPressPost[]>> {
+      return posts.getPosts({ ...params, author: authorId });
+    },
+  };
+
+  const media = {
+    // Get media by ID
+    async getMediaById(id: number): Promise<APIResponse<WordPressMedia>> {
+      return requestEntity('media', `/media/${id}`);
+    },
+
+    // Get all media
+    async getMedia(params: MediaParams = {}): Promise<APIResponse<WordPressMedia[]>> {
+      return requestList('media', `/media?${buildMediaQuery(params).toString()}`);
+    },
+  };
+
+  const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+  const comments = {
+    // Get approved comments
+    async getComments(params: CommentsParams = {}): Promise<APIResponse<WordPressComment[]>> {
+      return requestList('comment', `/comments?${buildCommentsQuery(params).toString()}`);
+    },
+
+    // Get comments in any status with their posts embedded, requires the moderate_comments capability
+    // Without a token the transport must be signed in already, like the /api/wp proxy
+    async getModerationComments(params: CommentsParams, token?: string): Promise<APIResponse<WordPressComment[]>> {
+      const query = buildCommentsQuery({ order: 'desc', ...params });
+      query.set('context', 'edit');
+      query.set('_embed', 'up');
+
+      const endpoint = `/comments?${query.toString()}`;
+      const response = await transport.request<unknown>(endpoint, { headers: token ? bearer(token) : {} });
+      return checked(endpoint, response, (value, mode) => validateList('comment', value, mode));
+    },
+
+    // Create a comment; anonymous comments need WordPress' rest_allow_anonymous_comments filter
+    async createComment(input: CommentInput, token?: string): Promise<APIResponse<WordPressComment>> {
+      const response = await transport.request<unknown>('/comments', {
+        method: 'POST',
+        headers: token ? bearer(token) : {},
+        body: JSON.stringify({
+          post: input.post,
+          parent: input.parent || 0,
+          content: input.content,
+          // Registered users comment under their account
+          ...(token ? {} : {
+            author_name: input.authorName,
+            author_email: input.authorEmail,
+            author_url: input.authorUrl || undefined,
+          }),
+        }),
+      });
+      return checked('/comments', response, (value, mode) => validateEntity('comment', value, mode));
+    },
+
+    // Change the status of a comment: approved, hold or spam
+    async updateCommentStatus(id: number, status: 'approved' | 'hold' | 'spam', token?: string): Promise<APIResponse<WordPressComment>> {
+      const endpoint = `/comments/${id}`;
+      const response = await transport.request<unknown>(endpoint, {
+        method: 'POST',
+        headers: token ? bearer(token) : {},
+        body: JSON.stringify({ status }),
+      });
+      return checked(endpoint, response, (value, mode) => validateEntity('comment', value, mode));
+    },
+
+    // Move a comment to the trash
+    async trashComment(id: number, token?: string): Promise<APIResponse<WordPressComment>> {
+      const endpoint = `/comments/${id}`;
+      const response = await transport.request<unknown>(endpoint, { method: 'DELETE', headers: token ? bearer(token) : {} });
+      return checked(endpoint, response, (value, mode) => validateEntity('comment', value, mode));
+    },
+  };
+
+  return {
+    transport,
+    posts,
+    pages,
+    categories,
+    tags,
+    authors,
+    media,
+    comments,
+  };
+}
+
+export type WordPressClient = ReturnType<typeof createWordPressClient>;
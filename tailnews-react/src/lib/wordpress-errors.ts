@@ -0,0 +1,117 @@
+// Typed errors for WordPress REST API requests
+import { API_ERROR_CODES, APIError, APIErrorCode } from '@/types/api';
+
+// Shape of the error body returned by the WordPress REST API
+interface WordPressErrorBody {
+  code?: string;
+  message?: string;
+  data?: {
+    status?: number;
+    [key: string]: unknown;
+  };
+}
+
+// Next.js keeps an error's digest when passing server errors to error boundaries, but drops everything else
+const DIGEST_PREFIX = 'WORDPRESS_API_ERROR';
+
+class WordPressAPIError extends Error implements APIError {
+  public digest: string;
+
+  constructor(
+    message: string,
+    public code: APIErrorCode,
+    public status: number,
+    public wpCode?: string,
+    public data?: unknown
+  ) {
+    super(message);
+    this.name = 'WordPressAPIError';
+    this.digest = `${DIGEST_PREFIX};${code};${status}`;
+  }
+
+  // Build an error from a non-ok response and its (optional) WordPress error body
+  static fromResponse(status: number, statusText: string, body?: unknown): WordPressAPIError {
+    const wpBody = isWordPressErrorBody(body) ? body : undefined;
+    const resolvedStatus = wpBody?.data?.status || status;
+
+    return new WordPressAPIError(
+      wpBody?.message || `WordPress API Error: ${status} ${statusText}`,
+      codeFromStatus(resolvedStatus),
+      resolvedStatus,
+      wpBody?.code,
+      body
+    );
+  }
+}
+
+function isWordPressErrorBody(body: unknown): body is WordPressErrorBody {
+  return typeof body === 'object' && body !== null && ('code' in body || 'message' in body);
+}
+
+// Map an HTTP status to an error code
+export function codeFromStatus(status: number): APIErrorCode {
+  if (status === 400) return API_ERROR_CODES.BAD_REQUEST;
+  if (status === 401) return API_ERROR_CODES.UNAUTHORIZED;
+  if (status === 403) return API_ERROR_CODES.FORBIDDEN;
+  if (status === 404 || status === 410) return API_ERROR_CODES.NOT_FOUND;
+  if (status === 408) return API_ERROR_CODES.TIMEOUT;
+  if (status === 429) return API_ERROR_CODES.RATE_LIMITED;
+  if (status === 503) return API_ERROR_CODES.UNAVAILABLE;
+  if (status >= 500) return API_ERROR_CODES.SERVER_ERROR;
+  return API_ERROR_CODES.UNKNOWN;
+}
+
+// Normalise anything thrown during a request into a WordPressAPIError
+export function toAPIError(error: unknown): WordPressAPIError {
+  if (error instanceof WordPressAPIError) {
+    return error;
+  }
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new WordPressAPIError('WordPress API request timeout', API_ERROR_CODES.TIMEOUT, 0);
+  }
+
+  if (error instanceof TypeError) {
+    return new WordPressAPIError('Network error - please check your connection', API_ERROR_CODES.NETWORK, 0, undefined, error);
+  }
+
+  if (error instanceof SyntaxError) {
+    return new WordPressAPIError('Invalid response from WordPress API', API_ERROR_CODES.INVALID_RESPONSE, 0, undefined, error);
+  }
+
+  return new WordPressAPIError(
+    error instanceof Error ? error.message : 'Unknown API error',
+    API_ERROR_CODES.UNKNOWN,
+    0,
+    undefined,
+    error
+  );
+}
+
+export function notFoundError(message: string): WordPressAPIError {
+  return new WordPressAPIError(message, API_ERROR_CODES.NOT_FOUND, 404);
+}
+
+// Error code of a WordPressAPIError that reached an error boundary, by its digest
+export function errorCodeFromDigest(digest: string | undefined): APIErrorCode | null {
+  const [prefix, code] = digest?.split(';') || [];
+  return prefix === DIGEST_PREFIX ? code as APIErrorCode : null;
+}
+
+// WordPress could not be reached or is down, as opposed to a broken request
+export function isUnavailableCode(code: APIErrorCode | null): boolean {
+  return code === API_ERROR_CODES.UNAVAILABLE
+    || code === API_ERROR_CODES.TIMEOUT
+    || code === API_ERROR_CODES.NETWORK;
+}
+
+export function isNotFoundError(error: APIError | null | undefined): boolean {
+  return error?.code === API_ERROR_CODES.NOT_FOUND;
+}
+
+// WordPress rejects pages past the end instead of returning an empty list
+export function isInvalidPageError(error: APIError | null | undefined): boolean {
+  return error?.code === API_ERROR_CODES.BAD_REQUEST && !!error.wpCode?.endsWith('invalid_page_number');
+}
+
+export { WordPressAPIError };
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, setSessionCookies } from '@/lib/auth-session';
+import { FORBIDDEN_PATH, findRouteRule, getAccess, getLoginHref } from '@/lib/authorization';
+
+// Guard routes listed in ROUTE_RULES: sign-in first, then a 403 without the capability or role
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const rule = findRouteRule(pathname);
+  if (!rule) return NextResponse.next();
+
+  const session = await getSessionUser(request.cookies);
+  const access = getAccess(session?.user || null, rule);
+
+  let response: NextResponse;
+  if (access === 'unauthenticated') {
+    response = NextResponse.redirect(new URL(getLoginHref(`${pathname}${search}`), request.url));
+  } else if (access === 'forbidden') {
+    response = NextResponse.rewrite(new URL(FORBIDDEN_PATH, request.url), { status: 403 });
+  } else {
+    response = NextResponse.next();
+  }
+
+  // An expired access token was swapped using the refresh cookie
+  if (session?.refreshed) setSessionCookies(response.cookies, session.refreshed);
+
+  return response;
+}
+
+export const config = {
+  // Pages only; rules are matched in the middleware so they stay in one place
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|sw.js|workbox-.*|.*\\.(?:xml|json|txt|png|jpg|jpeg|gif|svg|webp|ico)$).*)'],
+};
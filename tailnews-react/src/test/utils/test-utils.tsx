@@ -7,8 +7,7 @@ import { SWRConfig } from 'swr';
 // Mock auth context for testing
 const mockAuthContext = {
   user: null,
-  token: null,
-  refreshToken: null,
+  expiresAt: null,
   isAuthenticated: false,
   isLoading: false,
   error: null,
@@ -65,7 +64,7 @@ export const mockAuthenticatedContext = {
   ...mockAuthContext,
   user: mockAuthenticatedUser,
   isAuthenticated: true,
-  token: 'mock-jwt-token',
+  expiresAt: Date.now() + 60 * 60 * 1000,
 };
 
 // Custom render with authenticated user
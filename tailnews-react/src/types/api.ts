@@ -6,6 +6,8 @@ export interface Article {
   content?: string;
   slug: string;
   date: string;
+  published?: string; // UTC ISO date of publication
+  modified?: string; // UTC ISO date of the last edit
   featuredImage?: {
     url: string;
     alt: string;
@@ -27,6 +29,71 @@ export interface Article {
     id: number;
   }>;
   isSticky?: boolean;
+  blocks?: ContentBlock[]; // Block structure of `content`, when WordPress provides it
+  headings?: ContentHeading[]; // h2/h3 headings of `content`, for the table of contents
+  readingTime?: number; // Estimated minutes
+  commentsOpen?: boolean;
+  commentCount?: number; // Approved comments, when WordPress provides the count
+  seo?: SeoMeta;
+}
+
+export interface ContentHeading {
+  id: string; // Anchor ID set on the heading in `content`
+  text: string;
+  level: number; // 2 or 3
+}
+
+// A Gutenberg block ready to render; `html` is the sanitised markup including inner blocks
+export interface ContentBlock {
+  name: string; // e.g. core/gallery, core/freeform for HTML outside blocks
+  attributes: Record<string, unknown>;
+  html: string;
+  innerBlocks: ContentBlock[];
+}
+
+export interface Comment {
+  id: number;
+  postId: number;
+  parentId: number; // 0 for top-level comments
+  author: {
+    id?: number; // Set for comments by registered users
+    name: string;
+    url?: string;
+    avatar?: string;
+    email?: string; // Only for moderators
+  };
+  post?: { // Embedded for moderators
+    id: number;
+    title: string;
+    slug: string;
+  };
+  date: string; // UTC ISO date
+  content: string; // Sanitised HTML
+  status: string; // approved, hold (awaiting moderation), spam or trash
+  pending?: boolean; // Optimistically shown while the submission is in flight
+  replies: Comment[];
+}
+
+export interface Page {
+  id: number;
+  title: string;
+  excerpt?: string;
+  content?: string;
+  slug: string;
+  path: string; // Full slug path including ancestors, e.g. about/team
+  date: string;
+  modified: string;
+  parent?: number;
+  featuredImage?: {
+    url: string;
+    alt: string;
+  };
+  ancestors: Array<{
+    id: number;
+    title: string;
+    path: string;
+  }>;
+  seo?: SeoMeta;
 }
 
 export interface Category {
@@ -36,6 +103,19 @@ export interface Category {
   description?: string;
   count: number;
   parent?: number;
+  seo?: SeoMeta;
+}
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[];
+  totalCount: number; // Posts in this category and all of its descendants
+  depth: number;
+}
+
+export interface ArchiveMonth {
+  year: number;
+  month: number; // 1-12
+  count: number;
 }
 
 export interface Author {
@@ -45,6 +125,11 @@ export interface Author {
   description?: string;
   avatar?: string;
   url?: string;
+  socialLinks?: Array<{
+    network: string;
+    url: string;
+  }>;
+  seo?: SeoMeta;
 }
 
 export interface Tag {
@@ -53,14 +138,72 @@ export interface Tag {
   slug: string;
   description?: string;
   count: number;
+  seo?: SeoMeta;
+}
+
+// Head metadata set by editors in Yoast SEO or RankMath
+export interface SeoMeta {
+  title?: string;
+  description?: string;
+  canonical?: string;
+  robots?: {
+    index: boolean;
+    follow: boolean;
+    maxSnippet?: number;
+    maxImagePreview?: 'none' | 'standard' | 'large';
+    maxVideoPreview?: number;
+  };
+  openGraph?: {
+    title?: string;
+    description?: string;
+    images: Array<{
+      url: string;
+      width?: number;
+      height?: number;
+      alt?: string;
+    }>;
+  };
+  twitter?: {
+    card?: 'summary' | 'summary_large_image';
+    title?: string;
+    description?: string;
+    image?: string;
+  };
+}
+
+// API error codes
+export const API_ERROR_CODES = {
+  NOT_FOUND: 'NOT_FOUND',
+  BAD_REQUEST: 'BAD_REQUEST',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  FORBIDDEN: 'FORBIDDEN',
+  RATE_LIMITED: 'RATE_LIMITED',
+  TIMEOUT: 'TIMEOUT',
+  NETWORK: 'NETWORK',
+  INVALID_RESPONSE: 'INVALID_RESPONSE',
+  SERVER_ERROR: 'SERVER_ERROR',
+  UNAVAILABLE: 'UNAVAILABLE',
+  UNKNOWN: 'UNKNOWN',
+} as const;
+
+export type APIErrorCode = typeof API_ERROR_CODES[keyof typeof API_ERROR_CODES];
+
+export interface APIError {
+  name: string;
+  message: string;
+  code: APIErrorCode;
+  status: number; // HTTP status, 0 when the request never got a response
+  wpCode?: string; // WordPress error code from the response body, e.g. rest_post_invalid_id
+  data?: unknown; // Raw WordPress error body
 }
 
 // API Response types
 export interface APIResponse<T> {
   data: T | null;
-  error: string | null;
+  error: APIError | null;
   totalPages?: number;
   total?: number;
+  stale?: boolean; // Served from the last good response while WordPress is unavailable
 }
 
 export interface PaginationParams {
@@ -77,6 +220,10 @@ export interface PostsParams extends PaginationParams {
   order?: 'asc' | 'desc';
   status?: 'publish' | 'draft' | 'private';
   sticky?: boolean;
+  slug?: string;
+  exclude?: number[];
+  after?: string; // ISO 8601 date, posts published strictly after it
+  before?: string; // ISO 8601 date, posts published strictly before it
 }
 
 export interface CategoriesParams extends PaginationParams {
@@ -86,12 +233,56 @@ export interface CategoriesParams extends PaginationParams {
   order?: 'asc' | 'desc';
 }
 
+export interface TagsParams extends PaginationParams {
+  hide_empty?: boolean;
+  orderby?: 'name' | 'count';
+  order?: 'asc' | 'desc';
+}
+
 export interface AuthorsParams extends PaginationParams {
   orderby?: 'name' | 'post_count';
   order?: 'asc' | 'desc';
   has_published_posts?: boolean;
 }
 
+export interface PagesParams extends PaginationParams {
+  slug?: string[];
+  parent?: number;
+  search?: string;
+  orderby?: 'date' | 'title' | 'menu_order';
+  order?: 'asc' | 'desc';
+}
+
+export interface CommentsParams extends PaginationParams {
+  post?: number;
+  parent?: number[];
+  status?: 'approve' | 'hold' | 'spam' | 'trash';
+  order?: 'asc' | 'desc';
+  search?: string;
+}
+
+// A new comment; name and email are required for anonymous comments
+export interface CommentInput {
+  post: number;
+  parent?: number;
+  content: string;
+  authorName?: string;
+  authorEmail?: string;
+  authorUrl?: string;
+}
+
+// What a moderator can do with a comment; trash moves it to the WordPress trash
+export type CommentModerationAction = 'approve' | 'hold' | 'spam' | 'trash';
+
+export interface CommentModerationParams extends PaginationParams {
+  status: 'hold' | 'approve' | 'spam';
+  post?: number;
+}
+
+export interface MediaParams extends PaginationParams {
+  media_type?: 'image' | 'video' | 'audio' | 'file';
+}
+
 export interface SearchParams extends PaginationParams {
   type?: 'post' | 'page';
   subtype?: string;
@@ -111,14 +302,14 @@ export interface UsePostsReturn {
   totalPages?: number;
   total?: number;
   isLoading: boolean;
-  error: string | null;
+  error: APIError | null;
   refresh: () => void;
 }
 
 export interface UsePostReturn {
   post: Article | null;
   isLoading: boolean;
-  error: string | null;
+  error: APIError | null;
   refresh: () => void;
 }
 
@@ -127,14 +318,14 @@ export interface UseCategoriesReturn {
   totalPages?: number;
   total?: number;
   isLoading: boolean;
-  error: string | null;
+  error: APIError | null;
   refresh: () => void;
 }
 
 export interface UseCategoryReturn {
   category: Category | null;
   isLoading: boolean;
-  error: string | null;
+  error: APIError | null;
   refresh: () => void;
 }
 
@@ -143,15 +334,47 @@ export interface UseAuthorsReturn {
   totalPages?: number;
   total?: number;
   isLoading: boolean;
-  error: string | null;
+  error: APIError | null;
   refresh: () => void;
 }
 
 export interface UseAuthorReturn {
   author: Author | null;
   isLoading: boolean;
-  error: string | null;
+  error: APIError | null;
+  refresh: () => void;
+}
+
+export interface UseCommentsReturn {
+  comments: Comment[] | null; // Threads on the current page, replies nested
+  totalPages?: number;
+  total?: number; // Top-level comments
+  isLoading: boolean;
+  error: APIError | null;
   refresh: () => void;
+  submitComment: (input: CommentInput, options?: SubmitCommentOptions) => Promise<Comment>;
+}
+
+export interface UseCommentModerationReturn {
+  comments: Comment[] | null; // Newest first, not threaded
+  totalPages?: number;
+  total?: number;
+  isLoading: boolean;
+  error: APIError | null;
+  refresh: () => void;
+  moderate: (ids: number[], action: CommentModerationAction) => Promise<APIError[]>; // Resolves with the failures
+  reply: (comment: Comment, content: string) => Promise<Comment>;
+}
+
+// Spam signals collected by the comment form
+export interface CommentGuardInput {
+  honeypot?: string; // Hidden field humans leave empty
+  startedAt?: number; // When the form was first shown, in ms
+  token?: string; // Issued by /api/comments, dates the form for the server's fill-time check
+}
+
+export interface SubmitCommentOptions extends CommentGuardInput {
+  author?: Comment['author']; // Shown on the optimistic comment
 }
 
 export interface UseSearchReturn {
@@ -159,7 +382,7 @@ export interface UseSearchReturn {
   totalPages?: number;
   total?: number;
   isLoading: boolean;
-  error: string | null;
+  error: APIError | null;
   refresh: () => void;
 }
 
@@ -37,10 +37,15 @@ export interface AuthResponse {
   expiresIn: number;
 }
 
+// What the auth routes tell the browser about a session; tokens stay in httpOnly cookies
+export interface SessionResponse {
+  user: User;
+  expiresIn: number; // Seconds until the access token expires
+}
+
 export interface AuthState {
   user: User | null;
-  token: string | null;
-  refreshToken: string | null;
+  expiresAt: number | null; // When the access token expires, in ms
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
@@ -48,7 +53,7 @@ export interface AuthState {
 
 export interface AuthContextType extends AuthState {
   login: (credentials: LoginCredentials) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
   register: (data: RegisterData) => Promise<void>;
   refreshAuth: () => Promise<void>;
   updateUser: (userData: Partial<User>) => Promise<void>;
@@ -114,4 +119,13 @@ export const CAPABILITIES = {
   UPLOAD_FILES: 'upload_files',
 } as const;
 
-export type Capability = typeof CAPABILITIES[keyof typeof CAPABILITIES];
\ No newline at end of file
+export type Capability = typeof CAPABILITIES[keyof typeof CAPABILITIES];
+
+// Access requirement for a group of routes; a rule without capability or role only needs a signed-in user
+export interface RouteRule {
+  pattern: string; // `*` matches one path segment, `**` any number of them
+  capability?: Capability;
+  role?: UserRole;
+}
+
+export type AccessStatus = 'allowed' | 'unauthenticated' | 'forbidden';
@@ -16,6 +16,7 @@ export interface WordPressPost {
   };
   content: {
     rendered: string;
+    raw?: string; // Block markup, only with context=edit
     protected: boolean;
   };
   excerpt: {
@@ -32,6 +33,9 @@ export interface WordPressPost {
   meta: Record<string, any>;
   categories: number[];
   tags: number[];
+  blocks?: WordPressBlock[]; // Registered by the blocks REST field (see README)
+  comment_count?: number; // Approved comments, registered by the comment_count REST field (see README)
+  yoast_head_json?: YoastHeadJson; // Present when Yoast SEO is active
   _links: {
     [key: string]: Array<{
       href: string;
@@ -47,6 +51,68 @@ export interface WordPressPost {
   };
 }
 
+export interface WordPressPage {
+  id: number;
+  date: string;
+  date_gmt: string;
+  modified: string;
+  modified_gmt: string;
+  slug: string;
+  status: 'publish' | 'future' | 'draft' | 'pending' | 'private';
+  type: string;
+  link: string;
+  title: {
+    rendered: string;
+  };
+  content: {
+    rendered: string;
+    protected: boolean;
+  };
+  excerpt: {
+    rendered: string;
+    protected: boolean;
+  };
+  author: number;
+  featured_media: number;
+  parent: number;
+  menu_order: number;
+  comment_status: 'open' | 'closed';
+  template: string;
+  meta: Record<string, unknown>;
+  yoast_head_json?: YoastHeadJson; // Present when Yoast SEO is active
+  _links: {
+    [key: string]: Array<{
+      href: string;
+      embeddable?: boolean;
+    }>;
+  };
+  _embedded?: {
+    [key: string]: unknown;
+    author?: WordPressAuthor[];
+    'wp:featuredmedia'?: WordPressMedia[];
+  };
+}
+
+export interface WordPressRevision {
+  id: number;
+  author: number;
+  date: string;
+  date_gmt: string;
+  modified: string;
+  modified_gmt: string;
+  parent: number;
+  slug: string;
+  title: {
+    rendered: string;
+  };
+  content: {
+    rendered: string;
+  };
+  excerpt: {
+    rendered: string;
+  };
+}
+
 export interface WordPressCategory {
   id: number;
   count: number;
@@ -57,6 +123,7 @@ export interface WordPressCategory {
   taxonomy: 'category';
   parent: number;
   meta: Record<string, any>;
+  yoast_head_json?: YoastHeadJson; // Present when Yoast SEO is active
   _links: {
     [key: string]: Array<{
       href: string;
@@ -73,6 +140,7 @@ export interface WordPressTag {
   slug: string;
   taxonomy: 'post_tag';
   meta: Record<string, any>;
+  yoast_head_json?: YoastHeadJson; // Present when Yoast SEO is active
   _links: {
     [key: string]: Array<{
       href: string;
@@ -91,6 +159,7 @@ export interface WordPressAuthor {
     [key: string]: string;
   };
   meta: Record<string, any>;
+  yoast_head_json?: YoastHeadJson; // Present when Yoast SEO is active
   _links: {
     [key: string]: Array<{
       href: string;
@@ -148,4 +217,77 @@ export interface WordPressMedia {
       href: string;
     }>;
   };
-}
\ No newline at end of file
+}
+
+export interface WordPressComment {
+  id: number;
+  post: number;
+  parent: number; // 0 for top-level comments
+  author: number; // 0 for anonymous comments
+  author_name: string;
+  author_url: string;
+  author_email?: string; // Only with context=edit
+  author_avatar_urls: {
+    [key: string]: string;
+  };
+  date: string;
+  date_gmt: string;
+  content: {
+    rendered: string;
+    raw?: string; // Only with context=edit
+  };
+  link: string;
+  status: string; // approved, hold, spam or trash
+  type: string;
+  _links: {
+    [key: string]: Array<{
+      href: string;
+    }>;
+  };
+  _embedded?: {
+    up?: Array<{ // The commented post
+      id: number;
+      slug: string;
+      title: {
+        rendered: string;
+      };
+    }>;
+  };
+}
+// SEO head exposed by Yoast SEO on REST responses
+export interface YoastHeadJson {
+  title?: string;
+  description?: string;
+  canonical?: string;
+  robots?: {
+    index?: 'index' | 'noindex';
+    follow?: 'follow' | 'nofollow';
+    'max-snippet'?: string;
+    'max-image-preview'?: string;
+    'max-video-preview'?: string;
+  };
+  og_type?: string;
+  og_title?: string;
+  og_description?: string;
+  og_url?: string;
+  og_image?: Array<{
+    url: string;
+    width?: number;
+    height?: number;
+    type?: string;
+  }>;
+  twitter_card?: string;
+  twitter_title?: string;
+  twitter_description?: string;
+  twitter_image?: string;
+}
+
+// A block as returned by WordPress' parse_blocks(); freeform HTML between blocks has no name
+export interface WordPressBlock {
+  blockName: string | null;
+  attrs: Record<string, unknown>;
+  innerBlocks: WordPressBlock[];
+  innerHTML: string;
+  innerContent: Array<string | null>; // null marks where each inner block goes
+  rendered?: string; // render_block() output, needed for dynamic blocks
+}